@@ -23,6 +23,7 @@ import { debounce } from '~/utils/debounce';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BinaryContent } from './BinaryContent';
 import { getTheme, reconfigureTheme } from './cm-theme';
+import { getFormatter } from './format';
 import { indentKeyBinding } from './indent';
 import { getLanguage } from './languages';
 
@@ -396,13 +397,17 @@ function setEditorDocument(
     effects: [editableStateEffect.of(editable && !doc.isBinary)],
   });
 
+  const formatter = getFormatter(doc.filePath);
+
   getLanguage(doc.filePath).then((languageSupport) => {
     if (!languageSupport) {
+      // files without a language, such as Scheme, may still have a formatter
+      view.dispatch({ effects: [languageCompartment.reconfigure([formatter])] });
       return;
     }
 
     view.dispatch({
-      effects: [languageCompartment.reconfigure([languageSupport]), reconfigureTheme(theme)],
+      effects: [languageCompartment.reconfigure([languageSupport, formatter]), reconfigureTheme(theme)],
     });
 
     requestAnimationFrame(() => {
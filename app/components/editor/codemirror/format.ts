@@ -0,0 +1,61 @@
+import type { Extension } from '@codemirror/state';
+import { keymap, type EditorView } from '@codemirror/view';
+import { SchemePrinter } from '~/lib/cognitive/scheme-printer';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Format');
+
+type Formatter = (source: string) => string | undefined;
+
+const formatters: Record<string, Formatter> = {
+  scm: formatScheme,
+};
+
+/**
+ * Key binding that reformats the whole document, for files with a formatter
+ */
+export function getFormatter(filePath: string): Extension {
+  const extension = filePath.split('.').pop()?.toLowerCase() ?? '';
+  const formatter = formatters[extension];
+
+  if (!formatter) {
+    return [];
+  }
+
+  return keymap.of([{ key: 'Shift-Alt-f', run: (view) => formatDocument(view, formatter) }]);
+}
+
+function formatDocument({ state, dispatch }: EditorView, formatter: Formatter) {
+  if (state.readOnly) {
+    return false;
+  }
+
+  const source = state.doc.toString();
+  const formatted = formatter(source);
+
+  if (formatted === undefined || formatted === source) {
+    return true;
+  }
+
+  dispatch(
+    state.update({
+      changes: { from: 0, to: state.doc.length, insert: formatted },
+      selection: { anchor: Math.min(state.selection.main.head, formatted.length) },
+      userEvent: 'input.format',
+    }),
+  );
+
+  return true;
+}
+
+function formatScheme(source: string) {
+  const formatted = new SchemePrinter().formatSource(source);
+
+  if (!formatted.success) {
+    // sources with syntax errors are left as they are
+    logger.debug(`Not formatted: ${formatted.error}`);
+    return undefined;
+  }
+
+  return formatted.result;
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for the nanostores AtomSpace adapter
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createAtomSpaceStore } from './atomspace-store';
+import { AtomSpace } from './atomspace';
+import { AtomType } from './types';
+
+const flush = () => new Promise<void>((resolve) => queueMicrotask(resolve));
+
+describe('createAtomSpaceStore', () => {
+  let atomSpace: AtomSpace;
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace();
+  });
+
+  it('should expose the current atoms', () => {
+    atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+    const store = createAtomSpaceStore(atomSpace);
+
+    expect(store.get().atomCount).toBe(1);
+    expect(store.get().atoms[0].name).toBe('cat');
+  });
+
+  it('should coalesce mutations into a single update', async () => {
+    const store = createAtomSpaceStore(atomSpace);
+    const counts: number[] = [];
+    const unsubscribe = store.listen((view) => counts.push(view.atomCount));
+
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+    await flush();
+
+    atomSpace.removeAtom(animal.id);
+    await flush();
+
+    expect(counts).toEqual([3, 1]);
+    unsubscribe();
+  });
+
+  it('should apply the filter to the view', async () => {
+    const store = createAtomSpaceStore(atomSpace, { filter: (atom) => atom.type === AtomType.PREDICATE_NODE });
+    const unsubscribe = store.listen(() => undefined);
+
+    atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    atomSpace.createNode(AtomType.PREDICATE_NODE, 'eats');
+    await flush();
+
+    expect(store.get().atoms.map((atom) => atom.name)).toEqual(['eats']);
+    unsubscribe();
+  });
+
+  it('should refresh truth value changes', async () => {
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const store = createAtomSpaceStore(atomSpace);
+    const unsubscribe = store.listen(() => undefined);
+    const initialVersion = store.get().version;
+
+    atomSpace.setTruthValue(cat.id, { strength: 0.5, confidence: 0.5 });
+    await flush();
+
+    expect(store.get().version).toBeGreaterThan(initialVersion);
+    unsubscribe();
+  });
+
+  it('should refresh attention value changes', async () => {
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const store = createAtomSpaceStore(atomSpace);
+    const unsubscribe = store.listen(() => undefined);
+    const initialVersion = store.get().version;
+
+    atomSpace.setAttentionValue(cat.id, { sti: 50, lti: 10, vlti: false });
+    await flush();
+
+    expect(store.get().version).toBeGreaterThan(initialVersion);
+    expect(store.get().atoms[0].attentionValue?.sti).toBe(50);
+    unsubscribe();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Nanostores adapter exposing a live view of an AtomSpace
+ * Lets React components subscribe with useStore() and re-render when the hypergraph changes
+ */
+
+import { atom, onMount, type ReadableAtom } from 'nanostores';
+import type { Atom, AtomSpaceEventType } from './types';
+import type { AtomSpace } from './atomspace';
+
+export interface AtomSpaceView {
+  atoms: Atom[];
+  atomCount: number;
+  tensorFragmentCount: number;
+  version: number; // Incremented on every refresh, handy as a React key
+}
+
+export interface AtomSpaceStoreOptions {
+  filter?: (atom: Atom) => boolean; // Only include matching atoms in the view
+}
+
+const SUBSCRIBED_EVENTS: AtomSpaceEventType[] = [
+  'atom-added',
+  'atom-removed',
+  'tv-changed',
+  'av-changed',
+  'notation-changed',
+  'tensor-added',
+];
+
+/**
+ * Create a store mirroring the AtomSpace
+ *
+ * The store only listens to the AtomSpace while it has subscribers, and coalesces the events of
+ * one synchronous batch of mutations into a single update.
+ */
+export function createAtomSpaceStore(
+  atomSpace: AtomSpace,
+  options: AtomSpaceStoreOptions = {},
+): ReadableAtom<AtomSpaceView> {
+  let version = 0;
+
+  const snapshot = (): AtomSpaceView => {
+    const atoms = options.filter ? atomSpace.getAllAtoms().filter(options.filter) : atomSpace.getAllAtoms();
+
+    return {
+      atoms,
+      atomCount: atoms.length,
+      tensorFragmentCount: atomSpace.getAllTensorFragments().length,
+      version: version++,
+    };
+  };
+
+  const store = atom<AtomSpaceView>(snapshot());
+
+  onMount(store, () => {
+    let scheduled = false;
+
+    const scheduleRefresh = () => {
+      if (scheduled) {
+        return;
+      }
+
+      scheduled = true;
+
+      queueMicrotask(() => {
+        scheduled = false;
+        store.set(snapshot());
+      });
+    };
+
+    // the AtomSpace may have changed while nobody was listening
+    store.set(snapshot());
+
+    const unsubscribers = SUBSCRIBED_EVENTS.map((type) => atomSpace.on(type, scheduleRefresh));
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  });
+
+  return store;
+}
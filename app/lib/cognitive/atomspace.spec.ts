@@ -0,0 +1,700 @@
+/**
+ * Tests for the AtomSpace hypergraph store
+ * Covers indices and atom lifecycle using real data
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { AtomSpace } from './atomspace';
+import { AtomType } from './types';
+import type { Link, Node } from './types';
+
+describe('AtomSpace', () => {
+  let atomSpace: AtomSpace;
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace();
+  });
+
+  describe('Incoming set index', () => {
+    it('should return the links containing an atom', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      const pet = atomSpace.createNode(AtomType.CONCEPT_NODE, 'pet');
+      const catIsAnimal = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      const catIsPet = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, pet]);
+      const list = atomSpace.createLink(AtomType.LIST_LINK, [cat]);
+
+      expect(atomSpace.getIncoming(cat.id).map((link) => link.id)).toEqual([catIsAnimal.id, catIsPet.id, list.id]);
+      expect(atomSpace.getIncoming(animal.id).map((link) => link.id)).toEqual([catIsAnimal.id]);
+      expect(atomSpace.getIncoming(catIsAnimal.id)).toEqual([]);
+    });
+
+    it('should filter the incoming set by link type', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+
+      const list = atomSpace.createLink(AtomType.LIST_LINK, [cat, animal]);
+
+      expect(atomSpace.getIncomingByType(cat.id, AtomType.LIST_LINK)).toEqual([list]);
+      expect(atomSpace.getIncomingByType(cat.id, AtomType.EVALUATION_LINK)).toEqual([]);
+    });
+
+    it('should cascade removal through the incoming set', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      const inheritance = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      const wrapper = atomSpace.createLink(AtomType.LIST_LINK, [inheritance]);
+
+      expect(atomSpace.removeAtom(cat.id)).toBe(true);
+
+      expect(atomSpace.getAtom(inheritance.id)).toBeUndefined();
+      expect(atomSpace.getAtom(wrapper.id)).toBeUndefined();
+      expect(atomSpace.getIncoming(animal.id)).toEqual([]);
+      expect(atomSpace.getAtom(animal.id)).toBeDefined();
+    });
+
+    it('should update the incoming set when a link is removed', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      const inheritance = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+
+      atomSpace.removeAtom(inheritance.id);
+
+      expect(atomSpace.getIncoming(cat.id)).toEqual([]);
+      expect(atomSpace.getAtom(cat.id)).toBeDefined();
+    });
+  });
+
+  describe('Atom deduplication', () => {
+    it('should intern nodes by type and name', () => {
+      const first = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const second = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const predicate = atomSpace.createNode(AtomType.PREDICATE_NODE, 'cat');
+
+      expect(second).toBe(first);
+      expect(predicate.id).not.toBe(first.id);
+      expect(atomSpace.getAllAtoms()).toHaveLength(2);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'cat')).toBe(first);
+    });
+
+    it('should intern links by type and outgoing set', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+
+      const first = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      const second = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      const reversed = atomSpace.createLink(AtomType.INHERITANCE_LINK, [animal, cat]);
+
+      expect(second).toBe(first);
+      expect(reversed.id).not.toBe(first.id);
+      expect(atomSpace.getLink(AtomType.INHERITANCE_LINK, [cat, animal])).toBe(first);
+      expect(atomSpace.getIncoming(cat.id)).toHaveLength(2);
+    });
+
+    it('should keep anonymous nodes distinct', () => {
+      const first = atomSpace.createNode(AtomType.CONCEPT_NODE);
+      const second = atomSpace.createNode(AtomType.CONCEPT_NODE);
+
+      expect(second.id).not.toBe(first.id);
+    });
+
+    it('should merge truth values on re-insertion', () => {
+      const weak = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.4, confidence: 0.2 });
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.9, confidence: 0.8 });
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.1, confidence: 0.5 });
+
+      expect(weak.truthValue).toEqual({ strength: 0.9, confidence: 0.8 });
+    });
+
+    it('should return the stored ID when adding an equivalent atom', () => {
+      const stored = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const id = atomSpace.addAtom({ id: 'external-cat', type: AtomType.CONCEPT_NODE, name: 'cat' });
+
+      expect(id).toBe(stored.id);
+      expect(atomSpace.getAtom('external-cat')).toBeUndefined();
+    });
+
+    it('should allow re-creating an atom after removal', () => {
+      const first = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      atomSpace.removeAtom(first.id);
+
+      const second = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      expect(second.id).not.toBe(first.id);
+      expect(atomSpace.getAtom(second.id)).toBe(second);
+    });
+  });
+
+  describe('Truth value merge policies', () => {
+    const reassert = (space: AtomSpace) => {
+      const node = space.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.8, confidence: 0.5 });
+      space.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.2, confidence: 0.3 });
+
+      return node;
+    };
+
+    it('should keep the more confident estimate by default', () => {
+      expect(reassert(atomSpace).truthValue).toEqual({ strength: 0.8, confidence: 0.5 });
+    });
+
+    it('should take the newest estimate with the overwrite policy', () => {
+      const node = reassert(new AtomSpace({ truthValueMergePolicy: 'overwrite' }));
+      expect(node.truthValue).toEqual({ strength: 0.2, confidence: 0.3 });
+      expect(node.confidence).toBe(0.3);
+    });
+
+    it('should pool evidence with the revision policy', () => {
+      const node = reassert(new AtomSpace({ truthValueMergePolicy: 'revision' }));
+
+      expect(node.truthValue!.strength).toBeGreaterThan(0.2);
+      expect(node.truthValue!.strength).toBeLessThan(0.8);
+      expect(node.truthValue!.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('should apply the policy to re-asserted links and added atoms', () => {
+      const space = new AtomSpace({ truthValueMergePolicy: 'overwrite' });
+      const cat = space.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = space.createNode(AtomType.CONCEPT_NODE, 'animal');
+      const link = space.createLink(AtomType.INHERITANCE_LINK, [cat, animal], { strength: 0.9, confidence: 0.9 });
+
+      space.createLink(AtomType.INHERITANCE_LINK, [cat, animal], { strength: 0.5, confidence: 0.4 });
+      expect(link.truthValue).toEqual({ strength: 0.5, confidence: 0.4 });
+
+      space.addAtom({ ...link, truthValue: { strength: 0.7, confidence: 0.6 } });
+      expect(link.truthValue).toEqual({ strength: 0.7, confidence: 0.6 });
+    });
+
+    it('should accept a custom merger', () => {
+      const space = new AtomSpace({
+        truthValueMergePolicy: (existing, incoming) => ({
+          strength: Math.min(existing.strength, incoming.strength),
+          confidence: Math.min(existing.confidence, incoming.confidence),
+        }),
+      });
+
+      expect(reassert(space).truthValue).toEqual({ strength: 0.2, confidence: 0.3 });
+    });
+  });
+
+  describe('Garbage collection', () => {
+    it('should evict weak atoms but protect atoms referenced by live links', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.05, confidence: 0.9 });
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal], { strength: 0.9, confidence: 0.9 });
+
+      const noise = atomSpace.createNode(AtomType.CONCEPT_NODE, 'noise', { strength: 0.05, confidence: 0.9 });
+
+      const result = atomSpace.garbageCollect();
+
+      expect(result.evicted).toEqual([noise]);
+      expect(result.protectedCount).toBe(2);
+      expect(atomSpace.getAtom(noise.id)).toBeUndefined();
+      expect(atomSpace.getAtom(cat.id)).toBe(cat);
+    });
+
+    it('should free the outgoing atoms of evicted links', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.05, confidence: 0.9 });
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal], { strength: 0.01, confidence: 0.9 });
+
+      const result = atomSpace.garbageCollect();
+
+      expect(result.evicted.map((atom) => atom.type)).toEqual([AtomType.INHERITANCE_LINK, AtomType.CONCEPT_NODE]);
+      expect(atomSpace.getAllAtoms()).toEqual([animal]);
+    });
+
+    it('should only report evictions in dry-run mode', () => {
+      const noise = atomSpace.createNode(AtomType.CONCEPT_NODE, 'noise', { strength: 0.05, confidence: 0.9 });
+
+      const result = atomSpace.garbageCollect({ dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.evicted).toEqual([noise]);
+      expect(atomSpace.getAtom(noise.id)).toBe(noise);
+    });
+
+    it('should evict the lowest scoring atoms down to the target size', () => {
+      const confident = atomSpace.createNode(AtomType.CONCEPT_NODE, 'confident', { strength: 0.9, confidence: 0.9 });
+      const unsure = atomSpace.createNode(AtomType.CONCEPT_NODE, 'unsure', { strength: 0.9, confidence: 0.1 });
+      const doubtful = atomSpace.createNode(AtomType.CONCEPT_NODE, 'doubtful', { strength: 0.9, confidence: 0.2 });
+
+      const result = atomSpace.garbageCollect({ targetSize: 1 });
+
+      expect(result.evicted).toEqual([unsure, doubtful]);
+      expect(atomSpace.getAllAtoms()).toEqual([confident]);
+    });
+
+    it('should score attention through the attention provider', () => {
+      const space = new AtomSpace({
+        gcWeights: { confidence: 0, attention: 1, age: 0 },
+        attentionProvider: (atom) => (atom.name === 'focused' ? 1 : 0),
+      });
+      const focused = space.createNode(AtomType.CONCEPT_NODE, 'focused');
+      space.createNode(AtomType.CONCEPT_NODE, 'ignored');
+
+      space.garbageCollect({ targetSize: 1 });
+
+      expect(space.getAllAtoms()).toEqual([focused]);
+    });
+
+    it('should score attention by relative STI by default', () => {
+      const space = new AtomSpace({ gcWeights: { confidence: 0, attention: 1, age: 0 } });
+      const important = space.createNode(AtomType.CONCEPT_NODE, 'important');
+      const ignored = space.createNode(AtomType.CONCEPT_NODE, 'ignored');
+
+      space.setAttentionValue(important.id, { sti: 50, lti: 0, vlti: false });
+      space.setAttentionValue(ignored.id, { sti: 5, lti: 0, vlti: false });
+      space.garbageCollect({ targetSize: 1 });
+
+      expect(space.getAllAtoms().map((atom) => atom.name)).toEqual(['important']);
+    });
+
+    it('should never evict atoms with very long-term importance', () => {
+      const kept = atomSpace.createNode(AtomType.CONCEPT_NODE, 'kept', { strength: 0.05, confidence: 0.9 });
+      atomSpace.setAttentionValue(kept.id, { sti: 0, lti: 0, vlti: true });
+
+      const result = atomSpace.garbageCollect({ targetSize: 0 });
+
+      expect(result.evicted).toEqual([]);
+      expect(atomSpace.getAtom(kept.id)).toBeDefined();
+    });
+
+    it('should collect automatically when full and report evictions', () => {
+      const evictions: string[][] = [];
+      const space = new AtomSpace({
+        maxAtoms: 4,
+        gcEvictionRatio: 0.5,
+        onEvict: (atoms) => evictions.push(atoms.map((atom) => atom.name!)),
+      });
+
+      space.createNode(AtomType.CONCEPT_NODE, 'a', { strength: 1, confidence: 0.9 });
+      space.createNode(AtomType.CONCEPT_NODE, 'b', { strength: 1, confidence: 0.1 });
+      space.createNode(AtomType.CONCEPT_NODE, 'c', { strength: 1, confidence: 0.8 });
+      space.createNode(AtomType.CONCEPT_NODE, 'd', { strength: 1, confidence: 0.2 });
+      space.createNode(AtomType.CONCEPT_NODE, 'e', { strength: 1, confidence: 0.7 });
+
+      expect(evictions).toEqual([['b', 'd']]);
+      expect(space.getAllAtoms().map((atom) => atom.name)).toEqual(['a', 'c', 'e']);
+    });
+  });
+
+  describe('Attention values', () => {
+    const av = (sti: number, lti = 0, vlti = false) => ({ sti, lti, vlti });
+
+    it('should default to no importance', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      expect(atomSpace.getAttentionValue(cat.id)).toEqual(av(0));
+      expect(atomSpace.setAttentionValue('missing', av(1))).toBe(false);
+    });
+
+    it('should keep atoms above the focus boundary in the attentional focus, most important first', () => {
+      const space = new AtomSpace({ attentionalFocusBoundary: 10 });
+      const cat = space.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const dog = space.createNode(AtomType.CONCEPT_NODE, 'dog');
+      const fish = space.createNode(AtomType.CONCEPT_NODE, 'fish');
+
+      space.setAttentionValue(cat.id, av(20));
+      space.setAttentionValue(dog.id, av(30));
+      space.setAttentionValue(fish.id, av(5));
+
+      expect(space.getAttentionalFocus().map((atom) => atom.name)).toEqual(['dog', 'cat']);
+
+      space.setAttentionValue(dog.id, av(9));
+
+      expect(space.getAttentionalFocus().map((atom) => atom.name)).toEqual(['cat']);
+    });
+
+    it('should cap the attentional focus at its size', () => {
+      const space = new AtomSpace({ attentionalFocusBoundary: 0, attentionalFocusSize: 2 });
+
+      ['a', 'b', 'c'].forEach((name, index) => {
+        space.setAttentionValue(space.createNode(AtomType.CONCEPT_NODE, name).id, av(index + 1));
+      });
+
+      expect(space.getAttentionalFocus().map((atom) => atom.name)).toEqual(['c', 'b']);
+    });
+
+    it('should drop removed atoms from the attentional focus', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      atomSpace.setAttentionValue(cat.id, av(100));
+      atomSpace.removeAtom(cat.id);
+
+      expect(atomSpace.getAttentionalFocus()).toEqual([]);
+    });
+
+    it('should emit av-changed events', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const events: Array<{ previous?: { sti: number }; current: { sti: number } }> = [];
+
+      atomSpace.on('av-changed', (event) => events.push(event));
+      atomSpace.setAttentionValue(cat.id, av(5));
+      atomSpace.setAttentionValue(cat.id, av(5));
+      atomSpace.setAttentionValue(cat.id, av(7));
+
+      expect(events.map((event) => [event.previous?.sti, event.current.sti])).toEqual([
+        [undefined, 5],
+        [5, 7],
+      ]);
+    });
+
+    it('should roll back attention values and the focus with a transaction', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      expect(() =>
+        atomSpace.transaction(() => {
+          atomSpace.setAttentionValue(cat.id, av(100));
+          throw new Error('abort');
+        }),
+      ).toThrow('abort');
+
+      expect(atomSpace.getAttentionValue(cat.id)).toEqual(av(0));
+      expect(atomSpace.getAttentionalFocus()).toEqual([]);
+    });
+
+    it('should keep attention values through snapshots', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      atomSpace.setAttentionValue(cat.id, av(42, 7, true));
+
+      const fromJson = new AtomSpace();
+      const fromBinary = new AtomSpace();
+
+      fromJson.importSnapshot(atomSpace.exportSnapshot());
+      fromBinary.importBinarySnapshot(atomSpace.exportBinarySnapshot());
+
+      expect(fromJson.getAttentionValue(cat.id)).toEqual(av(42, 7, true));
+      expect(fromBinary.getAttentionValue(cat.id)).toEqual(av(42, 7, true));
+      expect(fromBinary.getAttentionalFocus().map((atom) => atom.id)).toEqual([cat.id]);
+    });
+
+    it('should copy attention values of inherited atoms back on commit', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const overlay = new AtomSpace({ parent: atomSpace });
+
+      overlay.setAttentionValue(cat.id, av(50));
+
+      expect(overlay.getAttentionalFocus().map((atom) => atom.id)).toEqual([cat.id]);
+      expect(atomSpace.getAttentionalFocus()).toEqual([]);
+
+      overlay.commitToParent();
+
+      expect(atomSpace.getAttentionValue(cat.id)).toEqual(av(50));
+    });
+  });
+
+  describe('Change events', () => {
+    it('should emit atom-added only for new atoms', () => {
+      const added: string[] = [];
+      atomSpace.on('atom-added', ({ atom }) => added.push(atom.name!));
+
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'dog');
+
+      expect(added).toEqual(['cat', 'dog']);
+    });
+
+    it('should emit atom-removed for cascaded removals', () => {
+      const removed: AtomType[] = [];
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      atomSpace.on('atom-removed', ({ atom }) => removed.push(atom.type));
+
+      atomSpace.removeAtom(cat.id);
+      atomSpace.clear();
+
+      expect(removed).toEqual([AtomType.INHERITANCE_LINK, AtomType.CONCEPT_NODE, AtomType.CONCEPT_NODE]);
+    });
+
+    it('should emit tv-changed with the previous and current truth values', () => {
+      const changes: Array<[number | undefined, number]> = [];
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      atomSpace.on('tv-changed', ({ previous, current }) => changes.push([previous?.strength, current.strength]));
+
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.6, confidence: 0.5 });
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.1, confidence: 0.1 });
+      atomSpace.setTruthValue(cat.id, { strength: 0.9, confidence: 0.9 });
+
+      expect(changes).toEqual([
+        [undefined, 0.6],
+        [0.6, 0.9],
+      ]);
+      expect(atomSpace.setTruthValue('missing', { strength: 1, confidence: 1 })).toBe(false);
+    });
+
+    it('should emit tensor-added when fragments are stored', () => {
+      const fragments: string[] = [];
+      atomSpace.on('tensor-added', ({ fragment }) => fragments.push(fragment.id));
+
+      const fragment = atomSpace.createTensorFragment({
+        modality: 2,
+        depth: 2,
+        context: 2,
+        salience: 2,
+        autonomy_index: 2,
+      });
+
+      expect(fragments).toEqual([fragment!.id]);
+    });
+
+    it('should stop notifying after unsubscribing', () => {
+      let count = 0;
+      const unsubscribe = atomSpace.on('atom-added', () => count++);
+
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+      unsubscribe();
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'dog');
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('Transactions', () => {
+    const shape = { modality: 2, depth: 2, context: 2, salience: 2, autonomy_index: 2 };
+
+    it('should keep the changes of a successful transaction', () => {
+      const result = atomSpace.transaction((space) => {
+        const cat = space.createNode(AtomType.CONCEPT_NODE, 'cat');
+        const animal = space.createNode(AtomType.CONCEPT_NODE, 'animal');
+
+        return space.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      });
+
+      expect(atomSpace.getAtom(result.id)).toBe(result);
+      expect(atomSpace.getAllAtoms()).toHaveLength(3);
+    });
+
+    it('should roll back atoms, indices and tensor fragments when the callback throws', () => {
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+
+      expect(() =>
+        atomSpace.transaction((space) => {
+          const cat = space.createNode(AtomType.CONCEPT_NODE, 'cat');
+          space.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+          space.createTensorFragment(shape);
+          throw new Error('translation failed');
+        }),
+      ).toThrow('translation failed');
+
+      expect(atomSpace.getAllAtoms()).toEqual([animal]);
+      expect(atomSpace.getAtomsByName('cat')).toEqual([]);
+      expect(atomSpace.getIncoming(animal.id)).toEqual([]);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'cat')).toBeUndefined();
+      expect(atomSpace.getAllTensorFragments()).toEqual([]);
+    });
+
+    it('should restore removed atoms and truth values', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.5, confidence: 0.5 });
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      const link = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      const fragment = atomSpace.createTensorFragment(shape)!;
+
+      expect(() =>
+        atomSpace.transaction((space) => {
+          space.setTruthValue(cat.id, { strength: 0.9, confidence: 0.9 });
+          space.removeAtom(cat.id);
+          space.removeTensorFragment(fragment.id);
+          throw new Error('abort');
+        }),
+      ).toThrow('abort');
+
+      expect(atomSpace.getAtom(cat.id)).toBe(cat);
+      expect(atomSpace.getAtom(link.id)).toBe(link);
+      expect(atomSpace.getIncoming(cat.id)).toEqual([link]);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'cat')).toBe(cat);
+      expect(cat.truthValue).toEqual({ strength: 0.5, confidence: 0.5 });
+      expect(atomSpace.getTensorFragment(fragment.id)).toBe(fragment);
+    });
+
+    it('should restore the AtomSpace after a cleared transaction fails', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      expect(() =>
+        atomSpace.transaction((space) => {
+          space.clear();
+          throw new Error('abort');
+        }),
+      ).toThrow('abort');
+
+      expect(atomSpace.getAllAtoms()).toEqual([cat]);
+      expect(atomSpace.getAtomsByType(AtomType.CONCEPT_NODE)).toEqual([cat]);
+    });
+
+    it('should roll back committed nested transactions with the outer transaction', () => {
+      expect(() =>
+        atomSpace.transaction((space) => {
+          space.transaction((inner) => inner.createNode(AtomType.CONCEPT_NODE, 'inner'));
+          space.createNode(AtomType.CONCEPT_NODE, 'outer');
+          throw new Error('abort');
+        }),
+      ).toThrow('abort');
+
+      expect(atomSpace.getAllAtoms()).toEqual([]);
+    });
+
+    it('should only roll back a failed nested transaction', () => {
+      atomSpace.transaction((space) => {
+        space.createNode(AtomType.CONCEPT_NODE, 'outer');
+
+        try {
+          space.transaction((inner) => {
+            inner.createNode(AtomType.CONCEPT_NODE, 'inner');
+            throw new Error('abort');
+          });
+        } catch {
+          // the outer transaction carries on
+        }
+      });
+
+      expect(atomSpace.getAllAtoms().map((atom) => atom.name)).toEqual(['outer']);
+    });
+  });
+
+  describe('Overlay frames', () => {
+    let cat: Node;
+    let animal: Node;
+    let catIsAnimal: Link;
+    let child: AtomSpace;
+
+    beforeEach(() => {
+      cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.8, confidence: 0.5 });
+      animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+      catIsAnimal = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+      child = new AtomSpace({ parent: atomSpace });
+    });
+
+    it('should read through to the parent', () => {
+      const dog = child.createNode(AtomType.CONCEPT_NODE, 'dog');
+
+      expect(child.getAtom(cat.id)).toBe(cat);
+      expect(child.getAtomsByType(AtomType.CONCEPT_NODE)).toEqual([cat, animal, dog]);
+      expect(child.getAtomsByName('animal')).toEqual([animal]);
+      expect(child.getIncoming(cat.id)).toEqual([catIsAnimal]);
+      expect(child.getNode(AtomType.CONCEPT_NODE, 'cat')).toBe(cat);
+    });
+
+    it('should find atoms and count statistics across both layers', () => {
+      const dog = child.createNode(AtomType.CONCEPT_NODE, 'dog');
+
+      child.removeAtom(catIsAnimal.id);
+
+      expect(child.findAtoms({ name: 'cat' })).toEqual([cat]);
+      expect(child.findAtoms({ truthValue: { strength: 1, confidence: 1 } })).toEqual([]);
+      expect(child.findAtoms({ type: AtomType.CONCEPT_NODE })).toEqual([cat, animal, dog]);
+      expect(child.getStats()).toMatchObject({
+        totalAtoms: 3,
+        localAtoms: 1,
+        typeDistribution: { [AtomType.CONCEPT_NODE]: 3 },
+      });
+      expect(atomSpace.getStats()).toMatchObject({ totalAtoms: 3, localAtoms: 3 });
+    });
+
+    it('should find, count and hide tensor fragments of the parent', () => {
+      const shape = { modality: 2, depth: 3, context: 4, salience: 5, autonomy_index: 6 };
+      const fragment = atomSpace.createTensorFragment(shape)!;
+
+      expect(child.findTensorFragmentsByShape({ modality: 2 })).toEqual([fragment]);
+      expect(child.getStats().tensorFragments.count).toBe(1);
+
+      expect(child.removeTensorFragment(fragment.id)).toBe(true);
+      expect(child.getTensorFragment(fragment.id)).toBeUndefined();
+      expect(child.findTensorFragmentsByShape({ modality: 2 })).toEqual([]);
+      expect(atomSpace.getTensorFragment(fragment.id)).toBe(fragment);
+
+      child.commitToParent();
+
+      expect(atomSpace.getTensorFragment(fragment.id)).toBeUndefined();
+    });
+
+    it('should keep writes local to the overlay', () => {
+      const dog = child.createNode(AtomType.CONCEPT_NODE, 'dog');
+      const dogIsAnimal = child.createLink(AtomType.INHERITANCE_LINK, [dog, animal]);
+
+      expect(atomSpace.getAtom(dog.id)).toBeUndefined();
+      expect(atomSpace.getIncoming(animal.id)).toEqual([catIsAnimal]);
+      expect(child.getIncoming(animal.id)).toEqual([catIsAnimal, dogIsAnimal]);
+    });
+
+    it('should intern against the parent layer', () => {
+      expect(child.createNode(AtomType.CONCEPT_NODE, 'cat')).toBe(cat);
+      expect(child.createLink(AtomType.INHERITANCE_LINK, [cat, animal])).toBe(catIsAnimal);
+      expect(child.getStats().localAtoms).toBe(0);
+    });
+
+    it('should copy parent atoms on write', () => {
+      child.setTruthValue(cat.id, { strength: 0.1, confidence: 0.9 });
+
+      expect(cat.truthValue).toEqual({ strength: 0.8, confidence: 0.5 });
+      expect(child.getAtom(cat.id)!.truthValue).toEqual({ strength: 0.1, confidence: 0.9 });
+      expect(child.getAtomsByName('cat')).toHaveLength(1);
+    });
+
+    it('should hide parent atoms removed in the overlay', () => {
+      child.removeAtom(animal.id);
+
+      expect(child.getAtom(animal.id)).toBeUndefined();
+      expect(child.getAtom(catIsAnimal.id)).toBeUndefined();
+      expect(child.getAllAtoms()).toEqual([cat]);
+      expect(atomSpace.getAtom(animal.id)).toBe(animal);
+    });
+
+    it('should commit local changes to the parent', () => {
+      const dog = child.createNode(AtomType.CONCEPT_NODE, 'dog');
+      child.createLink(AtomType.INHERITANCE_LINK, [dog, animal]);
+      child.setTruthValue(cat.id, { strength: 0.1, confidence: 0.9 });
+      child.removeAtom(catIsAnimal.id);
+
+      child.commitToParent();
+
+      const committedDog = atomSpace.getNode(AtomType.CONCEPT_NODE, 'dog')!;
+
+      expect(committedDog.id).toBe(dog.id);
+      expect(atomSpace.getLink(AtomType.INHERITANCE_LINK, [committedDog, animal])).toBeDefined();
+      expect(atomSpace.getAtom(catIsAnimal.id)).toBeUndefined();
+      expect(cat.truthValue).toEqual({ strength: 0.1, confidence: 0.9 });
+      expect(child.getStats().localAtoms).toBe(0);
+    });
+
+    it('should remap links onto atoms the parent gained meanwhile', () => {
+      const dog = child.createNode(AtomType.CONCEPT_NODE, 'dog');
+      child.createLink(AtomType.INHERITANCE_LINK, [dog, animal]);
+
+      const parentDog = atomSpace.createNode(AtomType.CONCEPT_NODE, 'dog');
+
+      child.commitToParent();
+
+      expect(atomSpace.getAtomsByName('dog')).toEqual([parentDog]);
+      expect(atomSpace.getLink(AtomType.INHERITANCE_LINK, [parentDog, animal])).toBeDefined();
+    });
+
+    it('should discard local changes', () => {
+      child.createNode(AtomType.CONCEPT_NODE, 'dog');
+      child.removeAtom(animal.id);
+
+      child.discard();
+
+      expect(child.getAllAtoms()).toEqual([cat, animal, catIsAnimal]);
+      expect(atomSpace.getAllAtoms()).toEqual([cat, animal, catIsAnimal]);
+    });
+
+    it('should query across both layers', () => {
+      const dog = child.createNode(AtomType.CONCEPT_NODE, 'dog');
+      child.createLink(AtomType.INHERITANCE_LINK, [dog, animal]);
+
+      const matches = child.query({
+        id: 'query',
+        type: AtomType.INHERITANCE_LINK,
+        outgoing: [{ id: 'x', type: AtomType.VARIABLE_NODE, name: '$x' }, animal],
+      } as Link);
+
+      expect(matches.map((match) => match.bindings.$x.name)).toEqual(['cat', 'dog']);
+    });
+
+    it('should refuse to commit without a parent', () => {
+      expect(() => atomSpace.commitToParent()).toThrow('no parent');
+    });
+  });
+});
@@ -3,32 +3,107 @@
  * Provides the foundational data structure for cognitive primitives
  */
 
-import type { Atom, Link, Node, TruthValue, AtomSpaceConfig, TensorFragment, TensorShape } from './types';
+import type {
+  Atom,
+  Link,
+  Node,
+  TruthValue,
+  AttentionValue,
+  AtomSpaceConfig,
+  AtomSpaceEventMap,
+  AtomSpaceEventType,
+  AtomSpaceListener,
+  AtomUsageSource,
+  TensorFragment,
+  TensorShape,
+  GarbageCollectionOptions,
+  GarbageCollectionResult,
+  PatternMatch,
+  PatternMatchOptions,
+  AtomSpaceSnapshot,
+  SnapshotImportOptions,
+  AtomTypeQueryOptions,
+  AtomValidationIssue,
+  SchemeNotation,
+} from './types';
 import { AtomType } from './types';
 import { TensorFragmentProcessor } from './tensor-fragments';
+import { PatternMatcher } from './pattern-matcher';
+import { mergeTruthValues } from './truth-value';
+import { AtomTypeRegistry, AtomValidationError } from './type-hierarchy';
+import { createSnapshot, decodeBinarySnapshot, encodeBinarySnapshot, validateSnapshot } from './snapshot';
 
 export class AtomSpace {
   private atoms: Map<string, Atom> = new Map();
   private typeIndex: Map<AtomType, Set<string>> = new Map();
   private nameIndex: Map<string, Set<string>> = new Map();
+  private incomingIndex: Map<string, Set<string>> = new Map();
+  private contentIndex: Map<string, string> = new Map();
+  private createdAt: Map<string, number> = new Map();
+  private listeners: { [K in AtomSpaceEventType]?: Set<AtomSpaceListener<K>> } = {};
+  private journal: Array<() => void> | null = null;
+  private parent?: AtomSpace;
+  private hidden: Set<string> = new Set(); // Parent atoms removed in this layer
+  private hiddenTensorFragments: Set<string> = new Set(); // Parent tensor fragments removed in this layer
+  private focus: Set<string> = new Set(); // Atoms of this layer with STI at or above the focus boundary
   private tensorFragments: Map<string, TensorFragment> = new Map();
   private tensorProcessor: TensorFragmentProcessor;
+  private patternMatcher: PatternMatcher;
+  private typeRegistry: AtomTypeRegistry;
   private config: AtomSpaceConfig;
 
-  constructor(config: Partial<AtomSpaceConfig> = {}) {
+  /**
+   * Passing a parent creates an overlay (frame): reads fall through to the parent, while every
+   * write stays in this layer until commitToParent() or discard() is called. Overlays share
+   * the type registry of their parent; other AtomSpaces get a registry of their own unless one
+   * is passed in.
+   */
+  constructor(config: Partial<AtomSpaceConfig> & { parent?: AtomSpace; typeRegistry?: AtomTypeRegistry } = {}) {
+    const { parent, typeRegistry, ...atomSpaceConfig } = config;
+
+    this.parent = parent;
+    this.typeRegistry = typeRegistry ?? parent?.typeRegistry ?? new AtomTypeRegistry();
     this.config = {
       maxAtoms: 1000000,
       enableGarbageCollection: true,
       truthValueThreshold: 0.1,
-      ...config,
+      truthValueMergePolicy: 'max-confidence',
+      gcEvictionRatio: 0.1,
+      gcWeights: { confidence: 0.5, attention: 0.3, age: 0.2 },
+      attentionalFocusBoundary: 10,
+      attentionalFocusSize: 100,
+      ...atomSpaceConfig,
     };
     this.tensorProcessor = new TensorFragmentProcessor();
+    this.patternMatcher = new PatternMatcher(this);
   }
 
   /**
    * Add an atom to the AtomSpace
+   *
+   * Nodes are unique by (type, name) and links by (type, outgoing). Re-adding an atom with the
+   * same ID or content returns the ID of the stored atom and merges the truth values according
+   * to the configured merge policy instead. Atoms that do not fit the signature of their type
+   * are rejected with an AtomValidationError.
    */
   addAtom(atom: Atom): string {
+    const issues = this.validateAtom(atom);
+
+    if (issues.length > 0) {
+      throw new AtomValidationError(issues);
+    }
+
+    const contentKey = this.getContentKey(atom);
+    const existing = this.getAtom(atom.id) ?? (contentKey ? this.lookupContent(contentKey) : undefined);
+
+    if (existing) {
+      if (existing !== atom && atom.truthValue) {
+        this.mergeTruthValue(this.ensureLocal(existing), atom.truthValue);
+      }
+
+      return existing.id;
+    }
+
     if (this.atoms.size >= this.config.maxAtoms) {
       if (this.config.enableGarbageCollection) {
         this.garbageCollect();
@@ -37,7 +112,20 @@ export class AtomSpace {
       }
     }
 
+    this.insertAtom(atom, contentKey, Date.now());
+    this.record(() => this.removeAtom(atom.id));
+
+    return atom.id;
+  }
+
+  private insertAtom(atom: Atom, contentKey: string | undefined, createdAt: number, notify = true): void {
     this.atoms.set(atom.id, atom);
+    this.createdAt.set(atom.id, createdAt);
+
+    // Update content index
+    if (contentKey) {
+      this.contentIndex.set(contentKey, atom.id);
+    }
 
     // Update type index
     if (!this.typeIndex.has(atom.type)) {
@@ -45,6 +133,7 @@ export class AtomSpace {
     }
 
     this.typeIndex.get(atom.type)!.add(atom.id);
+    this.updateFocus(atom);
 
     // Update name index
     if (atom.name) {
@@ -55,7 +144,20 @@ export class AtomSpace {
       this.nameIndex.get(atom.name)!.add(atom.id);
     }
 
-    return atom.id;
+    // Update incoming index
+    if ('outgoing' in atom) {
+      for (const outgoingAtom of (atom as Link).outgoing) {
+        if (!this.incomingIndex.has(outgoingAtom.id)) {
+          this.incomingIndex.set(outgoingAtom.id, new Set());
+        }
+
+        this.incomingIndex.get(outgoingAtom.id)!.add(atom.id);
+      }
+    }
+
+    if (notify) {
+      this.emit('atom-added', { atom });
+    }
   }
 
   /**
@@ -70,9 +172,7 @@ export class AtomSpace {
       confidence: truthValue?.confidence || 1.0,
     };
 
-    this.addAtom(node);
-
-    return node;
+    return this.getAtom(this.addAtom(node)) as Node;
   }
 
   /**
@@ -87,26 +187,56 @@ export class AtomSpace {
       confidence: truthValue?.confidence || 1.0,
     };
 
-    this.addAtom(link);
+    return this.getAtom(this.addAtom(link)) as Link;
+  }
+
+  /**
+   * Look up the stored node with the given type and name
+   */
+  getNode(type: AtomType, name: string): Node | undefined {
+    return this.lookupContent(this.getContentKey({ id: '', type, name })!) as Node | undefined;
+  }
 
-    return link;
+  /**
+   * Look up the stored link with the given type and outgoing set
+   */
+  getLink(type: AtomType, outgoing: Atom[]): Link | undefined {
+    return this.lookupContent(this.getContentKey({ id: '', type, outgoing } as Link)!) as Link | undefined;
   }
 
   /**
    * Get atom by ID
    */
   getAtom(id: string): Atom | undefined {
-    return this.atoms.get(id);
+    return this.atoms.get(id) ?? (this.hidden.has(id) ? undefined : this.parent?.getAtom(id));
   }
 
   /**
    * Get atoms by type
    */
-  getAtomsByType(type: AtomType): Atom[] {
-    const ids = this.typeIndex.get(type) || new Set();
-    return Array.from(ids)
-      .map((id) => this.atoms.get(id)!)
-      .filter(Boolean);
+  getAtomsByType(type: AtomType, options: AtomTypeQueryOptions = {}): Atom[] {
+    const types = options.includeSubtypes ? this.typeRegistry.getSubtypes(type) : [type];
+    const local = types.flatMap((atomType) =>
+      Array.from(this.typeIndex.get(atomType) || [])
+        .map((id) => this.atoms.get(id)!)
+        .filter(Boolean),
+    );
+
+    return this.withInherited(local, (parent) => parent.getAtomsByType(type, options));
+  }
+
+  /**
+   * Check an atom against the type registry without adding it
+   */
+  validateAtom(atom: Atom): AtomValidationIssue[] {
+    return this.typeRegistry.validateAtom(atom);
+  }
+
+  /**
+   * Get the type hierarchy used for subtype queries and validation
+   */
+  getTypeRegistry(): AtomTypeRegistry {
+    return this.typeRegistry;
   }
 
   /**
@@ -114,21 +244,63 @@ export class AtomSpace {
    */
   getAtomsByName(name: string): Atom[] {
     const ids = this.nameIndex.get(name) || new Set();
-    return Array.from(ids)
+    const local = Array.from(ids)
       .map((id) => this.atoms.get(id)!)
       .filter(Boolean);
+
+    return this.withInherited(local, (parent) => parent.getAtomsByName(name));
+  }
+
+  /**
+   * Get the links whose outgoing set contains the atom
+   */
+  getIncoming(id: string): Link[] {
+    const ids = this.incomingIndex.get(id) || new Set();
+    const local = Array.from(ids)
+      .map((linkId) => this.atoms.get(linkId) as Link)
+      .filter(Boolean);
+
+    return this.withInherited(local, (parent) => parent.getIncoming(id));
+  }
+
+  /**
+   * Get the links of a given type whose outgoing set contains the atom
+   */
+  getIncomingByType(id: string, type: AtomType): Link[] {
+    return this.getIncoming(id).filter((link) => link.type === type);
   }
 
   /**
    * Remove atom from AtomSpace
    */
   removeAtom(id: string): boolean {
-    const atom = this.atoms.get(id);
+    const atom = this.getAtom(id);
 
     if (!atom) {
       return false;
     }
 
+    // Remove incoming links
+    this.removeIncomingLinks(id);
+
+    if (this.atoms.has(id)) {
+      this.deleteAtom(atom);
+    }
+
+    // parent atoms are hidden from this layer rather than removed
+    if (this.parent?.getAtom(id)) {
+      this.hidden.add(id);
+      this.record(() => this.hidden.delete(id));
+    }
+
+    this.emit('atom-removed', { atom });
+
+    return true;
+  }
+
+  private deleteAtom(atom: Atom): void {
+    const id = atom.id;
+
     // Remove from indices
     this.typeIndex.get(atom.type)?.delete(id);
 
@@ -136,52 +308,283 @@ export class AtomSpace {
       this.nameIndex.get(atom.name)?.delete(id);
     }
 
-    // Remove incoming links
-    this.removeIncomingLinks(id);
+    if ('outgoing' in atom) {
+      for (const outgoingAtom of (atom as Link).outgoing) {
+        this.incomingIndex.get(outgoingAtom.id)?.delete(id);
+      }
+    }
 
+    const contentKey = this.getContentKey(atom);
+
+    if (contentKey && this.contentIndex.get(contentKey) === id) {
+      this.contentIndex.delete(contentKey);
+    }
+
+    const createdAt = this.createdAt.get(id)!;
+
+    this.incomingIndex.delete(id);
+    this.createdAt.delete(id);
+    this.focus.delete(id);
     this.atoms.delete(id);
 
+    this.record(() => this.insertAtom(atom, contentKey, createdAt));
+  }
+
+  /**
+   * Replace the truth value of a stored atom
+   */
+  setTruthValue(id: string, truthValue: TruthValue): boolean {
+    const atom = this.getAtom(id);
+
+    if (!atom) {
+      return false;
+    }
+
+    this.updateTruthValue(this.ensureLocal(atom), truthValue);
+
     return true;
   }
 
   /**
-   * Find atoms matching a pattern
+   * Replace the attention value of a stored atom
    */
-  findAtoms(pattern: Partial<Atom>): Atom[] {
-    let candidates = Array.from(this.atoms.values());
+  setAttentionValue(id: string, attentionValue: AttentionValue): boolean {
+    const atom = this.getAtom(id);
+
+    if (!atom) {
+      return false;
+    }
+
+    this.updateAttentionValue(this.ensureLocal(atom), attentionValue);
+
+    return true;
+  }
+
+  /**
+   * Replace how keyword Scheme writes a stored atom, undefined restores the default spelling
+   */
+  setNotation(id: string, notation: SchemeNotation | undefined): boolean {
+    const atom = this.getAtom(id);
+
+    if (!atom) {
+      return false;
+    }
 
-    if (pattern.type) {
-      candidates = this.getAtomsByType(pattern.type);
+    // notations are plain data, an equal one needs neither a copy nor an event
+    if (JSON.stringify(atom.notation) !== JSON.stringify(notation)) {
+      this.updateNotation(this.ensureLocal(atom), notation);
     }
 
+    return true;
+  }
+
+  /**
+   * Get the attention value of an atom, atoms without one have no importance
+   */
+  getAttentionValue(id: string): AttentionValue {
+    const attentionValue = this.getAtom(id)?.attentionValue;
+    return attentionValue ? { ...attentionValue } : { sti: 0, lti: 0, vlti: false };
+  }
+
+  /**
+   * Get the atoms with STI at or above the focus boundary, most important first and capped at
+   * the focus size
+   */
+  getAttentionalFocus(): Atom[] {
+    const local = Array.from(this.focus, (id) => this.atoms.get(id)!);
+
+    return this.withInherited(local, (parent) => parent.getAttentionalFocus())
+      .filter((atom) => this.isInFocus(atom))
+      .sort((a, b) => b.attentionValue!.sti - a.attentionValue!.sti)
+      .slice(0, this.config.attentionalFocusSize);
+  }
+
+  /**
+   * Subscribe to AtomSpace changes, returns a function that removes the listener
+   */
+  on<K extends AtomSpaceEventType>(type: K, listener: AtomSpaceListener<K>): () => void {
+    // narrowed to K, as writes to a mapped type through a generic key do not type-check
+    const listeners: { [T in K]?: Set<AtomSpaceListener<T>> } = this.listeners;
+
+    (listeners[type] ??= new Set()).add(listener);
+
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * Remove a listener registered with on()
+   */
+  off<K extends AtomSpaceEventType>(type: K, listener: AtomSpaceListener<K>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  /**
+   * Run a batch of mutations atomically
+   *
+   * If the callback throws, every atom, index entry, truth value and tensor fragment change it
+   * made is rolled back before the error is rethrown. Nested transactions roll back with the
+   * outermost one.
+   */
+  transaction<T>(fn: (atomSpace: AtomSpace) => T): T {
+    const outer = this.journal;
+    const journal: Array<() => void> = [];
+
+    this.journal = journal;
+
+    try {
+      const result = fn(this);
+
+      this.journal = outer;
+      outer?.push(...journal);
+
+      return result;
+    } catch (error) {
+      // undo operations must not be journaled themselves
+      this.journal = null;
+
+      for (let i = journal.length - 1; i >= 0; i--) {
+        journal[i]();
+      }
+
+      this.journal = outer;
+
+      throw error;
+    }
+  }
+
+  /**
+   * Write the changes of this overlay into its parent and reset the overlay
+   *
+   * Atoms removed in this layer are removed from the parent, local atoms are added (interned
+   * against the parent's content) and truth and attention values of shadowed parent atoms are
+   * copied back.
+   */
+  commitToParent(): void {
+    const parent = this.parent;
+
+    if (!parent) {
+      throw new Error('AtomSpace has no parent to commit to');
+    }
+
+    parent.transaction(() => {
+      this.hidden.forEach((id) => parent.removeAtom(id));
+
+      const committedIds = new Map<string, string>();
+      const resolve = (atom: Atom) => parent.getAtom(committedIds.get(atom.id) ?? atom.id) ?? atom;
+
+      for (const atom of this.atoms.values()) {
+        const inherited = parent.getAtom(atom.id);
+
+        if (inherited) {
+          if (atom.truthValue) {
+            parent.setTruthValue(atom.id, atom.truthValue);
+          }
+
+          if (atom.attentionValue) {
+            parent.setAttentionValue(atom.id, atom.attentionValue);
+          }
+
+          parent.setNotation(atom.id, atom.notation);
+
+          continue;
+        }
+
+        const committed: Atom =
+          'outgoing' in atom ? ({ ...atom, outgoing: (atom as Link).outgoing.map(resolve) } as Link) : { ...atom };
+        const committedId = parent.addAtom(committed);
+
+        // an atom interned against existing parent content keeps the attention it gained here
+        if (atom.attentionValue) {
+          parent.setAttentionValue(committedId, atom.attentionValue);
+        }
+
+        if (atom.notation) {
+          parent.setNotation(committedId, atom.notation);
+        }
+
+        committedIds.set(atom.id, committedId);
+      }
+
+      this.hiddenTensorFragments.forEach((id) => parent.removeTensorFragment(id));
+      this.tensorFragments.forEach((fragment) => parent.storeTensorFragment(fragment));
+    });
+
+    this.discard();
+  }
+
+  /**
+   * Drop every change made in this overlay
+   */
+  discard(): void {
+    this.clear();
+    this.hidden.clear();
+    this.hiddenTensorFragments.clear();
+  }
+
+  /**
+   * Find atoms matching a pattern
+   */
+  findAtoms(pattern: Partial<Atom>): Atom[] {
+    const candidates = pattern.type ? this.getAtomsByType(pattern.type) : this.getAllAtoms();
+
     return candidates.filter((atom) => this.matchesPattern(atom, pattern));
   }
 
+  /**
+   * Query the hypergraph with a pattern containing VariableNodes
+   *
+   * The groundings and bindings of the matches are reported as used together.
+   */
+  query(pattern: Atom, options: PatternMatchOptions = {}): PatternMatch[] {
+    const matches = this.patternMatcher.match(pattern, options);
+
+    this.reportUsage(
+      matches.flatMap((match) => [match.grounding, ...Object.values(match.bindings)]),
+      'query',
+    );
+
+    return matches;
+  }
+
+  /**
+   * Tell atoms-used listeners, such as a HebbianLearner, that atoms were used together
+   */
+  reportUsage(atoms: Atom[], source: AtomUsageSource): void {
+    if (atoms.length > 1) {
+      this.emit('atoms-used', { atoms, source });
+    }
+  }
+
   /**
    * Get all atoms in the AtomSpace
    */
   getAllAtoms(): Atom[] {
-    return Array.from(this.atoms.values());
+    return this.withInherited(Array.from(this.atoms.values()), (parent) => parent.getAllAtoms());
   }
 
   /**
    * Get AtomSpace statistics
+   *
+   * Counts cover every visible atom and tensor fragment, including those inherited from a
+   * parent; localAtoms and indexSize describe this layer only.
    */
   getStats() {
+    const atoms = this.getAllAtoms();
+    const fragments = this.getAllTensorFragments();
     const typeStats = new Map<AtomType, number>();
 
-    for (const [type, ids] of this.typeIndex) {
-      typeStats.set(type, ids.size);
+    for (const atom of atoms) {
+      typeStats.set(atom.type, (typeStats.get(atom.type) || 0) + 1);
     }
 
     // Calculate tensor fragment statistics
     const tensorStats = {
-      totalFragments: this.tensorFragments.size,
+      totalFragments: fragments.length,
       totalTensorMemory: 0,
       shapeDistribution: new Map<string, number>(),
     };
 
-    for (const fragment of this.tensorFragments.values()) {
+    for (const fragment of fragments) {
       tensorStats.totalTensorMemory += fragment.data.byteLength;
 
       const shapeKey = `${fragment.shape.modality}x${fragment.shape.depth}x${fragment.shape.context}x${fragment.shape.salience}x${fragment.shape.autonomy_index}`;
@@ -189,12 +592,14 @@ export class AtomSpace {
     }
 
     return {
-      totalAtoms: this.atoms.size,
+      totalAtoms: atoms.length,
+      localAtoms: this.atoms.size,
       typeDistribution: Object.fromEntries(typeStats),
-      memoryUsage: this.estimateMemoryUsage(),
+      memoryUsage: this.estimateMemoryUsage(atoms, fragments),
       indexSize: {
         types: this.typeIndex.size,
         names: this.nameIndex.size,
+        incoming: this.incomingIndex.size,
       },
       tensorFragments: {
         count: tensorStats.totalFragments,
@@ -208,10 +613,184 @@ export class AtomSpace {
    * Clear all atoms
    */
   clear(): void {
+    const removed = this.listeners['atom-removed']?.size || this.journal ? Array.from(this.atoms.values()) : [];
+
+    if (this.journal) {
+      const createdAt = new Map(this.createdAt);
+      const fragments = Array.from(this.tensorFragments.values());
+
+      this.record(() => {
+        removed.forEach((atom) => this.insertAtom(atom, this.getContentKey(atom), createdAt.get(atom.id)!));
+        fragments.forEach((fragment) => this.tensorFragments.set(fragment.id, fragment));
+      });
+    }
+
     this.atoms.clear();
     this.typeIndex.clear();
     this.nameIndex.clear();
+    this.incomingIndex.clear();
+    this.contentIndex.clear();
+    this.createdAt.clear();
+    this.focus.clear();
     this.tensorFragments.clear();
+
+    removed.forEach((atom) => this.emit('atom-removed', { atom }));
+  }
+
+  /**
+   * Evict atoms that are not referenced by any live link
+   *
+   * Atoms whose strength is below truthValueThreshold are always evicted; if the AtomSpace is
+   * still larger than the target size, the lowest scoring atoms (by confidence, attention and
+   * age) go next. Evicting a link can free the atoms it referenced for the following round.
+   * Atoms with very long-term importance are never evicted.
+   */
+  garbageCollect(options: GarbageCollectionOptions = {}): GarbageCollectionResult {
+    const dryRun = options.dryRun ?? false;
+    const targetSize = options.targetSize ?? Math.floor(this.config.maxAtoms * (1 - this.config.gcEvictionRatio));
+    const evicted = new Map<string, Atom>();
+    const now = Date.now();
+    let oldest = now;
+
+    for (const created of this.createdAt.values()) {
+      oldest = Math.min(oldest, created);
+    }
+
+    // an overlay only collects atoms it owns, never copies of its parent's atoms
+    const owned = Array.from(this.atoms.values()).filter((atom) => !this.parent?.getAtom(atom.id));
+    const attention = this.config.attentionProvider ?? this.createStiAttentionProvider(owned);
+
+    const isReferenced = (id: string) =>
+      Array.from(this.incomingIndex.get(id) || []).some((linkId) => !evicted.has(linkId));
+
+    let round: Atom[];
+
+    do {
+      const candidates = owned.filter(
+        (atom) => !evicted.has(atom.id) && !isReferenced(atom.id) && !atom.attentionValue?.vlti,
+      );
+      const isWeak = (atom: Atom) => !!atom.truthValue && atom.truthValue.strength < this.config.truthValueThreshold;
+      const weak = candidates.filter(isWeak);
+      const excess = this.atoms.size - evicted.size - weak.length - targetSize;
+      const lowScoring =
+        excess > 0
+          ? candidates
+              .filter((atom) => !isWeak(atom))
+              .sort(
+                (a, b) =>
+                  this.getRetentionScore(a, attention, oldest, now) - this.getRetentionScore(b, attention, oldest, now),
+              )
+              .slice(0, excess)
+          : [];
+
+      round = [...weak, ...lowScoring];
+      round.forEach((atom) => evicted.set(atom.id, atom));
+    } while (round.length > 0);
+
+    const protectedCount = owned.filter((atom) => !evicted.has(atom.id) && isReferenced(atom.id)).length;
+
+    if (!dryRun && evicted.size > 0) {
+      evicted.forEach((_atom, id) => this.removeAtom(id));
+      this.config.onEvict?.(Array.from(evicted.values()));
+    }
+
+    return {
+      evicted: Array.from(evicted.values()),
+      protectedCount,
+      dryRun,
+    };
+  }
+
+  // Snapshot Operations
+
+  /**
+   * Export every atom and tensor fragment visible in this AtomSpace
+   *
+   * Links reference their outgoing atoms by ID and are listed after them, so the snapshot is
+   * plain JSON and can be imported without resolving forward references.
+   */
+  exportSnapshot(): AtomSpaceSnapshot {
+    return createSnapshot(this.getAllAtoms(), this.getAllTensorFragments(), (fragment) => {
+      const result = this.tensorProcessor.serializeTensorFragment(fragment);
+
+      if (!result.success) {
+        throw new Error(`Failed to serialize tensor fragment ${fragment.id}: ${result.error}`);
+      }
+
+      return result.result!;
+    });
+  }
+
+  /**
+   * Import a snapshot, returning the IDs of the imported atoms
+   *
+   * Atoms that already exist by ID or content are merged like any other re-added atom, and
+   * links are rewired to the stored IDs. Links may also reference atoms that are only present
+   * in this AtomSpace, which allows loading a space incrementally. The import is atomic: a
+   * malformed snapshot leaves the AtomSpace unchanged.
+   */
+  importSnapshot(snapshot: AtomSpaceSnapshot, options: SnapshotImportOptions = {}): string[] {
+    validateSnapshot(snapshot);
+
+    return this.transaction(() => {
+      if (options.replace) {
+        this.clear();
+      }
+
+      const idMap = new Map<string, string>();
+
+      for (const serialized of snapshot.atoms) {
+        const { outgoing, ...fields } = serialized;
+        const atom: Atom = { ...fields };
+
+        if (outgoing) {
+          (atom as Link).outgoing = outgoing.map((id) => {
+            const target = this.getAtom(idMap.get(id) ?? id);
+
+            if (!target) {
+              throw new Error(`Link ${serialized.id} references unknown atom ${id}`);
+            }
+
+            return target;
+          });
+        }
+
+        const id = this.addAtom(atom);
+
+        // atoms merged into existing ones take the imported spelling, like a re-parsed source would
+        if (atom.notation) {
+          this.setNotation(id, atom.notation);
+        }
+
+        idMap.set(serialized.id, id);
+      }
+
+      for (const { id, ...serialized } of snapshot.tensorFragments) {
+        const result = this.tensorProcessor.deserializeTensorFragment(JSON.stringify(serialized));
+
+        if (!result.success || !result.result) {
+          throw new Error(`Failed to import tensor fragment ${id}: ${result.error}`);
+        }
+
+        this.storeTensorFragment({ ...result.result, id });
+      }
+
+      return Array.from(idMap.values());
+    });
+  }
+
+  /**
+   * Export a snapshot in the compact binary format
+   */
+  exportBinarySnapshot(): Uint8Array {
+    return encodeBinarySnapshot(this.exportSnapshot());
+  }
+
+  /**
+   * Import a snapshot produced by exportBinarySnapshot
+   */
+  importBinarySnapshot(data: Uint8Array, options: SnapshotImportOptions = {}): string[] {
+    return this.importSnapshot(decodeBinarySnapshot(data), options);
   }
 
   // Tensor Fragment Operations (Phase 1.2)
@@ -223,7 +802,7 @@ export class AtomSpace {
     const result = this.tensorProcessor.createTensorFragment(shape, data);
 
     if (result.success && result.result) {
-      this.tensorFragments.set(result.result.id, result.result);
+      this.storeTensorFragment(result.result);
       return result.result;
     }
 
@@ -234,37 +813,57 @@ export class AtomSpace {
    * Get tensor fragment by ID
    */
   getTensorFragment(id: string): TensorFragment | undefined {
-    return this.tensorFragments.get(id);
+    return (
+      this.tensorFragments.get(id) ??
+      (this.hiddenTensorFragments.has(id) ? undefined : this.parent?.getTensorFragment(id))
+    );
   }
 
   /**
    * Get all tensor fragments
    */
   getAllTensorFragments(): TensorFragment[] {
-    return Array.from(this.tensorFragments.values());
+    const inherited = this.parent
+      ?.getAllTensorFragments()
+      .filter((fragment) => !this.tensorFragments.has(fragment.id) && !this.hiddenTensorFragments.has(fragment.id));
+    return [...(inherited || []), ...this.tensorFragments.values()];
   }
 
   /**
    * Find tensor fragments matching a shape pattern
    */
   findTensorFragmentsByShape(shapePattern: Partial<TensorShape>): TensorFragment[] {
-    return Array.from(this.tensorFragments.values()).filter((fragment) =>
-      this.matchesTensorShape(fragment.shape, shapePattern),
-    );
+    return this.getAllTensorFragments().filter((fragment) => this.matchesTensorShape(fragment.shape, shapePattern));
   }
 
   /**
    * Remove tensor fragment from AtomSpace
    */
   removeTensorFragment(id: string): boolean {
-    return this.tensorFragments.delete(id);
+    const fragment = this.getTensorFragment(id);
+
+    if (!fragment) {
+      return false;
+    }
+
+    if (this.tensorFragments.delete(id)) {
+      this.record(() => this.tensorFragments.set(id, fragment));
+    }
+
+    // parent fragments are hidden from this layer rather than removed
+    if (this.parent?.getTensorFragment(id)) {
+      this.hiddenTensorFragments.add(id);
+      this.record(() => this.hiddenTensorFragments.delete(id));
+    }
+
+    return true;
   }
 
   /**
    * Serialize tensor fragment to string
    */
   serializeTensorFragment(id: string): string | null {
-    const fragment = this.tensorFragments.get(id);
+    const fragment = this.getTensorFragment(id);
 
     if (!fragment) {
       return null;
@@ -282,17 +881,177 @@ export class AtomSpace {
     const result = this.tensorProcessor.deserializeTensorFragment(serializedData);
 
     if (result.success && result.result) {
-      this.tensorFragments.set(result.result.id, result.result);
+      this.storeTensorFragment(result.result);
       return result.result;
     }
 
     return null;
   }
 
+  private storeTensorFragment(fragment: TensorFragment): void {
+    this.tensorFragments.set(fragment.id, fragment);
+    this.record(() => this.tensorFragments.delete(fragment.id));
+    this.emit('tensor-added', { fragment });
+  }
+
+  private lookupContent(contentKey: string): Atom | undefined {
+    const id = this.contentIndex.get(contentKey);
+
+    if (id) {
+      return this.atoms.get(id);
+    }
+
+    const inherited = this.parent?.lookupContent(contentKey);
+
+    return inherited && !this.hidden.has(inherited.id) ? inherited : undefined;
+  }
+
+  /**
+   * Return the atom of this layer, copying an inherited atom into it first (copy-on-write)
+   */
+  private ensureLocal(atom: Atom): Atom {
+    if (this.atoms.has(atom.id)) {
+      return atom;
+    }
+
+    const copy = { ...atom };
+
+    this.insertAtom(copy, this.getContentKey(copy), Date.now(), false);
+    this.record(() => this.deleteAtom(copy));
+
+    return copy;
+  }
+
+  /**
+   * Merge atoms inherited from the parent with those of this layer, local copies taking precedence
+   */
+  private withInherited<T extends Atom>(local: T[], inherited: (parent: AtomSpace) => T[]): T[] {
+    if (!this.parent) {
+      return local;
+    }
+
+    const localById = new Map(local.map((atom) => [atom.id, atom]));
+    const merged = inherited(this.parent)
+      .filter((atom) => !this.hidden.has(atom.id))
+      .map((atom) => localById.get(atom.id) ?? atom);
+    const mergedIds = new Set(merged.map((atom) => atom.id));
+
+    return [...merged, ...local.filter((atom) => !mergedIds.has(atom.id))];
+  }
+
+  private record(undo: () => void): void {
+    this.journal?.push(undo);
+  }
+
+  private emit<K extends AtomSpaceEventType>(type: K, payload: AtomSpaceEventMap[K]): void {
+    this.listeners[type]?.forEach((listener) => listener(payload));
+  }
+
   private generateId(): string {
     return `atom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  private getContentKey(atom: Atom): string | undefined {
+    if ('outgoing' in atom) {
+      return `${atom.type}(${(atom as Link).outgoing.map((outgoingAtom) => outgoingAtom.id).join(',')})`;
+    }
+
+    // anonymous nodes have no content to intern by
+    return atom.name !== undefined ? `${atom.type}:${atom.name}` : undefined;
+  }
+
+  private mergeTruthValue(atom: Atom, truthValue?: TruthValue): void {
+    if (!truthValue) {
+      return;
+    }
+
+    this.updateTruthValue(
+      atom,
+      atom.truthValue ? mergeTruthValues(atom.truthValue, truthValue, this.config.truthValueMergePolicy) : truthValue,
+    );
+  }
+
+  private updateTruthValue(atom: Atom, truthValue: TruthValue): void {
+    const previous = atom.truthValue;
+    const previousConfidence = atom.confidence;
+
+    atom.truthValue = { ...truthValue };
+    atom.confidence = truthValue.confidence;
+
+    this.record(() => {
+      atom.truthValue = previous;
+      atom.confidence = previousConfidence;
+
+      if (previous) {
+        this.emit('tv-changed', { atom, previous: truthValue, current: previous });
+      }
+    });
+
+    if (previous?.strength !== truthValue.strength || previous?.confidence !== truthValue.confidence) {
+      this.emit('tv-changed', { atom, previous, current: atom.truthValue });
+    }
+  }
+
+  private updateAttentionValue(atom: Atom, attentionValue: AttentionValue): void {
+    const previous = atom.attentionValue;
+
+    atom.attentionValue = { ...attentionValue };
+    this.updateFocus(atom);
+
+    this.record(() => {
+      atom.attentionValue = previous;
+      this.updateFocus(atom);
+    });
+
+    if (
+      previous?.sti !== attentionValue.sti ||
+      previous?.lti !== attentionValue.lti ||
+      previous?.vlti !== attentionValue.vlti
+    ) {
+      this.emit('av-changed', { atom, previous, current: atom.attentionValue });
+    }
+  }
+
+  private updateNotation(atom: Atom, notation: SchemeNotation | undefined): void {
+    const previous = atom.notation;
+    const assign = (value: SchemeNotation | undefined) => {
+      if (value) {
+        atom.notation = value;
+      } else {
+        delete atom.notation;
+      }
+    };
+
+    assign(notation);
+
+    this.record(() => {
+      assign(previous);
+      this.emit('notation-changed', { atom, previous: notation, current: previous });
+    });
+
+    this.emit('notation-changed', { atom, previous, current: notation });
+  }
+
+  private updateFocus(atom: Atom): void {
+    if (this.isInFocus(atom)) {
+      this.focus.add(atom.id);
+    } else {
+      this.focus.delete(atom.id);
+    }
+  }
+
+  private isInFocus(atom: Atom): boolean {
+    return !!atom.attentionValue && atom.attentionValue.sti >= this.config.attentionalFocusBoundary;
+  }
+
+  /**
+   * Scale the STI of every atom into [0, 1] relative to the most important atom
+   */
+  private createStiAttentionProvider(atoms: Atom[]): (atom: Atom) => number {
+    const maxSti = atoms.reduce((max, atom) => Math.max(max, atom.attentionValue?.sti ?? 0), 0);
+    return (atom) => (maxSti > 0 ? Math.max(atom.attentionValue?.sti ?? 0, 0) / maxSti : 0);
+  }
+
   private matchesPattern(atom: Atom, pattern: Partial<Atom>): boolean {
     if (pattern.type && atom.type !== pattern.type) {
       return false;
@@ -320,44 +1079,36 @@ export class AtomSpace {
   }
 
   private removeIncomingLinks(targetId: string): void {
-    const linksToRemove: string[] = [];
-
-    for (const atom of this.atoms.values()) {
-      if ('outgoing' in atom) {
-        const link = atom as Link;
-
-        if (link.outgoing.some((outgoingAtom) => outgoingAtom.id === targetId)) {
-          linksToRemove.push(link.id);
-        }
-      }
-    }
+    const linksToRemove = this.getIncoming(targetId).map((link) => link.id);
 
     linksToRemove.forEach((id) => this.removeAtom(id));
   }
 
-  private garbageCollect(): void {
-    // Simple garbage collection: remove atoms with low truth values
-    const atomsToRemove: string[] = [];
-
-    for (const atom of this.atoms.values()) {
-      if (atom.truthValue && atom.truthValue.strength < this.config.truthValueThreshold) {
-        atomsToRemove.push(atom.id);
-      }
-    }
-
-    atomsToRemove.forEach((id) => this.removeAtom(id));
+  private getRetentionScore(
+    atom: Atom,
+    attentionProvider: (atom: Atom) => number,
+    oldest: number,
+    now: number,
+  ): number {
+    const weights = this.config.gcWeights;
+    const confidence = atom.truthValue?.confidence ?? atom.confidence ?? 0;
+    const attention = attentionProvider(atom);
+    const created = this.createdAt.get(atom.id) ?? now;
+    const recency = now > oldest ? (created - oldest) / (now - oldest) : 1;
+
+    return weights.confidence * confidence + weights.attention * attention + weights.age * recency;
   }
 
-  private estimateMemoryUsage(): number {
+  private estimateMemoryUsage(atoms: Atom[], fragments: TensorFragment[]): number {
     // Rough estimate of memory usage in bytes
     let totalSize = 0;
 
-    for (const atom of this.atoms.values()) {
+    for (const atom of atoms) {
       totalSize += JSON.stringify(atom).length * 2; // UTF-16 characters
     }
 
     // Add tensor fragment memory usage
-    for (const fragment of this.tensorFragments.values()) {
+    for (const fragment of fragments) {
       totalSize += fragment.data.byteLength;
       totalSize += JSON.stringify(fragment.shape).length * 2;
       totalSize += fragment.primeFactors.length * 4; // Assuming 4 bytes per number
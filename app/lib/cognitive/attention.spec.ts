@@ -0,0 +1,206 @@
+/**
+ * Tests for economic attention allocation
+ * Covers wages, importance spreading, rent and the tick loop with deterministic inputs
+ */
+
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { AttentionAllocator } from './attention';
+import { AtomSpace } from './atomspace';
+import { AtomType } from './types';
+import type { Atom, Link } from './types';
+
+describe('AttentionAllocator', () => {
+  let atomSpace: AtomSpace;
+  let cat: Atom;
+  let animal: Atom;
+  let link: Link;
+
+  const sti = (atom: Atom) => atomSpace.getAttentionValue(atom.id).sti;
+  const lti = (atom: Atom) => atomSpace.getAttentionValue(atom.id).lti;
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace({ attentionalFocusBoundary: 10 });
+    cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    link = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+  });
+
+  describe('Wages', () => {
+    it('should pay wages for stimulus from the funds', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0, stiRent: 0, ltiRent: 0 });
+
+      allocator.stimulate(cat.id, 2);
+      allocator.stimulate(cat.id);
+
+      const result = allocator.tick();
+
+      expect(sti(cat)).toBe(30);
+      expect(lti(cat)).toBe(30);
+      expect(result.wages).toBe(30);
+      expect(allocator.getFunds()).toEqual({ sti: 9970, lti: 9970 });
+    });
+
+    it('should only pay stimulus once', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0, stiRent: 0, ltiRent: 0 });
+
+      allocator.stimulate(cat.id);
+      allocator.tick();
+      allocator.tick();
+
+      expect(sti(cat)).toBe(10);
+    });
+
+    it('should not pay more than the funds hold', () => {
+      const allocator = new AttentionAllocator(atomSpace, {
+        targetStiFunds: 15,
+        diffusionRate: 0,
+        stiRent: 0,
+        ltiRent: 0,
+      });
+
+      allocator.stimulate(cat.id);
+      allocator.stimulate(animal.id);
+      allocator.tick();
+
+      expect(sti(cat)).toBe(10);
+      expect(sti(animal)).toBe(5);
+      expect(allocator.getFunds().sti).toBe(0);
+    });
+
+    it('should ignore stimulus for unknown atoms', () => {
+      const allocator = new AttentionAllocator(atomSpace);
+
+      expect(allocator.stimulate('missing')).toBe(false);
+    });
+  });
+
+  describe('Importance spreading', () => {
+    it('should spread STI from the focus to neighbouring atoms', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0.5, stiRent: 0, ltiRent: 0 });
+
+      atomSpace.setAttentionValue(link.id, { sti: 40, lti: 0, vlti: false });
+
+      const result = allocator.tick();
+
+      expect(sti(link)).toBe(20);
+      expect(sti(cat)).toBe(10);
+      expect(sti(animal)).toBe(10);
+      expect(result.spread).toBe(20);
+    });
+
+    it('should spread along Hebbian links to the associated atom in proportion to their strength', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0.5, stiRent: 0, ltiRent: 0 });
+      const dog = atomSpace.createNode(AtomType.CONCEPT_NODE, 'dog');
+      const fish = atomSpace.createNode(AtomType.CONCEPT_NODE, 'fish');
+
+      atomSpace.createLink(AtomType.HEBBIAN_LINK, [cat, dog], { strength: 0.75, confidence: 0.5 });
+      atomSpace.createLink(AtomType.HEBBIAN_LINK, [cat, fish], { strength: 0.25, confidence: 0.5 });
+      atomSpace.setAttentionValue(cat.id, { sti: 40, lti: 0, vlti: false });
+
+      allocator.tick();
+
+      // 20 STI leaves cat: the inheritance link has weight 1, the associations 0.75 and 0.25
+      expect(sti(cat)).toBe(20);
+      expect(sti(link)).toBe(10);
+      expect(sti(dog)).toBe(7.5);
+      expect(sti(fish)).toBe(2.5);
+    });
+
+    it('should not spread from atoms outside the focus', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0.5, stiRent: 0, ltiRent: 0 });
+
+      atomSpace.setAttentionValue(link.id, { sti: 8, lti: 0, vlti: false });
+      allocator.tick();
+
+      expect(sti(link)).toBe(8);
+      expect(sti(cat)).toBe(0);
+    });
+
+    it('should conserve the total STI', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0.3, stiRent: 0, ltiRent: 0 });
+
+      atomSpace.setAttentionValue(cat.id, { sti: 50, lti: 0, vlti: false });
+      atomSpace.setAttentionValue(link.id, { sti: 20, lti: 0, vlti: false });
+
+      for (let i = 0; i < 5; i++) {
+        allocator.tick();
+      }
+
+      expect(sti(cat) + sti(animal) + sti(link)).toBeCloseTo(70, 10);
+    });
+  });
+
+  describe('Rent', () => {
+    it('should collect STI rent from the focus and LTI rent from every atom', () => {
+      const allocator = new AttentionAllocator(atomSpace, { diffusionRate: 0, stiRent: 2, ltiRent: 3 });
+
+      atomSpace.setAttentionValue(cat.id, { sti: 20, lti: 10, vlti: false });
+      atomSpace.setAttentionValue(animal.id, { sti: 5, lti: 1, vlti: false });
+
+      const result = allocator.tick();
+
+      expect(sti(cat)).toBe(18);
+      expect(sti(animal)).toBe(5);
+      expect(lti(cat)).toBe(7);
+      expect(lti(animal)).toBe(0);
+      expect(result.rent).toBe(2);
+      expect(allocator.getFunds()).toEqual({ sti: 10002, lti: 10004 });
+    });
+  });
+
+  describe('Tick loop', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should combine wages, spreading and rent in a tick', () => {
+      const allocator = new AttentionAllocator(atomSpace);
+
+      allocator.stimulate(cat.id, 2);
+
+      const result = allocator.tick();
+
+      // 20 STI in wages, 4 spread to the link, 1 rent
+      expect(sti(cat)).toBe(15);
+      expect(sti(link)).toBe(4);
+      expect(result).toMatchObject({ tick: 1, wages: 20, spread: 4, rent: 1, stiFunds: 9981, ltiFunds: 9981 });
+      expect(result.focus.map((atom) => atom.id)).toEqual([cat.id]);
+    });
+
+    it('should produce the same attention values for the same input', () => {
+      const run = () => {
+        const space = new AtomSpace({ attentionalFocusBoundary: 10 });
+        const nodes = ['a', 'b', 'c'].map((name) => space.createNode(AtomType.CONCEPT_NODE, name));
+
+        space.createLink(AtomType.SIMILARITY_LINK, [nodes[0], nodes[1]]);
+        space.createLink(AtomType.SIMILARITY_LINK, [nodes[1], nodes[2]]);
+
+        const allocator = new AttentionAllocator(space);
+
+        for (let i = 0; i < 10; i++) {
+          allocator.stimulate(nodes[i % 3].id, i);
+          allocator.tick();
+        }
+
+        return space.getAllAtoms().map((atom) => space.getAttentionValue(atom.id));
+      };
+
+      expect(run()).toEqual(run());
+    });
+
+    it('should tick on an interval until stopped', () => {
+      vi.useFakeTimers();
+
+      const ticks: number[] = [];
+      const allocator = new AttentionAllocator(atomSpace, { tickInterval: 100 });
+
+      allocator.start((result) => ticks.push(result.tick));
+      vi.advanceTimersByTime(350);
+      allocator.stop();
+      vi.advanceTimersByTime(500);
+
+      expect(ticks).toEqual([1, 2, 3]);
+      expect(allocator.isRunning()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Economic attention allocation (ECAN)
+ * Atoms earn short- and long-term importance as wages when stimulated, pay rent while they hold
+ * it and spread part of their importance to their neighbours; the bank's funds keep the total
+ * amount of importance bounded
+ */
+
+import type { Atom, AttentionAllocatorConfig, AttentionTickResult, AttentionValue, Link } from './types';
+import { AtomType } from './types';
+import type { AtomSpace } from './atomspace';
+
+/**
+ * An atom that importance spreads to, with its share relative to the other neighbours
+ */
+interface Neighbour {
+  atom: Atom;
+  weight: number;
+}
+
+export class AttentionAllocator {
+  private atomSpace: AtomSpace;
+  private config: AttentionAllocatorConfig;
+  private stiFunds: number;
+  private ltiFunds: number;
+  private stimuli: Map<string, number> = new Map();
+  private tickCount = 0;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(atomSpace: AtomSpace, config: Partial<AttentionAllocatorConfig> = {}) {
+    this.atomSpace = atomSpace;
+    this.config = {
+      targetStiFunds: 10000,
+      targetLtiFunds: 10000,
+      stiWage: 10,
+      ltiWage: 10,
+      stiRent: 1,
+      ltiRent: 1,
+      diffusionRate: 0.2,
+      tickInterval: 1000,
+      ...config,
+    };
+    this.stiFunds = this.config.targetStiFunds;
+    this.ltiFunds = this.config.targetLtiFunds;
+  }
+
+  /**
+   * Record stimulus for an atom, paid out as wages on the next tick
+   */
+  stimulate(id: string, stimulus = 1): boolean {
+    if (!this.atomSpace.getAtom(id)) {
+      return false;
+    }
+
+    this.stimuli.set(id, (this.stimuli.get(id) ?? 0) + stimulus);
+
+    return true;
+  }
+
+  getFunds(): { sti: number; lti: number } {
+    return { sti: this.stiFunds, lti: this.ltiFunds };
+  }
+
+  /**
+   * Run one allocation cycle: pay wages for the stimulus received since the last tick, spread
+   * importance from the attentional focus and collect rent
+   *
+   * A tick only depends on the AtomSpace and the stimulus it is given, so repeated runs over the
+   * same input produce the same attention values.
+   */
+  tick(): AttentionTickResult {
+    const wages = this.payWages();
+    const spread = this.spreadImportance();
+    const rent = this.collectRent();
+
+    return {
+      tick: ++this.tickCount,
+      wages,
+      rent,
+      spread,
+      stiFunds: this.stiFunds,
+      ltiFunds: this.ltiFunds,
+      focus: this.atomSpace.getAttentionalFocus(),
+    };
+  }
+
+  /**
+   * Tick every tickInterval milliseconds until stop() is called
+   */
+  start(onTick?: (result: AttentionTickResult) => void): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      const result = this.tick();
+      onTick?.(result);
+    }, this.config.tickInterval);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  private payWages(): number {
+    let paid = 0;
+
+    this.stimuli.forEach((stimulus, id) => {
+      // wages are paid from the funds, so the bank running dry stops importance from inflating
+      const sti = Math.min(stimulus * this.config.stiWage, Math.max(this.stiFunds, 0));
+      const lti = Math.min(stimulus * this.config.ltiWage, Math.max(this.ltiFunds, 0));
+
+      if (this.adjust(id, sti, lti)) {
+        this.stiFunds -= sti;
+        this.ltiFunds -= lti;
+        paid += sti;
+      }
+    });
+
+    this.stimuli.clear();
+
+    return paid;
+  }
+
+  /**
+   * Move a share of the STI of every atom in the focus to its neighbours, proportionally to
+   * their weights
+   */
+  private spreadImportance(): number {
+    const transfers = new Map<string, number>();
+    let spread = 0;
+
+    const transfer = (id: string, amount: number) => transfers.set(id, (transfers.get(id) ?? 0) + amount);
+
+    // transfers are computed from the attention values before spreading and applied afterwards
+    for (const atom of this.atomSpace.getAttentionalFocus()) {
+      const neighbours = this.getNeighbours(atom);
+      const totalWeight = neighbours.reduce((total, neighbour) => total + neighbour.weight, 0);
+
+      if (totalWeight <= 0) {
+        continue;
+      }
+
+      const amount = atom.attentionValue!.sti * this.config.diffusionRate;
+
+      transfer(atom.id, -amount);
+      neighbours.forEach((neighbour) => transfer(neighbour.atom.id, (amount * neighbour.weight) / totalWeight));
+      spread += amount;
+    }
+
+    transfers.forEach((amount, id) => this.adjust(id, amount, 0));
+
+    return spread;
+  }
+
+  /**
+   * Charge STI rent to the atoms in the focus and LTI rent to every atom holding LTI
+   */
+  private collectRent(): number {
+    let collected = 0;
+
+    for (const atom of this.atomSpace.getAttentionalFocus()) {
+      const rent = Math.min(this.config.stiRent, atom.attentionValue!.sti);
+
+      this.adjust(atom.id, -rent, 0);
+      this.stiFunds += rent;
+      collected += rent;
+    }
+
+    for (const atom of this.atomSpace.getAllAtoms()) {
+      const lti = atom.attentionValue?.lti ?? 0;
+
+      if (lti > 0) {
+        const rent = Math.min(this.config.ltiRent, lti);
+
+        this.adjust(atom.id, 0, -rent);
+        this.ltiFunds += rent;
+      }
+    }
+
+    return collected;
+  }
+
+  /**
+   * Atoms directly connected to an atom: the links pointing at it and, for a link, its outgoing
+   * atoms. HebbianLinks are skipped over, the associated atom is the neighbour instead and its
+   * share is the strength of the association.
+   */
+  private getNeighbours(atom: Atom): Neighbour[] {
+    const neighbours = new Map<string, Neighbour>();
+
+    const add = (neighbour: Atom, weight = 1) => {
+      if (neighbour.id !== atom.id) {
+        neighbours.set(neighbour.id, { atom: neighbour, weight: (neighbours.get(neighbour.id)?.weight ?? 0) + weight });
+      }
+    };
+
+    if ('outgoing' in atom) {
+      (atom as Link).outgoing.forEach((outgoingAtom) => add(outgoingAtom));
+    }
+
+    for (const link of this.atomSpace.getIncoming(atom.id)) {
+      if (link.type === AtomType.HEBBIAN_LINK) {
+        link.outgoing.forEach((associated) => add(associated, link.truthValue?.strength ?? 0));
+      } else {
+        add(link);
+      }
+    }
+
+    return Array.from(neighbours.values());
+  }
+
+  private adjust(id: string, sti: number, lti: number): boolean {
+    const current: AttentionValue = this.atomSpace.getAttentionValue(id);
+
+    return this.atomSpace.setAttentionValue(id, { ...current, sti: current.sti + sti, lti: current.lti + lti });
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Tests for Hebbian learning
+ * Covers link creation, reinforcement and decay from observed groups and the attentional focus
+ */
+
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { HebbianLearner } from './hebbian';
+import { AgenticTranslator } from './translators';
+import { AtomSpace } from './atomspace';
+import { countToConfidence } from './pln';
+import { AtomType } from './types';
+import type { Atom } from './types';
+
+describe('HebbianLearner', () => {
+  let atomSpace: AtomSpace;
+  let learner: HebbianLearner;
+  let coffee: Atom;
+  let morning: Atom;
+  let rain: Atom;
+
+  const hebbian = (a: Atom, b: Atom) => atomSpace.getLink(AtomType.HEBBIAN_LINK, a.id < b.id ? [a, b] : [b, a]);
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace({ attentionalFocusBoundary: 10 });
+    learner = new HebbianLearner(atomSpace, { learningRate: 0.2, confidenceLookahead: 10 });
+    coffee = atomSpace.createNode(AtomType.CONCEPT_NODE, 'coffee');
+    morning = atomSpace.createNode(AtomType.CONCEPT_NODE, 'morning');
+    rain = atomSpace.createNode(AtomType.CONCEPT_NODE, 'rain');
+  });
+
+  describe('Learning', () => {
+    it('should link atoms observed together', () => {
+      learner.observe([coffee, morning]);
+
+      const result = learner.tick();
+      const link = hebbian(coffee, morning)!;
+
+      expect(result.created).toEqual([link]);
+      expect(link.truthValue!.strength).toBe(1);
+      expect(link.truthValue!.confidence).toBeCloseTo(countToConfidence(1, 10));
+    });
+
+    it('should keep a single link per pair regardless of order', () => {
+      learner.observe([coffee, morning]);
+      learner.observe([morning.id, coffee.id]);
+      learner.tick();
+      learner.observe([morning, coffee]);
+      learner.tick();
+
+      expect(atomSpace.getAtomsByType(AtomType.HEBBIAN_LINK)).toHaveLength(1);
+    });
+
+    it('should weaken links of atoms that were active without each other', () => {
+      learner.observe([coffee, morning]);
+      learner.tick();
+      learner.observe([coffee, rain]);
+
+      const result = learner.tick();
+
+      expect(result.weakened.map((link) => link.id)).toEqual([hebbian(coffee, morning)!.id]);
+      expect(hebbian(coffee, morning)!.truthValue!.strength).toBeCloseTo(0.8);
+      expect(hebbian(coffee, rain)).toBeDefined();
+    });
+
+    it('should reinforce links towards full strength and gain confidence', () => {
+      learner.observe([coffee, morning]);
+      learner.tick();
+      learner.observe([coffee, rain]);
+      learner.tick();
+      learner.observe([coffee, morning]);
+
+      const result = learner.tick();
+      const link = hebbian(coffee, morning)!;
+
+      expect(result.reinforced.map((reinforced) => reinforced.id)).toEqual([link.id]);
+      expect(link.truthValue!.strength).toBeCloseTo(0.84);
+      expect(link.truthValue!.confidence).toBeCloseTo(countToConfidence(3, 10));
+    });
+
+    it('should leave links of inactive atoms alone', () => {
+      learner.observe([coffee, morning]);
+      learner.tick();
+
+      const result = learner.tick();
+
+      expect(result.weakened).toEqual([]);
+      expect(hebbian(coffee, morning)!.truthValue!.strength).toBe(1);
+    });
+
+    it('should let faded associations be garbage collected', () => {
+      learner.observe([coffee, morning]);
+      learner.tick();
+
+      for (let i = 0; i < 11; i++) {
+        learner.observe([coffee, rain]);
+        learner.tick();
+      }
+
+      atomSpace.garbageCollect();
+
+      expect(hebbian(coffee, morning)).toBeUndefined();
+      expect(hebbian(coffee, rain)).toBeDefined();
+    });
+  });
+
+  describe('Sources of co-occurrence', () => {
+    it('should treat the attentional focus as co-occurring', () => {
+      atomSpace.setAttentionValue(coffee.id, { sti: 20, lti: 0, vlti: false });
+      atomSpace.setAttentionValue(morning.id, { sti: 15, lti: 0, vlti: false });
+      atomSpace.setAttentionValue(rain.id, { sti: 5, lti: 0, vlti: false });
+
+      learner.tick();
+
+      expect(hebbian(coffee, morning)).toBeDefined();
+      expect(hebbian(coffee, rain)).toBeUndefined();
+    });
+
+    it('should ignore the attentional focus when disabled', () => {
+      learner = new HebbianLearner(atomSpace, { includeAttentionalFocus: false });
+      atomSpace.setAttentionValue(coffee.id, { sti: 20, lti: 0, vlti: false });
+      atomSpace.setAttentionValue(morning.id, { sti: 15, lti: 0, vlti: false });
+
+      expect(learner.tick().created).toEqual([]);
+    });
+
+    it('should link the atoms of query results', () => {
+      const drinks = atomSpace.createNode(AtomType.PREDICATE_NODE, 'drinks');
+      const person = atomSpace.createNode(AtomType.CONCEPT_NODE, 'alice');
+      atomSpace.createLink(AtomType.EVALUATION_LINK, [
+        drinks,
+        atomSpace.createLink(AtomType.LIST_LINK, [person, coffee]),
+      ]);
+
+      learner.observeMatches(
+        atomSpace.query({
+          id: 'query',
+          type: AtomType.EVALUATION_LINK,
+          outgoing: [
+            drinks,
+            {
+              id: 'args',
+              type: AtomType.LIST_LINK,
+              outgoing: [{ id: 'x', type: AtomType.VARIABLE_NODE, name: '$x' }, coffee],
+            } as Atom,
+          ],
+        } as Atom),
+      );
+      learner.tick();
+
+      expect(learner.getAssociations(person.id).map((association) => association.atom.type)).toEqual([
+        AtomType.EVALUATION_LINK,
+      ]);
+    });
+
+    it('should limit the number of atoms linked per group', () => {
+      learner = new HebbianLearner(atomSpace, { maxGroupSize: 2 });
+      learner.observe([coffee, morning, rain]);
+      learner.tick();
+
+      expect(atomSpace.getAtomsByType(AtomType.HEBBIAN_LINK)).toHaveLength(1);
+    });
+
+    it('should keep only the most recent groups between ticks', () => {
+      learner = new HebbianLearner(atomSpace, { includeAttentionalFocus: false, maxPendingGroups: 2 });
+      learner.observe([coffee, morning]);
+      learner.observe([coffee, rain]);
+      learner.observe([morning, rain]);
+
+      expect(learner.tick().created.map((link) => link.id)).toEqual([
+        hebbian(coffee, rain)!.id,
+        hebbian(morning, rain)!.id,
+      ]);
+      expect(hebbian(coffee, morning)).toBeUndefined();
+    });
+
+    it('should not link HebbianLinks themselves', () => {
+      learner.observe([coffee, morning]);
+      learner.tick();
+      learner.observe([hebbian(coffee, morning)!, rain]);
+
+      expect(learner.tick().created).toEqual([]);
+    });
+  });
+
+  describe('Usage events', () => {
+    const likesPattern = (object: Atom) =>
+      ({
+        id: 'query',
+        type: AtomType.EVALUATION_LINK,
+        outgoing: [
+          { id: 'p', type: AtomType.VARIABLE_NODE, name: '$p' },
+          { id: 'args', type: AtomType.LIST_LINK, outgoing: [object] } as Atom,
+        ],
+      }) as Atom;
+
+    it('should link the atoms of a query without being told', () => {
+      const likes = atomSpace.createNode(AtomType.PREDICATE_NODE, 'likes');
+      const evaluation = atomSpace.createLink(AtomType.EVALUATION_LINK, [
+        likes,
+        atomSpace.createLink(AtomType.LIST_LINK, [coffee]),
+      ]);
+
+      atomSpace.query(likesPattern(coffee));
+
+      expect(learner.tick().created).toHaveLength(1);
+      expect(hebbian(likes, evaluation)).toBeDefined();
+    });
+
+    it('should strengthen the links of atoms translated together again', () => {
+      const translator = new AgenticTranslator(atomSpace);
+      const primitive = { action: 'brew', parameters: { drink: 'coffee', time: 'morning' } };
+
+      const tickAfterTranslating = () => {
+        translator.agenticToHypergraph(primitive);
+        return learner.tick();
+      };
+
+      const { created } = tickAfterTranslating();
+      const { reinforced } = tickAfterTranslating();
+
+      expect(created.length).toBeGreaterThan(0);
+      expect(reinforced.map((link) => link.id).sort()).toEqual(created.map((link) => link.id).sort());
+      expect(reinforced[0].truthValue!.confidence).toBeGreaterThan(countToConfidence(1, 10));
+    });
+
+    it('should stop observing once disposed or when disabled', () => {
+      const quiet = new HebbianLearner(atomSpace, { observeUsage: false, includeAttentionalFocus: false });
+
+      learner.dispose();
+      atomSpace.reportUsage([coffee, morning], 'chat');
+
+      expect(learner.tick().created).toEqual([]);
+      expect(quiet.tick().created).toEqual([]);
+    });
+  });
+
+  describe('Associations', () => {
+    it('should list associated atoms by strength', () => {
+      learner.observe([coffee, morning]);
+      learner.tick();
+      learner.observe([coffee, rain]);
+      learner.tick();
+
+      const associations = learner.getAssociations(coffee.id);
+
+      expect(associations.map((association) => association.atom.name)).toEqual(['rain', 'morning']);
+      expect(associations.map((association) => association.strength)).toEqual([1, expect.closeTo(0.8)]);
+    });
+  });
+
+  describe('Tick loop', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should tick on an interval until stopped', () => {
+      vi.useFakeTimers();
+
+      const ticks: number[] = [];
+      learner = new HebbianLearner(atomSpace, { tickInterval: 50 });
+
+      learner.start((result) => ticks.push(result.tick));
+      vi.advanceTimersByTime(120);
+      learner.stop();
+      vi.advanceTimersByTime(200);
+
+      expect(ticks).toEqual([1, 2]);
+      expect(learner.isRunning()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Hebbian learning over the AtomSpace
+ * Atoms that are touched together, by queries, translations, chat turns or by sharing the
+ * attentional focus, get a HebbianLink whose strength tracks how often they still co-occur
+ */
+
+import type {
+  Atom,
+  HebbianAssociation,
+  HebbianLearnerConfig,
+  HebbianTickResult,
+  Link,
+  PatternMatch,
+  TruthValue,
+} from './types';
+import { AtomType } from './types';
+import type { AtomSpace } from './atomspace';
+import { confidenceToCount, countToConfidence } from './pln';
+
+export class HebbianLearner {
+  private atomSpace: AtomSpace;
+  private config: HebbianLearnerConfig;
+  private groups: string[][] = [];
+  private tickCount = 0;
+  private timer?: ReturnType<typeof setInterval>;
+  private unsubscribe?: () => void;
+
+  constructor(atomSpace: AtomSpace, config: Partial<HebbianLearnerConfig> = {}) {
+    this.atomSpace = atomSpace;
+    this.config = {
+      learningRate: 0.2,
+      confidenceLookahead: 10,
+      includeAttentionalFocus: true,
+      maxGroupSize: 20,
+      maxPendingGroups: 100,
+      tickInterval: 1000,
+      observeUsage: true,
+      ...config,
+    };
+
+    if (this.config.observeUsage) {
+      this.unsubscribe = atomSpace.on('atoms-used', ({ atoms }) => this.observe(atoms));
+    }
+  }
+
+  /**
+   * Record atoms touched together, e.g. the atoms of a translation or a chat turn
+   *
+   * Groups wait for the next tick. Once maxPendingGroups are waiting the oldest group is
+   * dropped, so a learner that is never ticked does not grow without bound.
+   */
+  observe(atoms: Array<Atom | string>): void {
+    const ids = Array.from(new Set(atoms.map((atom) => (typeof atom === 'string' ? atom : atom.id))));
+
+    if (ids.length > 1) {
+      this.groups.push(ids);
+      this.groups.splice(0, this.groups.length - this.config.maxPendingGroups);
+    }
+  }
+
+  /**
+   * Record the groundings and bindings of a query as touched together
+   */
+  observeMatches(matches: PatternMatch[]): void {
+    this.observe(matches.flatMap((match) => [match.grounding, ...Object.values(match.bindings)]));
+  }
+
+  /**
+   * Update the HebbianLinks from the groups observed since the last tick
+   *
+   * Every pair within a group is linked, or its link is moved towards full strength. Links of
+   * atoms that were active without each other are moved towards zero, so associations that are
+   * no longer used fade and eventually fall below the garbage collection threshold.
+   */
+  tick(): HebbianTickResult {
+    const groups = this.groups;
+
+    this.groups = [];
+
+    if (this.config.includeAttentionalFocus) {
+      groups.push(this.atomSpace.getAttentionalFocus().map((atom) => atom.id));
+    }
+
+    return this.atomSpace.transaction(() => {
+      const result: HebbianTickResult = { tick: ++this.tickCount, created: [], reinforced: [], weakened: [] };
+      const pairs = new Map<string, [Atom, Atom]>();
+      const active = new Set<string>();
+
+      for (const group of groups) {
+        const atoms = group
+          .map((id) => this.atomSpace.getAtom(id))
+          .filter((atom): atom is Atom => atom !== undefined && atom.type !== AtomType.HEBBIAN_LINK)
+          .slice(0, this.config.maxGroupSize);
+
+        atoms.forEach((atom, i) => {
+          active.add(atom.id);
+          atoms.slice(i + 1).forEach((other) => {
+            const pair = this.orderPair(atom, other);
+            pairs.set(this.getPairKey(pair), pair);
+          });
+        });
+      }
+
+      pairs.forEach((pair) => {
+        const link = this.atomSpace.getLink(AtomType.HEBBIAN_LINK, pair);
+
+        if (link) {
+          this.atomSpace.setTruthValue(link.id, this.update(link.truthValue, 1));
+          result.reinforced.push(this.atomSpace.getAtom(link.id) as Link);
+        } else {
+          const created = this.atomSpace.createLink(AtomType.HEBBIAN_LINK, pair, {
+            strength: 1,
+            confidence: countToConfidence(1, this.config.confidenceLookahead),
+          });
+
+          result.created.push(created);
+        }
+      });
+
+      const weakened = new Set<string>();
+
+      active.forEach((id) => {
+        for (const link of this.atomSpace.getIncomingByType(id, AtomType.HEBBIAN_LINK)) {
+          const key = this.getPairKey(link.outgoing as [Atom, Atom]);
+
+          if (!pairs.has(key) && !weakened.has(link.id)) {
+            weakened.add(link.id);
+            this.atomSpace.setTruthValue(link.id, this.update(link.truthValue, 0));
+            result.weakened.push(this.atomSpace.getAtom(link.id) as Link);
+          }
+        }
+      });
+
+      return result;
+    });
+  }
+
+  /**
+   * Get the atoms associated with an atom, strongest association first
+   */
+  getAssociations(id: string): HebbianAssociation[] {
+    return this.atomSpace
+      .getIncomingByType(id, AtomType.HEBBIAN_LINK)
+      .map((link) => ({
+        atom: link.outgoing.find((atom) => atom.id !== id) ?? link.outgoing[0],
+        link,
+        strength: link.truthValue?.strength ?? 0,
+      }))
+      .sort((a, b) => b.strength - a.strength);
+  }
+
+  /**
+   * Tick every tickInterval milliseconds until stop() is called
+   */
+  start(onTick?: (result: HebbianTickResult) => void): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      const result = this.tick();
+      onTick?.(result);
+    }, this.config.tickInterval);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Stop the tick loop and stop observing the atoms the AtomSpace reports as used
+   */
+  dispose(): void {
+    this.stop();
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+  }
+
+  /**
+   * Move the strength towards the target and count the tick as one more piece of evidence
+   */
+  private update(truthValue: TruthValue | undefined, target: number): TruthValue {
+    const strength = truthValue?.strength ?? 0;
+    const count = truthValue ? confidenceToCount(truthValue.confidence, this.config.confidenceLookahead) : 0;
+
+    return {
+      strength: strength + this.config.learningRate * (target - strength),
+      confidence: countToConfidence(count + 1, this.config.confidenceLookahead),
+    };
+  }
+
+  /**
+   * HebbianLinks are symmetric, so each pair is stored in a single order
+   */
+  private orderPair(a: Atom, b: Atom): [Atom, Atom] {
+    return a.id < b.id ? [a, b] : [b, a];
+  }
+
+  private getPairKey([a, b]: [Atom, Atom]): string {
+    return `${a.id}|${b.id}`;
+  }
+}
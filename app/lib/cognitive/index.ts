@@ -1,6 +1,42 @@
 // Core components
 export { AtomSpace } from './atomspace';
+export { PatternMatcher } from './pattern-matcher';
+export { RuleEngine, describeAtom, formatInferenceTrace } from './rule-engine';
+export { AttentionAllocator } from './attention';
+export { HebbianLearner } from './hebbian';
+export { AtomTypeRegistry, AtomValidationError } from './type-hierarchy';
+export { createAtomSpaceStore } from './atomspace-store';
+export { mergeTruthValues } from './truth-value';
+export {
+  DEFAULT_K,
+  DEFAULT_NOT_AB_STRENGTH,
+  reviseTruthValues,
+  confidenceToCount,
+  countToConfidence,
+  deduction,
+  inversion,
+  induction,
+  abduction,
+  modusPonens,
+  conjunction,
+  disjunction,
+} from './pln';
+export { SNAPSHOT_VERSION, serializeAtom, encodeBinarySnapshot, decodeBinarySnapshot } from './snapshot';
 export { SchemeAdapter } from './scheme-adapter';
+export {
+  SchemeSyntaxError,
+  tokenizeScheme,
+  readScheme,
+  writeSchemeString,
+  writeSchemeChar,
+  writeSchemeNumber,
+  writeSchemeSymbol,
+} from './scheme-reader';
+export type { SchemeReadOptions } from './scheme-reader';
+export { SchemeStreamParser, readSchemeStream } from './scheme-stream';
+export { SchemePrinter, SCHEME_SPECIAL_FORMS } from './scheme-printer';
+export { getExpressionAtPath, sortDiagnostics, syntaxErrorToDiagnostic, toLintMarkers } from './scheme-diagnostics';
+export { SchemeEvaluator, SchemeError, formatSchemeValue } from './scheme-evaluator';
 export { AgenticTranslator } from './translators';
 export { TensorFragmentProcessor, TensorFragmentUtils } from './tensor-fragments';
 export { HypergraphVisualizer, VisualizationUtils } from './visualization';
@@ -11,14 +47,62 @@ export type {
   Link,
   Node,
   TruthValue,
+  AttentionValue,
+  AttentionAllocatorConfig,
+  AttentionTickResult,
+  HebbianLearnerConfig,
+  HebbianTickResult,
+  HebbianAssociation,
+  AtomTypeQueryOptions,
+  LinkArity,
+  LinkSignature,
+  AtomValidationIssue,
+  TruthValueMerger,
+  TruthValueMergePolicy,
+  VariableBindings,
+  PatternMatch,
+  PatternMatchOptions,
+  InferenceFormula,
+  RuleEngineConfig,
+  ChainingOptions,
+  InferenceStep,
+  InferenceResult,
+  BackwardChainingResult,
   SchemeExpression,
+  SchemeExpressionType,
+  SourcePosition,
+  SourceSpan,
+  SchemeDiagnostic,
+  SchemeLintMarker,
+  SchemeToken,
+  SchemeTokenType,
+  SchemeSymbol,
+  SchemeProcedure,
+  SchemeValue,
   AgenticPrimitive,
   AgenticContext,
   TranslationResult,
   RoundTripTest,
   LossMetrics,
   SchemeAdapterConfig,
+  SchemeEvaluatorConfig,
+  SchemePrinterConfig,
+  SchemeNotation,
+  SchemeStreamParserConfig,
+  SchemeImportProgress,
+  AgenticTranslatorConfig,
   AtomSpaceConfig,
+  AtomSpaceEventMap,
+  AtomSpaceEventType,
+  AtomUsageSource,
+  AtomSpaceListener,
+  GarbageCollectionWeights,
+  GarbageCollectionOptions,
+  GarbageCollectionResult,
+  SerializedAtom,
+  SnapshotTensorFragment,
+  AtomSpaceSnapshot,
+  SnapshotImportOptions,
   TensorShape,
   TensorFragment,
   TensorFragmentConfig,
@@ -30,6 +114,9 @@ export type {
   TensorPerformanceMetrics,
 } from './types';
 
+// Store types
+export type { AtomSpaceView, AtomSpaceStoreOptions } from './atomspace-store';
+
 // Visualization types
 export type {
   VisualNode,
@@ -0,0 +1,130 @@
+/**
+ * Tests for the hypergraph pattern matcher
+ * Covers variable binding, nested links and query options
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { PatternMatcher } from './pattern-matcher';
+import { AtomSpace } from './atomspace';
+import { AtomType } from './types';
+import type { Atom, Link } from './types';
+
+const variable = (name: string): Atom => ({ id: `var-${name}`, type: AtomType.VARIABLE_NODE, name });
+const concept = (name: string): Atom => ({ id: `concept-${name}`, type: AtomType.CONCEPT_NODE, name });
+const link = (type: AtomType, outgoing: Atom[]): Link => ({ id: `pattern-${type}`, type, outgoing });
+
+describe('PatternMatcher', () => {
+  let atomSpace: AtomSpace;
+  let matcher: PatternMatcher;
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace();
+    matcher = new PatternMatcher(atomSpace);
+
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const dog = atomSpace.createNode(AtomType.CONCEPT_NODE, 'dog');
+    const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    const plant = atomSpace.createNode(AtomType.CONCEPT_NODE, 'plant');
+    const tree = atomSpace.createNode(AtomType.CONCEPT_NODE, 'tree');
+
+    atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+    atomSpace.createLink(AtomType.INHERITANCE_LINK, [dog, animal]);
+    atomSpace.createLink(AtomType.INHERITANCE_LINK, [tree, plant]);
+  });
+
+  describe('Variable binding', () => {
+    it('should bind a variable in the first outgoing position', () => {
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), concept('animal')]);
+
+      const matches = matcher.match(pattern);
+      const names = matches.map((match) => match.bindings.$x.name).sort();
+
+      expect(names).toEqual(['cat', 'dog']);
+      expect(matches.every((match) => match.grounding.type === AtomType.INHERITANCE_LINK)).toBe(true);
+    });
+
+    it('should bind several variables at once', () => {
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), variable('$y')]);
+
+      const matches = matcher.match(pattern);
+
+      expect(matches).toHaveLength(3);
+      expect(matches.map((match) => `${match.bindings.$x.name}->${match.bindings.$y.name}`).sort()).toEqual([
+        'cat->animal',
+        'dog->animal',
+        'tree->plant',
+      ]);
+    });
+
+    it('should bind repeated variables consistently', () => {
+      const self = atomSpace.createNode(AtomType.CONCEPT_NODE, 'self');
+      atomSpace.createLink(AtomType.INHERITANCE_LINK, [self, self]);
+
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), variable('$x')]);
+      const matches = matcher.match(pattern);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].bindings.$x.name).toBe('self');
+    });
+
+    it('should return no matches when constants differ', () => {
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), concept('mineral')]);
+      expect(matcher.match(pattern)).toEqual([]);
+    });
+  });
+
+  describe('Nested patterns', () => {
+    it('should walk nested outgoing sets', () => {
+      const eats = atomSpace.createNode(AtomType.PREDICATE_NODE, 'eats');
+      const cat = atomSpace.getAtomsByName('cat')[0];
+      const fish = atomSpace.createNode(AtomType.CONCEPT_NODE, 'fish');
+      atomSpace.createLink(AtomType.EVALUATION_LINK, [eats, atomSpace.createLink(AtomType.LIST_LINK, [cat, fish])]);
+
+      const pattern = link(AtomType.EVALUATION_LINK, [
+        { id: 'pattern-eats', type: AtomType.PREDICATE_NODE, name: 'eats' },
+        link(AtomType.LIST_LINK, [variable('$who'), variable('$what')]),
+      ]);
+
+      const matches = atomSpace.query(pattern);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].bindings.$who.name).toBe('cat');
+      expect(matches[0].bindings.$what.name).toBe('fish');
+    });
+
+    it('should substitute bindings back into the pattern', () => {
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), concept('plant')]);
+      const [match] = matcher.match(pattern);
+
+      const grounded = matcher.substitute(pattern, match.bindings) as Link;
+
+      expect(grounded.outgoing[0].name).toBe('tree');
+      expect(matcher.getVariables(pattern)).toEqual(['$x']);
+    });
+  });
+
+  describe('Query options', () => {
+    it('should restrict variables by type', () => {
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), concept('animal')]);
+
+      expect(matcher.match(pattern, { variableTypes: { $x: AtomType.PREDICATE_NODE } })).toEqual([]);
+      expect(matcher.match(pattern, { variableTypes: { $x: AtomType.CONCEPT_NODE } })).toHaveLength(2);
+    });
+
+    it('should limit the number of matches', () => {
+      const pattern = link(AtomType.INHERITANCE_LINK, [variable('$x'), variable('$y')]);
+      expect(matcher.match(pattern, { limit: 1 })).toHaveLength(1);
+    });
+
+    it('should not match a stored pattern against itself', () => {
+      const x = atomSpace.createNode(AtomType.VARIABLE_NODE, '$x');
+      const animal = atomSpace.getAtomsByName('animal')[0];
+      const storedPattern = atomSpace.createLink(AtomType.INHERITANCE_LINK, [x, animal]);
+
+      const matches = atomSpace.query(storedPattern);
+
+      expect(matches).toHaveLength(2);
+      expect(matches.some((match) => match.grounding.id === storedPattern.id)).toBe(false);
+    });
+  });
+});
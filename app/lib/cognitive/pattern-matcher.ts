@@ -0,0 +1,188 @@
+/**
+ * Hypergraph pattern matcher for AtomSpace queries
+ * Unifies query graphs containing VariableNodes against stored atoms and returns binding sets
+ */
+
+import type { Atom, Link, PatternMatch, PatternMatchOptions, VariableBindings } from './types';
+import { AtomType } from './types';
+import type { AtomSpace } from './atomspace';
+
+export class PatternMatcher {
+  private atomSpace: AtomSpace;
+
+  constructor(atomSpace: AtomSpace) {
+    this.atomSpace = atomSpace;
+  }
+
+  /**
+   * Find every grounding of a pattern in the AtomSpace
+   *
+   * The pattern is a query graph built from ordinary atoms; VariableNodes act as
+   * wildcards and are bound consistently across the whole pattern.
+   */
+  match(pattern: Atom, options: PatternMatchOptions = {}): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const limit = options.limit ?? Infinity;
+
+    for (const candidate of this.getCandidates(pattern)) {
+      if (matches.length >= limit) {
+        break;
+      }
+
+      if (candidate.id === pattern.id) {
+        // never let a stored pattern match itself
+        continue;
+      }
+
+      const bindings = this.unify(pattern, candidate, {}, options);
+
+      if (bindings) {
+        matches.push({ bindings, grounding: candidate });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Check whether an atom is a grounding of the pattern
+   */
+  matchAtom(pattern: Atom, atom: Atom, options: PatternMatchOptions = {}): VariableBindings | null {
+    return this.unify(pattern, atom, {}, options);
+  }
+
+  /**
+   * Replace the variables of a pattern with the atoms they are bound to
+   */
+  substitute(pattern: Atom, bindings: VariableBindings): Atom {
+    if (this.isVariable(pattern)) {
+      return bindings[pattern.name!] ?? pattern;
+    }
+
+    if (this.isLink(pattern)) {
+      return {
+        ...pattern,
+        outgoing: pattern.outgoing.map((outgoingAtom) => this.substitute(outgoingAtom, bindings)),
+      } as Link;
+    }
+
+    return pattern;
+  }
+
+  /**
+   * Collect the names of all variables appearing in a pattern
+   */
+  getVariables(pattern: Atom): string[] {
+    const variables = new Set<string>();
+
+    const visit = (atom: Atom) => {
+      if (this.isVariable(atom)) {
+        variables.add(atom.name!);
+      } else if (this.isLink(atom)) {
+        atom.outgoing.forEach(visit);
+      }
+    };
+
+    visit(pattern);
+
+    return Array.from(variables);
+  }
+
+  private getCandidates(pattern: Atom): Atom[] {
+    if (this.isVariable(pattern)) {
+      return this.atomSpace.getAllAtoms();
+    }
+
+    if (this.isLink(pattern)) {
+      const hasArity = (atom: Atom) => this.isLink(atom) && atom.outgoing.length === pattern.outgoing.length;
+      const constant = pattern.outgoing.find(
+        (outgoingAtom) => !this.isLink(outgoingAtom) && !this.isVariable(outgoingAtom),
+      );
+
+      if (constant) {
+        // only links pointing at a grounding of the constant can match, so walk its incoming set
+        const links = this.getCandidates(constant).flatMap((grounding) =>
+          this.atomSpace.getIncomingByType(grounding.id, pattern.type).filter(hasArity),
+        );
+
+        return Array.from(new Set(links));
+      }
+
+      return this.atomSpace.getAtomsByType(pattern.type).filter(hasArity);
+    }
+
+    if (pattern.name !== undefined) {
+      return this.atomSpace.getAtomsByName(pattern.name).filter((atom) => atom.type === pattern.type);
+    }
+
+    return this.atomSpace.getAtomsByType(pattern.type);
+  }
+
+  private unify(
+    pattern: Atom,
+    atom: Atom,
+    bindings: VariableBindings,
+    options: PatternMatchOptions,
+  ): VariableBindings | null {
+    if (this.isVariable(pattern)) {
+      return this.bindVariable(pattern.name!, atom, bindings, options);
+    }
+
+    if (pattern.type !== atom.type) {
+      return null;
+    }
+
+    if (this.isLink(pattern)) {
+      if (!this.isLink(atom) || atom.outgoing.length !== pattern.outgoing.length) {
+        return null;
+      }
+
+      let current: VariableBindings | null = bindings;
+
+      for (let i = 0; i < pattern.outgoing.length && current; i++) {
+        current = this.unify(pattern.outgoing[i], atom.outgoing[i], current, options);
+      }
+
+      return current;
+    }
+
+    if (this.isLink(atom) || pattern.name !== atom.name) {
+      return null;
+    }
+
+    return bindings;
+  }
+
+  private bindVariable(
+    name: string,
+    atom: Atom,
+    bindings: VariableBindings,
+    options: PatternMatchOptions,
+  ): VariableBindings | null {
+    const existing = bindings[name];
+
+    if (existing) {
+      return existing.id === atom.id ? bindings : null;
+    }
+
+    if (atom.type === AtomType.VARIABLE_NODE && !options.allowVariableGroundings) {
+      return null;
+    }
+
+    const requiredType = options.variableTypes?.[name];
+
+    if (requiredType && atom.type !== requiredType) {
+      return null;
+    }
+
+    return { ...bindings, [name]: atom };
+  }
+
+  private isVariable(atom: Atom): boolean {
+    return atom.type === AtomType.VARIABLE_NODE && atom.name !== undefined;
+  }
+
+  private isLink(atom: Atom): atom is Link {
+    return 'outgoing' in atom;
+  }
+}
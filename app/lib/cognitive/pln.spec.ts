@@ -0,0 +1,128 @@
+/**
+ * Tests for the PLN truth value formulas
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  abduction,
+  confidenceToCount,
+  conjunction,
+  countToConfidence,
+  deduction,
+  disjunction,
+  induction,
+  inversion,
+  modusPonens,
+  reviseTruthValues,
+} from './pln';
+import type { TruthValue } from './types';
+
+const tv = (strength: number, confidence: number): TruthValue => ({ strength, confidence });
+
+const expectTruthValue = (actual: TruthValue, strength: number, confidence: number) => {
+  expect(actual.strength).toBeCloseTo(strength, 10);
+  expect(actual.confidence).toBeCloseTo(confidence, 10);
+};
+
+describe('PLN formulas', () => {
+  describe('Evidence conversion', () => {
+    it('should round-trip confidence through evidence counts', () => {
+      for (const confidence of [0, 0.1, 0.5, 0.9]) {
+        expect(countToConfidence(confidenceToCount(confidence))).toBeCloseTo(confidence, 10);
+      }
+    });
+
+    it('should keep full confidence finite', () => {
+      expect(Number.isFinite(confidenceToCount(1))).toBe(true);
+    });
+  });
+
+  describe('Revision', () => {
+    it('should weight strengths by the evidence behind them', () => {
+      const revised = reviseTruthValues({ strength: 1, confidence: 0.9 }, { strength: 0, confidence: 0.1 });
+
+      expect(revised.strength).toBeGreaterThan(0.9);
+      expect(revised.confidence).toBeGreaterThan(0.9);
+    });
+
+    it('should average equally confident estimates', () => {
+      const revised = reviseTruthValues({ strength: 0.2, confidence: 0.5 }, { strength: 0.6, confidence: 0.5 });
+
+      expect(revised.strength).toBeCloseTo(0.4, 10);
+      expect(revised.confidence).toBeCloseTo(2 / 3, 10);
+    });
+
+    it('should handle estimates without evidence', () => {
+      expect(reviseTruthValues({ strength: 0.2, confidence: 0 }, { strength: 0.6, confidence: 0 })).toEqual({
+        strength: 0.4,
+        confidence: 0,
+      });
+    });
+  });
+
+  describe('Deduction', () => {
+    it('should combine the direct path with the path through not-B', () => {
+      expectTruthValue(deduction(tv(0.8, 0.9), tv(0.7, 0.8), tv(0.5, 0.9), tv(0.6, 0.9)), 0.66, 0.8);
+    });
+
+    it('should fall back to the strength of C when B is certain', () => {
+      expectTruthValue(deduction(tv(0.8, 0.9), tv(0.7, 0.8), tv(1, 0.9), tv(0.6, 0.9)), 0.6, 0.8);
+    });
+
+    it('should keep strengths within [0, 1]', () => {
+      const result = deduction(tv(0.1, 0.9), tv(0.1, 0.9), tv(0.9, 0.9), tv(1, 0.9));
+
+      expect(result.strength).toBeLessThanOrEqual(1);
+      expect(result.strength).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe('Inversion', () => {
+    it('should apply Bayes rule', () => {
+      expectTruthValue(inversion(tv(0.6, 0.9), tv(0.2, 0.9), tv(0.4, 0.8)), 0.3, 0.8);
+    });
+
+    it('should have no confidence when B never holds', () => {
+      expect(inversion(tv(0.6, 0.9), tv(0.2, 0.9), tv(0, 0.9))).toEqual({ strength: 0, confidence: 0 });
+    });
+  });
+
+  describe('Induction and abduction', () => {
+    it('should induce A→C from B→A and B→C', () => {
+      expectTruthValue(induction(tv(0.6, 0.9), tv(0.7, 0.8), tv(0.4, 0.9), tv(0.2, 0.9), tv(0.5, 0.9)), 0.525, 0.8);
+    });
+
+    it('should abduce A→C from A→B and C→B', () => {
+      expectTruthValue(abduction(tv(0.6, 0.9), tv(0.4, 0.8), tv(0.5, 0.9), tv(0.5, 0.9), tv(0.25, 0.9)), 0.24, 0.8);
+    });
+  });
+
+  describe('Modus ponens', () => {
+    it('should weight the implication by the strength of the premise', () => {
+      expectTruthValue(modusPonens(tv(0.5, 0.9), tv(0.8, 0.7)), 0.5, 0.7);
+    });
+
+    it('should preserve certain premises and implications', () => {
+      expectTruthValue(modusPonens(tv(1, 1), tv(1, 1)), 1, 1);
+    });
+
+    it('should use the given strength of B when A is false', () => {
+      expectTruthValue(modusPonens(tv(0, 0.9), tv(0.8, 0.9), 0.1), 0.1, 0.9);
+    });
+  });
+
+  describe('Conjunction and disjunction', () => {
+    it('should multiply strengths for a conjunction', () => {
+      expectTruthValue(conjunction([tv(0.5, 0.8), tv(0.4, 0.6)]), 0.2, 0.6);
+    });
+
+    it('should combine complements for a disjunction', () => {
+      expectTruthValue(disjunction([tv(0.5, 0.8), tv(0.4, 0.6)]), 0.7, 0.6);
+    });
+
+    it('should have no confidence without operands', () => {
+      expect(conjunction([]).confidence).toBe(0);
+      expect(disjunction([]).confidence).toBe(0);
+    });
+  });
+});
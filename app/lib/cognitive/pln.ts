@@ -0,0 +1,140 @@
+/**
+ * Probabilistic Logic Networks truth value formulas
+ * Pure functions computing the truth value of a conclusion from the truth values of its premises,
+ * using the independence-based formulas of PLN
+ */
+
+import type { TruthValue } from './types';
+
+/**
+ * Lookahead constant relating PLN confidence to evidence count: c = n / (n + k)
+ */
+export const DEFAULT_K = 800;
+
+/**
+ * Strength of B when A is false, assumed by modus ponens when nothing else is known
+ */
+export const DEFAULT_NOT_AB_STRENGTH = 0.2;
+
+const EPSILON = 1e-9;
+
+/**
+ * Convert a confidence into the amount of evidence it represents
+ */
+export function confidenceToCount(confidence: number, k: number = DEFAULT_K): number {
+  // full confidence would mean infinite evidence, so cap just below it
+  const c = Math.min(Math.max(confidence, 0), 0.9999);
+  return (k * c) / (1 - c);
+}
+
+/**
+ * Convert an amount of evidence into a confidence
+ */
+export function countToConfidence(count: number, k: number = DEFAULT_K): number {
+  return count / (count + k);
+}
+
+/**
+ * Revision: pool the evidence behind two independent estimates of the same atom
+ */
+export function reviseTruthValues(a: TruthValue, b: TruthValue, k: number = DEFAULT_K): TruthValue {
+  const countA = confidenceToCount(a.confidence, k);
+  const countB = confidenceToCount(b.confidence, k);
+  const total = countA + countB;
+
+  if (total === 0) {
+    return { strength: (a.strength + b.strength) / 2, confidence: 0 };
+  }
+
+  return {
+    strength: (countA * a.strength + countB * b.strength) / total,
+    confidence: countToConfidence(total, k),
+  };
+}
+
+/**
+ * Deduction: from A→B and B→C infer A→C
+ *
+ * Assumes A and C are independent given B and given not-B, which needs the term probabilities of
+ * B and C.
+ */
+export function deduction(ab: TruthValue, bc: TruthValue, b: TruthValue, c: TruthValue): TruthValue {
+  const strength =
+    b.strength > 1 - EPSILON
+      ? c.strength
+      : ab.strength * bc.strength + ((1 - ab.strength) * (c.strength - b.strength * bc.strength)) / (1 - b.strength);
+
+  return { strength: clamp(strength), confidence: Math.min(ab.confidence, bc.confidence) };
+}
+
+/**
+ * Inversion (Bayes' rule): from A→B infer B→A
+ */
+export function inversion(ab: TruthValue, a: TruthValue, b: TruthValue): TruthValue {
+  if (b.strength < EPSILON) {
+    return { strength: 0, confidence: 0 };
+  }
+
+  return {
+    strength: clamp((ab.strength * a.strength) / b.strength),
+    confidence: Math.min(ab.confidence, a.confidence, b.confidence),
+  };
+}
+
+/**
+ * Induction: from B→A and B→C infer A→C, by inverting B→A and deducing through B
+ */
+export function induction(ba: TruthValue, bc: TruthValue, a: TruthValue, b: TruthValue, c: TruthValue): TruthValue {
+  return deduction(inversion(ba, b, a), bc, b, c);
+}
+
+/**
+ * Abduction: from A→B and C→B infer A→C, by inverting C→B and deducing through B
+ */
+export function abduction(ab: TruthValue, cb: TruthValue, a: TruthValue, b: TruthValue, c: TruthValue): TruthValue {
+  return deduction(ab, inversion(cb, c, b), b, c);
+}
+
+/**
+ * Modus ponens: from A and A→B infer B
+ *
+ * When A is false, B is assumed to hold with the given strength.
+ */
+export function modusPonens(
+  a: TruthValue,
+  ab: TruthValue,
+  notABStrength: number = DEFAULT_NOT_AB_STRENGTH,
+): TruthValue {
+  return {
+    strength: clamp(ab.strength * a.strength + notABStrength * (1 - a.strength)),
+    confidence: Math.min(a.confidence, ab.confidence),
+  };
+}
+
+/**
+ * Conjunction of independent atoms
+ */
+export function conjunction(truthValues: TruthValue[]): TruthValue {
+  return {
+    strength: truthValues.reduce((strength, truthValue) => strength * truthValue.strength, 1),
+    confidence: minConfidence(truthValues),
+  };
+}
+
+/**
+ * Disjunction of independent atoms
+ */
+export function disjunction(truthValues: TruthValue[]): TruthValue {
+  return {
+    strength: 1 - truthValues.reduce((strength, truthValue) => strength * (1 - truthValue.strength), 1),
+    confidence: minConfidence(truthValues),
+  };
+}
+
+function minConfidence(truthValues: TruthValue[]): number {
+  return truthValues.length === 0 ? 0 : Math.min(...truthValues.map((truthValue) => truthValue.confidence));
+}
+
+function clamp(strength: number): number {
+  return Math.min(Math.max(strength, 0), 1);
+}
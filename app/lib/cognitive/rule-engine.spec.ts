@@ -0,0 +1,254 @@
+/**
+ * Tests for the rule engine
+ * Covers forward chaining, backward chaining, step limits and the inference trace
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { RuleEngine, formatInferenceTrace } from './rule-engine';
+import { AtomSpace } from './atomspace';
+import { AtomType } from './types';
+import type { Atom, Link } from './types';
+
+const variable = (name: string): Atom => ({ id: `var-${name}`, type: AtomType.VARIABLE_NODE, name });
+const concept = (name: string): Atom => ({ id: `concept-${name}`, type: AtomType.CONCEPT_NODE, name });
+const predicate = (name: string): Atom => ({ id: `predicate-${name}`, type: AtomType.PREDICATE_NODE, name });
+const inheritance = (child: Atom, parent: Atom): Link => ({
+  id: `pattern-${child.name}-${parent.name}`,
+  type: AtomType.INHERITANCE_LINK,
+  outgoing: [child, parent],
+});
+
+describe('RuleEngine', () => {
+  let atomSpace: AtomSpace;
+  let engine: RuleEngine;
+
+  const assertInheritance = (child: string, parent: string, strength = 1.0, confidence = 1.0) =>
+    atomSpace.createLink(
+      AtomType.INHERITANCE_LINK,
+      [atomSpace.createNode(AtomType.CONCEPT_NODE, child), atomSpace.createNode(AtomType.CONCEPT_NODE, parent)],
+      { strength, confidence },
+    );
+
+  const findInheritance = (child: string, parent: string) => {
+    const childNode = atomSpace.getNode(AtomType.CONCEPT_NODE, child);
+    const parentNode = atomSpace.getNode(AtomType.CONCEPT_NODE, parent);
+
+    return childNode && parentNode ? atomSpace.getLink(AtomType.INHERITANCE_LINK, [childNode, parentNode]) : undefined;
+  };
+
+  const addTransitivityRule = () =>
+    engine.addRule(
+      [inheritance(variable('$x'), variable('$y')), inheritance(variable('$y'), variable('$z'))],
+      inheritance(variable('$x'), variable('$z')),
+    );
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace();
+    engine = new RuleEngine(atomSpace);
+  });
+
+  describe('Rules', () => {
+    it('should store rules as ImplicationLinks with an AndLink premise', () => {
+      const rule = addTransitivityRule();
+
+      expect(rule.type).toBe(AtomType.IMPLICATION_LINK);
+      expect(rule.outgoing[0].type).toBe(AtomType.AND_LINK);
+      expect(engine.getRules()).toEqual([rule]);
+    });
+
+    it('should ignore implications without variables', () => {
+      atomSpace.createLink(AtomType.IMPLICATION_LINK, [
+        assertInheritance('cat', 'mammal'),
+        assertInheritance('cat', 'animal'),
+      ]);
+
+      expect(engine.getRules()).toEqual([]);
+    });
+  });
+
+  describe('Forward chaining', () => {
+    it('should derive conclusions from a single-premise rule', () => {
+      assertInheritance('cat', 'mammal');
+      engine.addRule(inheritance(variable('$x'), concept('mammal')), inheritance(variable('$x'), concept('animal')));
+
+      const result = engine.forwardChain();
+
+      expect(findInheritance('cat', 'animal')).toBeDefined();
+      expect(result.derived).toHaveLength(1);
+      expect(result.exhausted).toBe(true);
+    });
+
+    it('should join premise clauses and chain derived atoms to a fixpoint', () => {
+      assertInheritance('cat', 'mammal');
+      assertInheritance('mammal', 'animal');
+      assertInheritance('animal', 'organism');
+      addTransitivityRule();
+
+      const result = engine.forwardChain();
+
+      expect(findInheritance('cat', 'animal')).toBeDefined();
+      expect(findInheritance('mammal', 'organism')).toBeDefined();
+      expect(findInheritance('cat', 'organism')).toBeDefined();
+      expect(result.exhausted).toBe(true);
+      expect(engine.forwardChain().derived).toEqual([]);
+    });
+
+    it('should compute truth values from the rule and its premises', () => {
+      assertInheritance('cat', 'mammal', 0.9, 0.8);
+      assertInheritance('mammal', 'animal', 0.5, 0.6);
+
+      const rule = addTransitivityRule();
+      atomSpace.setTruthValue(rule.id, { strength: 0.5, confidence: 0.9 });
+
+      engine.forwardChain();
+
+      const derived = findInheritance('cat', 'animal')!;
+
+      // modus ponens on the conjunction of the premises: 0.5 * 0.45 + 0.2 * (1 - 0.45)
+      expect(derived.truthValue!.strength).toBeCloseTo(0.335);
+      expect(derived.truthValue!.confidence).toBeCloseTo(0.6);
+    });
+
+    it('should use a custom formula', () => {
+      engine = new RuleEngine(atomSpace, { formula: () => ({ strength: 0.42, confidence: 0.24 }) });
+      assertInheritance('cat', 'mammal');
+      engine.addRule(inheritance(variable('$x'), concept('mammal')), inheritance(variable('$x'), concept('animal')));
+
+      engine.forwardChain();
+
+      expect(findInheritance('cat', 'animal')!.truthValue).toEqual({ strength: 0.42, confidence: 0.24 });
+    });
+
+    it('should stop at the step limit', () => {
+      ['a', 'b', 'c', 'd', 'e'].forEach((name, index, names) => {
+        if (index > 0) {
+          assertInheritance(names[index - 1], name);
+        }
+      });
+      addTransitivityRule();
+
+      const result = engine.forwardChain({ maxSteps: 2 });
+
+      expect(result.steps).toBe(2);
+      expect(result.trace).toHaveLength(2);
+      expect(result.exhausted).toBe(false);
+    });
+
+    it('should only use the given rules', () => {
+      assertInheritance('cat', 'mammal');
+
+      const toAnimal = engine.addRule(
+        inheritance(variable('$x'), concept('mammal')),
+        inheritance(variable('$x'), concept('animal')),
+      );
+      engine.addRule(inheritance(variable('$x'), concept('mammal')), inheritance(variable('$x'), concept('pet')));
+
+      engine.forwardChain({ rules: [toAnimal] });
+
+      expect(findInheritance('cat', 'animal')).toBeDefined();
+      expect(findInheritance('cat', 'pet')).toBeUndefined();
+    });
+  });
+
+  describe('Backward chaining', () => {
+    beforeEach(() => {
+      assertInheritance('cat', 'mammal');
+      assertInheritance('mammal', 'animal');
+      assertInheritance('animal', 'organism');
+      addTransitivityRule();
+    });
+
+    it('should prove a ground goal through subgoals', () => {
+      const result = engine.backwardChain(inheritance(concept('cat'), concept('organism')));
+
+      expect(result.groundings).toHaveLength(1);
+      expect(result.groundings[0].id).toBe(findInheritance('cat', 'organism')!.id);
+      expect(result.solutions).toEqual([{}]);
+    });
+
+    it('should return bindings for the variables of the goal', () => {
+      const result = engine.backwardChain(inheritance(concept('cat'), variable('$what')));
+      const names = result.solutions.map((solution) => solution.$what.name).sort();
+
+      expect(names).toEqual(['animal', 'mammal', 'organism']);
+    });
+
+    it('should keep solutions that bind nodes of different types with the same name', () => {
+      atomSpace.createLink(AtomType.INHERITANCE_LINK, [
+        atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat'),
+        atomSpace.createNode(AtomType.PREDICATE_NODE, 'animal'),
+      ]);
+
+      const result = engine.backwardChain(inheritance(concept('cat'), variable('$what')));
+      const animals = result.solutions
+        .filter((solution) => solution.$what.name === 'animal')
+        .map((solution) => solution.$what.type)
+        .sort();
+
+      expect(animals).toEqual([AtomType.CONCEPT_NODE, AtomType.PREDICATE_NODE]);
+      expect(engine.backwardChain(inheritance(concept('cat'), predicate('animal'))).groundings).toHaveLength(1);
+    });
+
+    it('should fail goals that cannot be proved', () => {
+      const result = engine.backwardChain(inheritance(concept('organism'), concept('cat')));
+
+      expect(result.solutions).toEqual([]);
+      expect(result.groundings).toEqual([]);
+      expect(findInheritance('organism', 'cat')).toBeUndefined();
+    });
+
+    it('should respect the depth limit', () => {
+      const result = engine.backwardChain(inheritance(concept('cat'), concept('organism')), { maxDepth: 1 });
+
+      expect(result.solutions).toEqual([]);
+    });
+  });
+
+  describe('Inference trace', () => {
+    it('should record every rule application in order', () => {
+      assertInheritance('cat', 'mammal');
+      assertInheritance('mammal', 'animal');
+
+      const rule = addTransitivityRule();
+      const result = engine.forwardChain();
+      const [step] = result.trace;
+
+      expect(result.trace).toHaveLength(1);
+      expect(step.step).toBe(1);
+      expect(step.direction).toBe('forward');
+      expect(step.rule.id).toBe(rule.id);
+      expect(step.isNew).toBe(true);
+      expect(step.bindings.$x.name).toBe('cat');
+      expect(step.bindings.$z.name).toBe('animal');
+      expect(step.premises.map((premise) => premise.id)).toEqual([
+        findInheritance('cat', 'mammal')!.id,
+        findInheritance('mammal', 'animal')!.id,
+      ]);
+      expect(step.conclusion.id).toBe(findInheritance('cat', 'animal')!.id);
+    });
+
+    it('should report bindings by the variable names of the rule when chaining backwards', () => {
+      assertInheritance('cat', 'mammal');
+      assertInheritance('mammal', 'animal');
+      addTransitivityRule();
+
+      const { trace } = engine.backwardChain(inheritance(concept('cat'), concept('animal')));
+
+      expect(trace).toHaveLength(1);
+      expect(trace[0].direction).toBe('backward');
+      expect(Object.keys(trace[0].bindings).sort()).toEqual(['$x', '$y', '$z']);
+    });
+
+    it('should format the trace for display', () => {
+      assertInheritance('cat', 'mammal');
+      engine.addRule(inheritance(variable('$x'), concept('mammal')), inheritance(variable('$x'), concept('animal')));
+
+      const [line] = formatInferenceTrace(engine.forwardChain().trace);
+
+      expect(line).toBe(
+        '1. [forward] (InheritanceLink (ConceptNode "cat") (ConceptNode "animal")) <1.000, 1.000> ' +
+          'from (InheritanceLink (ConceptNode "cat") (ConceptNode "mammal")) {$x=(ConceptNode "cat")}',
+      );
+    });
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * Forward and backward chaining over rules stored in the AtomSpace
+ * A rule is an ImplicationLink whose premise and conclusion contain VariableNodes; an AndLink
+ * premise lists clauses that must all be grounded with consistent bindings
+ */
+
+import type {
+  Atom,
+  BackwardChainingResult,
+  ChainingOptions,
+  InferenceFormula,
+  InferenceResult,
+  InferenceStep,
+  Link,
+  RuleEngineConfig,
+  TruthValue,
+  VariableBindings,
+} from './types';
+import { AtomType } from './types';
+import type { AtomSpace } from './atomspace';
+import { PatternMatcher } from './pattern-matcher';
+import { conjunction, modusPonens } from './pln';
+
+/**
+ * PLN modus ponens with the conjunction of the premises as antecedent
+ */
+const modusPonensFormula: InferenceFormula = (rule, premises) => modusPonens(conjunction(premises), rule);
+
+/**
+ * Premise and conclusion of a rule, with variables renamed apart for backward chaining
+ */
+interface RuleInstance {
+  rule: Link;
+  premise: Atom;
+  conclusion: Atom;
+  variables: Map<string, string>; // Variable name used in premise and conclusion -> name in the rule
+}
+
+interface ChainingState {
+  trace: InferenceStep[];
+  derived: Map<string, Atom>;
+  applied: Set<string>;
+  maxSteps: number;
+  limitReached: boolean;
+}
+
+export class RuleEngine {
+  private atomSpace: AtomSpace;
+  private matcher: PatternMatcher;
+  private config: RuleEngineConfig;
+  private renameCounter = 0;
+
+  constructor(atomSpace: AtomSpace, config: Partial<RuleEngineConfig> = {}) {
+    this.atomSpace = atomSpace;
+    this.matcher = new PatternMatcher(atomSpace);
+    this.config = {
+      maxSteps: 100,
+      maxDepth: 5,
+      defaultTruthValue: { strength: 1.0, confidence: 1.0 },
+      formula: modusPonensFormula,
+      ...config,
+    };
+  }
+
+  /**
+   * Store a rule; several premises are combined into an AndLink
+   */
+  addRule(premise: Atom | Atom[], conclusion: Atom, truthValue?: TruthValue): Link {
+    const premiseAtom = Array.isArray(premise)
+      ? ({ id: '', type: AtomType.AND_LINK, outgoing: premise } as Link)
+      : premise;
+
+    return this.atomSpace.createLink(
+      AtomType.IMPLICATION_LINK,
+      [this.instantiate(premiseAtom), this.instantiate(conclusion)],
+      truthValue,
+    );
+  }
+
+  /**
+   * Get every stored ImplicationLink that contains variables
+   */
+  getRules(): Link[] {
+    return this.atomSpace.getAtomsByType(AtomType.IMPLICATION_LINK).filter((atom): atom is Link => this.isRule(atom));
+  }
+
+  /**
+   * Apply rules to the stored atoms until nothing new can be derived or the step limit is hit
+   *
+   * Each rule fires at most once per set of bindings in a run. Derived atoms are stored with the
+   * truth value computed by the configured formula.
+   */
+  forwardChain(options: ChainingOptions = {}): InferenceResult {
+    const rules = options.rules ?? this.getRules();
+    const state = this.createState(options);
+
+    return this.atomSpace.transaction(() => {
+      let progress = true;
+
+      while (progress && !state.limitReached) {
+        progress = false;
+
+        for (const rule of rules) {
+          const instance = this.toInstance(rule);
+
+          for (const bindings of this.solveClauses(this.getClauses(instance.premise), {})) {
+            if (this.applyRule(instance, bindings, 'forward', state)) {
+              progress = true;
+            }
+
+            if (state.limitReached) {
+              break;
+            }
+          }
+        }
+      }
+
+      return this.toResult(state);
+    });
+  }
+
+  /**
+   * Prove a goal pattern by chaining backwards from the rules whose conclusion unifies with it
+   *
+   * Subgoals are proved recursively up to the configured depth; every rule application on the
+   * way derives its conclusion just like forward chaining does. The solutions bind the variables
+   * of the goal.
+   */
+  backwardChain(goal: Atom, options: ChainingOptions = {}): BackwardChainingResult {
+    const rules = options.rules ?? this.getRules();
+    const maxDepth = options.maxDepth ?? this.config.maxDepth;
+    const state = this.createState(options);
+
+    return this.atomSpace.transaction(() => {
+      const variables = this.matcher.getVariables(goal);
+      const solutions = new Map<string, VariableBindings>();
+
+      for (const bindings of this.prove(goal, {}, 0, rules, maxDepth, state)) {
+        const solution: VariableBindings = {};
+
+        variables
+          .filter((name) => bindings[name])
+          .forEach((name) => (solution[name] = this.resolve(bindings[name], bindings)));
+        solutions.set(this.getBindingsKey(solution), solution);
+      }
+
+      const groundings = new Map<string, Atom>();
+
+      solutions.forEach((solution) => {
+        const grounding = this.findGround(this.resolve(goal, solution));
+
+        if (grounding) {
+          groundings.set(grounding.id, grounding);
+        }
+      });
+
+      return {
+        ...this.toResult(state),
+        solutions: Array.from(solutions.values()),
+        groundings: Array.from(groundings.values()),
+      };
+    });
+  }
+
+  private prove(
+    goal: Atom,
+    bindings: VariableBindings,
+    depth: number,
+    rules: Link[],
+    maxDepth: number,
+    state: ChainingState,
+  ): VariableBindings[] {
+    if (depth < maxDepth) {
+      for (const rule of rules) {
+        if (state.limitReached) {
+          break;
+        }
+
+        const instance = this.renameApart(rule);
+        const unified = this.unify(instance.conclusion, goal, bindings);
+
+        if (!unified) {
+          continue;
+        }
+
+        const clauses = this.getClauses(instance.premise);
+        const solutions = clauses.reduce<VariableBindings[]>(
+          (partials, clause) =>
+            partials.flatMap((partial) => this.prove(clause, partial, depth + 1, rules, maxDepth, state)),
+          [unified],
+        );
+
+        for (const solution of solutions) {
+          this.applyRule(instance, solution, 'backward', state);
+
+          if (state.limitReached) {
+            break;
+          }
+        }
+      }
+    }
+
+    return this.matchClause(goal, bindings);
+  }
+
+  /**
+   * Derive the conclusion of a rule instance under a set of bindings, returning whether a new
+   * step was taken
+   */
+  private applyRule(
+    instance: RuleInstance,
+    bindings: VariableBindings,
+    direction: InferenceStep['direction'],
+    state: ChainingState,
+  ): boolean {
+    const ruleBindings: VariableBindings = {};
+
+    instance.variables.forEach((original, name) => {
+      if (bindings[name]) {
+        ruleBindings[original] = this.resolve(bindings[name], bindings);
+      }
+    });
+
+    const key = `${instance.rule.id}|${this.getBindingsKey(ruleBindings)}`;
+
+    if (state.applied.has(key)) {
+      return false;
+    }
+
+    const conclusion = this.resolve(instance.conclusion, bindings);
+    const premises = this.getClauses(instance.premise).map((clause) => this.findGround(this.resolve(clause, bindings)));
+
+    if (this.hasVariables(conclusion) || premises.some((premise) => !premise)) {
+      // the conclusion uses variables the premise does not bind
+      return false;
+    }
+
+    if (state.trace.length >= state.maxSteps) {
+      state.limitReached = true;
+      return false;
+    }
+
+    state.applied.add(key);
+
+    const existing = this.findGround(conclusion);
+    const previous = existing?.truthValue;
+    const truthValue = this.config.formula(
+      instance.rule.truthValue ?? this.config.defaultTruthValue,
+      premises.map((premise) => premise!.truthValue ?? this.config.defaultTruthValue),
+    );
+    const derived = this.instantiate(conclusion, truthValue);
+
+    state.trace.push({
+      step: state.trace.length + 1,
+      direction,
+      rule: instance.rule,
+      bindings: ruleBindings,
+      premises: premises as Atom[],
+      conclusion: derived,
+      truthValue,
+      isNew: !existing,
+    });
+
+    if (
+      !existing ||
+      previous?.strength !== derived.truthValue?.strength ||
+      previous?.confidence !== derived.truthValue?.confidence
+    ) {
+      state.derived.set(derived.id, derived);
+    }
+
+    return true;
+  }
+
+  /**
+   * Find every extension of the bindings under which all clauses are grounded in the AtomSpace
+   */
+  private solveClauses(clauses: Atom[], bindings: VariableBindings): VariableBindings[] {
+    return clauses.reduce<VariableBindings[]>(
+      (partials, clause) => partials.flatMap((partial) => this.matchClause(clause, partial)),
+      [bindings],
+    );
+  }
+
+  private matchClause(clause: Atom, bindings: VariableBindings): VariableBindings[] {
+    const pattern = this.resolve(clause, bindings);
+
+    if (!this.hasVariables(pattern)) {
+      return this.findGround(pattern) ? [bindings] : [];
+    }
+
+    return this.matcher.match(pattern).map((match) => ({ ...bindings, ...match.bindings }));
+  }
+
+  /**
+   * Two-way unification, variables on either side can be bound
+   */
+  private unify(a: Atom, b: Atom, bindings: VariableBindings): VariableBindings | null {
+    const left = this.walk(a, bindings);
+    const right = this.walk(b, bindings);
+
+    if (this.isVariable(left) && this.isVariable(right) && left.name === right.name) {
+      return bindings;
+    }
+
+    if (this.isVariable(left)) {
+      return this.occurs(left.name!, right, bindings) ? null : { ...bindings, [left.name!]: right };
+    }
+
+    if (this.isVariable(right)) {
+      return this.occurs(right.name!, left, bindings) ? null : { ...bindings, [right.name!]: left };
+    }
+
+    if (left.type !== right.type || this.isLink(left) !== this.isLink(right)) {
+      return null;
+    }
+
+    if (this.isLink(left) && this.isLink(right)) {
+      if (left.outgoing.length !== right.outgoing.length) {
+        return null;
+      }
+
+      let current: VariableBindings | null = bindings;
+
+      for (let i = 0; i < left.outgoing.length && current; i++) {
+        current = this.unify(left.outgoing[i], right.outgoing[i], current);
+      }
+
+      return current;
+    }
+
+    return left.name === right.name ? bindings : null;
+  }
+
+  private occurs(name: string, atom: Atom, bindings: VariableBindings): boolean {
+    const resolved = this.walk(atom, bindings);
+
+    if (this.isVariable(resolved)) {
+      return resolved.name === name;
+    }
+
+    return this.isLink(resolved) && resolved.outgoing.some((outgoingAtom) => this.occurs(name, outgoingAtom, bindings));
+  }
+
+  /**
+   * Follow variable bindings until reaching an unbound variable or a non-variable atom
+   */
+  private walk(atom: Atom, bindings: VariableBindings): Atom {
+    let current = atom;
+
+    while (this.isVariable(current) && bindings[current.name!]) {
+      current = bindings[current.name!];
+    }
+
+    return current;
+  }
+
+  /**
+   * Substitute bound variables throughout an atom, following chains of bindings
+   */
+  private resolve(atom: Atom, bindings: VariableBindings): Atom {
+    const current = this.walk(atom, bindings);
+
+    if (this.isLink(current)) {
+      return {
+        ...current,
+        outgoing: current.outgoing.map((outgoingAtom) => this.resolve(outgoingAtom, bindings)),
+      } as Link;
+    }
+
+    return current;
+  }
+
+  /**
+   * Look up the stored atom with the same content as a variable-free pattern
+   */
+  private findGround(pattern: Atom): Atom | undefined {
+    if (this.isLink(pattern)) {
+      const outgoing = pattern.outgoing.map((outgoingAtom) => this.findGround(outgoingAtom));
+
+      return outgoing.every((outgoingAtom) => outgoingAtom !== undefined)
+        ? this.atomSpace.getLink(pattern.type, outgoing as Atom[])
+        : undefined;
+    }
+
+    return pattern.name === undefined
+      ? this.atomSpace.getAtom(pattern.id)
+      : this.atomSpace.getNode(pattern.type, pattern.name);
+  }
+
+  /**
+   * Store a pattern and everything it references, giving the truth value to the root only
+   */
+  private instantiate(pattern: Atom, truthValue?: TruthValue): Atom {
+    if (this.isLink(pattern)) {
+      return this.atomSpace.createLink(
+        pattern.type,
+        pattern.outgoing.map((outgoingAtom) => this.instantiate(outgoingAtom)),
+        truthValue,
+      );
+    }
+
+    return this.atomSpace.createNode(pattern.type, pattern.name, truthValue);
+  }
+
+  /**
+   * Give every variable of a rule a fresh name so that it cannot clash with the goal
+   */
+  private renameApart(rule: Link): RuleInstance {
+    const suffix = `#${++this.renameCounter}`;
+    const bindings: VariableBindings = {};
+    const variables = new Map<string, string>();
+
+    this.matcher.getVariables(rule).forEach((name) => {
+      bindings[name] = { id: `${name}${suffix}`, type: AtomType.VARIABLE_NODE, name: `${name}${suffix}` };
+      variables.set(`${name}${suffix}`, name);
+    });
+
+    const [premise, conclusion] = rule.outgoing.map((outgoingAtom) => this.matcher.substitute(outgoingAtom, bindings));
+
+    return { rule, premise, conclusion, variables };
+  }
+
+  private toInstance(rule: Link): RuleInstance {
+    const variables = new Map(this.matcher.getVariables(rule).map((name) => [name, name]));
+    return { rule, premise: rule.outgoing[0], conclusion: rule.outgoing[1], variables };
+  }
+
+  private getClauses(premise: Atom): Atom[] {
+    return premise.type === AtomType.AND_LINK && this.isLink(premise) ? premise.outgoing : [premise];
+  }
+
+  private createState(options: ChainingOptions): ChainingState {
+    return {
+      trace: [],
+      derived: new Map(),
+      applied: new Set(),
+      maxSteps: options.maxSteps ?? this.config.maxSteps,
+      limitReached: false,
+    };
+  }
+
+  private toResult(state: ChainingState): InferenceResult {
+    return {
+      derived: Array.from(state.derived.values()),
+      trace: state.trace,
+      steps: state.trace.length,
+      exhausted: !state.limitReached,
+    };
+  }
+
+  private getBindingsKey(bindings: VariableBindings): string {
+    return Object.keys(bindings)
+      .sort()
+      .map((name) => `${name}=${describeAtom(bindings[name])}`)
+      .join(',');
+  }
+
+  private isRule(atom: Atom): boolean {
+    return (
+      atom.type === AtomType.IMPLICATION_LINK &&
+      this.isLink(atom) &&
+      atom.outgoing.length === 2 &&
+      this.hasVariables(atom)
+    );
+  }
+
+  private hasVariables(atom: Atom): boolean {
+    return this.matcher.getVariables(atom).length > 0;
+  }
+
+  private isVariable(atom: Atom): boolean {
+    return atom.type === AtomType.VARIABLE_NODE && atom.name !== undefined;
+  }
+
+  private isLink(atom: Atom): atom is Link {
+    return 'outgoing' in atom;
+  }
+}
+
+/**
+ * Render an atom as a compact s-expression, nodes are shown by type and name so that
+ * nodes of different types with the same name stay distinct
+ */
+export function describeAtom(atom: Atom): string {
+  if ('outgoing' in atom) {
+    return `(${atom.type} ${(atom as Link).outgoing.map(describeAtom).join(' ')})`;
+  }
+
+  return atom.name === undefined ? `(${atom.type})` : `(${atom.type} ${JSON.stringify(atom.name)})`;
+}
+
+/**
+ * Render an inference trace as one line per step, for display in the UI
+ */
+export function formatInferenceTrace(trace: InferenceStep[]): string[] {
+  return trace.map((step) => {
+    const bindings = Object.entries(step.bindings)
+      .map(([name, atom]) => `${name}=${describeAtom(atom)}`)
+      .join(', ');
+    const { strength, confidence } = step.truthValue;
+
+    return (
+      `${step.step}. [${step.direction}] ${describeAtom(step.conclusion)} ` +
+      `<${strength.toFixed(3)}, ${confidence.toFixed(3)}> from ${step.premises.map(describeAtom).join(', ')}` +
+      (bindings ? ` {${bindings}}` : '')
+    );
+  });
+}
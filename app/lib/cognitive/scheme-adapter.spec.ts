@@ -7,7 +7,7 @@ import { describe, expect, it, beforeEach } from 'vitest';
 import { SchemeAdapter } from './scheme-adapter';
 import { AtomSpace } from './atomspace';
 import { AtomType } from './types';
-import type { SchemeExpression } from './types';
+import type { Atom, Link, SchemeDiagnostic, SchemeExpression, SchemeImportProgress, TranslationResult } from './types';
 
 describe('SchemeAdapter', () => {
   let atomSpace: AtomSpace;
@@ -22,7 +22,7 @@ describe('SchemeAdapter', () => {
     it('should parse simple symbols', () => {
       const result = adapter.parseScheme('hello');
       expect(result.success).toBe(true);
-      expect(result.result).toEqual({
+      expect(result.result).toMatchObject({
         type: 'symbol',
         value: 'hello',
       });
@@ -31,7 +31,7 @@ describe('SchemeAdapter', () => {
     it('should parse numbers', () => {
       const result = adapter.parseScheme('42');
       expect(result.success).toBe(true);
-      expect(result.result).toEqual({
+      expect(result.result).toMatchObject({
         type: 'number',
         value: 42,
       });
@@ -40,7 +40,7 @@ describe('SchemeAdapter', () => {
     it('should parse strings', () => {
       const result = adapter.parseScheme('"hello world"');
       expect(result.success).toBe(true);
-      expect(result.result).toEqual({
+      expect(result.result).toMatchObject({
         type: 'string',
         value: 'hello world',
       });
@@ -49,7 +49,7 @@ describe('SchemeAdapter', () => {
     it('should parse simple lists', () => {
       const result = adapter.parseScheme('(+ 1 2)');
       expect(result.success).toBe(true);
-      expect(result.result).toEqual({
+      expect(result.result).toMatchObject({
         type: 'list',
         value: null,
         children: [
@@ -65,14 +65,14 @@ describe('SchemeAdapter', () => {
       expect(result.success).toBe(true);
       expect(result.result?.type).toBe('list');
       expect(result.result?.children).toHaveLength(4);
-      expect(result.result?.children?.[0]).toEqual({ type: 'symbol', value: 'if' });
+      expect(result.result?.children?.[0]).toMatchObject({ type: 'symbol', value: 'if' });
       expect(result.result?.children?.[1]?.type).toBe('list');
     });
 
     it('should handle empty lists', () => {
       const result = adapter.parseScheme('()');
       expect(result.success).toBe(true);
-      expect(result.result).toEqual({
+      expect(result.result).toMatchObject({
         type: 'list',
         value: null,
         children: [],
@@ -89,7 +89,39 @@ describe('SchemeAdapter', () => {
       const result = adapter.parseScheme(complexScheme);
       expect(result.success).toBe(true);
       expect(result.result?.type).toBe('list');
-      expect(result.result?.children?.[0]).toEqual({ type: 'symbol', value: 'lambda' });
+      expect(result.result?.children?.[0]).toMatchObject({ type: 'symbol', value: 'lambda' });
+    });
+
+    it('should parse comments, quote forms and literals', () => {
+      const result = adapter.parseScheme(`; knowledge
+        (assert 'cat #t #\\a "say \\"hi\\"" #(1 2)) #| trailing |#`);
+
+      expect(result.success).toBe(true);
+      expect(result.result?.children?.slice(1).map((child) => child.type)).toEqual([
+        'quote',
+        'boolean',
+        'char',
+        'string',
+        'vector',
+      ]);
+      expect(result.result?.children?.[4].value).toBe('say "hi"');
+    });
+
+    it('should parse every top-level form of a program', () => {
+      const result = adapter.parseProgram('(define x 1) ; first\n(inheritance cat animal)\n"done"');
+
+      expect(result.success).toBe(true);
+      expect(result.result?.map((form) => form.type)).toEqual(['list', 'list', 'string']);
+      expect(result.result?.[1].span?.start.line).toBe(2);
+      expect(result.metadata?.formCount).toBe(3);
+      expect(adapter.parseProgram('; nothing here').result).toEqual([]);
+    });
+
+    it('should return the first form and count the rest with parseScheme', () => {
+      const result = adapter.parseScheme('first (second) third');
+
+      expect(result.result).toMatchObject({ type: 'symbol', value: 'first' });
+      expect(result.metadata?.formCount).toBe(3);
     });
   });
 
@@ -120,7 +152,7 @@ describe('SchemeAdapter', () => {
       expect(result.result).toHaveLength(1);
 
       const atom = result.result![0];
-      expect(atom.type).toBe(AtomType.CONCEPT_NODE);
+      expect(atom.type).toBe(AtomType.NUMBER_NODE);
       expect((atom as any).value).toBe(42);
     });
 
@@ -183,6 +215,56 @@ describe('SchemeAdapter', () => {
       const inheritanceLinks = result.result!.filter((atom) => atom.type === AtomType.INHERITANCE_LINK);
       expect(inheritanceLinks).toHaveLength(1);
     });
+
+    it('should keep the head symbol out of typed links', () => {
+      const result = adapter.parseAndConvert('(inheritance dog animal)');
+      const link = result.result!.find((atom) => atom.type === AtomType.INHERITANCE_LINK) as Link;
+
+      expect(link.outgoing.map((atom) => atom.name)).toEqual(['dog', 'animal']);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'inheritance')).toBeUndefined();
+    });
+
+    it('should convert logical and set-theoretic forms to their link types', () => {
+      const cases: Array<[string, AtomType]> = [
+        ['(and rainy cold)', AtomType.AND_LINK],
+        ['(or rainy cold)', AtomType.OR_LINK],
+        ['(not rainy)', AtomType.NOT_LINK],
+        ['(implication rainy wet)', AtomType.IMPLICATION_LINK],
+        ['(similarity cat dog)', AtomType.SIMILARITY_LINK],
+        ['(member cat pets)', AtomType.MEMBER_LINK],
+        ['(execution (schema "sort") (list 3 1 2))', AtomType.EXECUTION_LINK],
+      ];
+
+      for (const [scheme, type] of cases) {
+        const result = adapter.parseAndConvert(scheme);
+
+        expect(result.success).toBe(true);
+        expect(result.result!.filter((atom) => atom.type === type)).toHaveLength(1);
+      }
+    });
+
+    it('should convert schema and anchor forms to nodes', () => {
+      const result = adapter.parseAndConvert('(member (anchor "inbox") (schema "sort"))');
+
+      expect(result.success).toBe(true);
+      expect(atomSpace.getNode(AtomType.ANCHOR_NODE, 'inbox')).toBeDefined();
+      expect(atomSpace.getNode(AtomType.SCHEMA_NODE, 'sort')).toBeDefined();
+    });
+
+    it('should reject links with the wrong arity', () => {
+      const result = adapter.parseAndConvert('(inheritance dog)');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('InheritanceLink expects 2 outgoing atoms, got 1');
+      expect(atomSpace.getAllAtoms()).toHaveLength(0);
+    });
+
+    it('should reject node forms without a single name', () => {
+      const result = adapter.parseAndConvert('(schema)');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('(schema ...) expects a single name');
+    });
   });
 
   describe('Atoms to Scheme conversion', () => {
@@ -220,6 +302,16 @@ describe('SchemeAdapter', () => {
       expect(result.result?.children).toHaveLength(2);
     });
 
+    it('should return the pretty-printed text with the expression', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'a-cat-with-a-rather-long-name-indeed');
+      const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'an-animal-with-a-rather-long-name');
+      const link = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+
+      expect(adapter.atomsToScheme([cat, animal, link]).metadata?.text).toBe(
+        ['(inheritance', '  a-cat-with-a-rather-long-name-indeed', '  an-animal-with-a-rather-long-name)'].join('\n'),
+      );
+    });
+
     it('should convert lambda links with type information', () => {
       const varNode = atomSpace.createNode(AtomType.VARIABLE_NODE, 'x');
       const bodyNode = atomSpace.createNode(AtomType.CONCEPT_NODE, 'x');
@@ -231,6 +323,22 @@ describe('SchemeAdapter', () => {
       expect(result.result?.type).toBe('list');
       expect(result.result?.children?.[0]).toEqual({ type: 'symbol', value: 'lambda' });
     });
+
+    it('should convert number nodes to numbers', () => {
+      const node = atomSpace.createNode(AtomType.NUMBER_NODE, '3.5');
+
+      expect(adapter.atomsToScheme([node]).result).toEqual({ type: 'number', value: 3.5 });
+    });
+
+    it('should convert schema and anchor nodes to their forms', () => {
+      const schema = atomSpace.createNode(AtomType.SCHEMA_NODE, 'sort');
+      const anchor = atomSpace.createNode(AtomType.ANCHOR_NODE, 'inbox');
+      const execution = atomSpace.createLink(AtomType.EXECUTION_LINK, [schema, anchor]);
+
+      const result = adapter.atomsToScheme([schema, anchor, execution]);
+
+      expect(adapter.expressionToString(result.result!)).toBe('(execution (schema "sort") (anchor "inbox"))');
+    });
   });
 
   describe('Round-trip translation', () => {
@@ -272,6 +380,16 @@ describe('SchemeAdapter', () => {
       expect(finalString).toContain('lambda');
     });
 
+    it('should preserve typed links in round-trip', () => {
+      const originalScheme = '(implication (and rainy (not sunny)) (similarity wet (member (anchor "x") 42)))';
+
+      const atomsResult = adapter.parseAndConvert(originalScheme);
+      expect(atomsResult.success).toBe(true);
+
+      const backResult = adapter.atomsToScheme(atomsResult.result!);
+      expect(adapter.expressionToString(backResult.result!)).toBe(originalScheme);
+    });
+
     it('should preserve nested structures in round-trip', () => {
       const originalScheme = '(if (> x 0) "positive" "negative")';
 
@@ -288,6 +406,96 @@ describe('SchemeAdapter', () => {
       expect(backResult.result?.type).toBe('list');
       expect(backResult.result?.children).toHaveLength(4);
     });
+
+    it('should keep strings and symbols of the same name apart', () => {
+      const atoms = adapter.parseAndConvert('(same "cat" cat)').result!;
+
+      expect(atoms.map((atom) => atom.type)).toContain(AtomType.STRING_NODE);
+      expect(adapter.expressionToString(adapter.atomsToScheme(atoms).result!)).toBe('(same "cat" cat)');
+    });
+
+    it('should record how forms spelled their atoms through the AtomSpace, the last spelling winning', () => {
+      const changes: unknown[] = [];
+
+      atomSpace.on('notation-changed', ({ current }) => changes.push(current));
+
+      const [cat] = adapter.parseAndConvert('(concept cat)').result!;
+      expect(atomSpace.getAtom(cat.id)!.notation).toEqual({ keyword: 'concept', nameType: 'symbol' });
+
+      adapter.parseAndConvert('(inheritance cat animal)');
+      expect(atomSpace.getAtom(cat.id)!.notation).toBeUndefined();
+      expect(changes).toEqual([{ keyword: 'concept', nameType: 'symbol' }, undefined]);
+    });
+
+    it('should roll back the spellings of a failed conversion', () => {
+      const [cat] = adapter.parseAndConvert('cat').result!;
+
+      expect(adapter.parseAndConvert('(inheritance (concept cat) a b)').success).toBe(false);
+      expect(atomSpace.getAtom(cat.id)!.notation).toBeUndefined();
+    });
+
+    it('should keep spellings recorded in an overlay out of the parent', () => {
+      const [cat] = adapter.parseAndConvert('cat').result!;
+      const frame = new AtomSpace({ parent: atomSpace });
+      const frameAdapter = new SchemeAdapter(frame);
+
+      const atoms = frameAdapter.parseAndConvert('(concept cat)').result!;
+
+      expect(frameAdapter.expressionToString(frameAdapter.atomsToScheme(atoms).result!)).toBe('(concept cat)');
+      expect(cat.notation).toBeUndefined();
+      expect(adapter.expressionToString(adapter.atomsToScheme([cat]).result!)).toBe('cat');
+
+      frame.commitToParent();
+
+      expect(atomSpace.getAtom(cat.id)!.notation).toEqual({ keyword: 'concept', nameType: 'symbol' });
+    });
+
+    it('should write every expression kind back as it was written', () => {
+      const cases = [
+        'hello',
+        '|two words|',
+        '|42|',
+        '"hello world"',
+        '"line\\nbreak \\"quoted\\""',
+        '42',
+        '-1.5',
+        '#t',
+        '#f',
+        '#\\a',
+        '#\\space',
+        '()',
+        "'cat",
+        '`(a ,b ,@c)',
+        '#(1 "two" three)',
+        '(a b . "c")',
+        '(likes cat "cat" #\\c #f)',
+        '(inheritance "cat" animal)',
+        '(list a b)',
+        '(list)',
+        '(list quote x)',
+        '(concept "cat")',
+        '(concept |two words|)',
+        '(predicate p)',
+        '(predicate "p")',
+        '(evaluation (predicate likes) (list (concept "cat") "milk" milk))',
+        '(member (anchor "x") (predicate "likes"))',
+        '((list a b) (a b))',
+        '(inheritance cat (concept "cat"))',
+        '#xff',
+        '(1 2.0)',
+        '(2 2.0 #x2 #e2)',
+        '(lambda (x) (display "x" #(x \'x)))',
+      ];
+
+      for (const source of cases) {
+        const atomsResult = adapter.parseAndConvert(source);
+        expect(atomsResult.success).toBe(true);
+
+        const backResult = adapter.atomsToScheme(atomsResult.result!);
+        expect(backResult.success).toBe(true);
+        expect(adapter.expressionToString(backResult.result!)).toBe(source);
+      }
+    });
   });
 
   describe('Expression to string conversion', () => {
@@ -327,6 +535,21 @@ describe('SchemeAdapter', () => {
       };
       expect(adapter.expressionToString(expr)).toBe('()');
     });
+
+    it('should write every expression kind back as it was read', () => {
+      const source = `(f 'a \`(b ,c ,@d) #t #f #\\space #\\x #(1 2) (a b . c) "line\\nbreak \\"quoted\\"")`;
+
+      expect(adapter.expressionToString(adapter.parseScheme(source).result!)).toBe(source);
+    });
+
+    it('should wrap expressions wider than the configured layout', () => {
+      const narrow = new SchemeAdapter(atomSpace, { layout: { maxWidth: 30 } });
+      const expr = narrow.parseScheme('(implication (predicate "likes") (predicate "enjoys"))').result!;
+
+      expect(narrow.expressionToString(expr)).toBe(
+        ['(implication', '  (predicate "likes")', '  (predicate "enjoys"))'].join('\n'),
+      );
+    });
   });
 
   describe('Parse and convert integration', () => {
@@ -350,6 +573,73 @@ describe('SchemeAdapter', () => {
       const evaluationLinks = result.result!.filter((atom) => atom.type === AtomType.EVALUATION_LINK);
       expect(evaluationLinks).toHaveLength(1);
     });
+
+    it('should not duplicate atoms when the same expression is loaded twice', () => {
+      const schemeString = '(inheritance dog animal)';
+
+      const first = adapter.parseAndConvert(schemeString);
+      const sizeAfterFirst = atomSpace.getAllAtoms().length;
+      const second = adapter.parseAndConvert(schemeString);
+
+      expect(atomSpace.getAllAtoms()).toHaveLength(sizeAfterFirst);
+      expect(second.result!.map((atom) => atom.id)).toEqual(first.result!.map((atom) => atom.id));
+    });
+
+    it('should load every form of a program', () => {
+      const result = adapter.parseAndConvertProgram(`
+        ; pets
+        (inheritance cat animal)
+        (inheritance dog animal)
+        (member dog pets)`);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.formCount).toBe(3);
+      expect(atomSpace.getAtomsByType(AtomType.INHERITANCE_LINK)).toHaveLength(2);
+      expect(result.result!.filter((atom) => atom.name === 'animal')).toHaveLength(1);
+    });
+
+    it('should report the success of each form and keep the forms that converted', () => {
+      const strict = new SchemeAdapter(atomSpace, { validationLevel: 'strict' });
+      const result = strict.parseAndConvertProgram('(inheritance cat animal)\n(inheritance a b c)\n(member cat pets)');
+      const forms: TranslationResult<Atom[]>[] = result.metadata?.forms;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/^1 of 3 forms failed: Validation failed/);
+      expect(forms.map((form) => form.success)).toEqual([true, false, true]);
+      expect(forms[1].metadata?.span.start).toEqual({ offset: 25, line: 2, column: 1 });
+      expect(atomSpace.getAtomsByType(AtomType.INHERITANCE_LINK)).toHaveLength(1);
+      expect(atomSpace.getAtomsByType(AtomType.MEMBER_LINK)).toHaveLength(1);
+    });
+
+    it('should import a stream form by form and report progress', async () => {
+      const chunks = ['(inheritance cat an', 'imal)\n(inheritance a b c)\n(mem', 'ber cat (pets)'];
+      const stream = new ReadableStream<string>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(chunk));
+          controller.close();
+        },
+      });
+      const progress: SchemeImportProgress[] = [];
+
+      const result = await adapter.importStream(stream, (update) => progress.push(update));
+
+      expect(result.success).toBe(false);
+      expect(result.result).toEqual({ charsRead: 63, formCount: 3, failedCount: 2, atomCount: 3 });
+      expect(result.metadata?.errors).toEqual([
+        'Missing closing parenthesis at line 3, column 1',
+        expect.stringMatching(/^Form at line 2: /),
+      ]);
+      expect(progress.map((update) => update.formCount)).toEqual([0, 2, 2, 3]);
+      expect(atomSpace.getAtomsByType(AtomType.INHERITANCE_LINK)).toHaveLength(1);
+    });
+
+    it('should not convert anything when the program has syntax errors', () => {
+      const result = adapter.parseAndConvertProgram('(inheritance cat animal)\n(member cat');
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.diagnostics).toHaveLength(1);
+      expect(atomSpace.getAllAtoms()).toEqual([]);
+    });
   });
 
   describe('Error handling', () => {
@@ -369,6 +659,205 @@ describe('SchemeAdapter', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Unexpected closing parenthesis');
     });
+
+    it('should report where syntax errors are', () => {
+      const result = adapter.parseScheme('(inheritance\n  (concept "cat)\n  animal)');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unterminated string at line 2, column 12');
+      expect(result.metadata?.position).toEqual({ offset: 24, line: 2, column: 12 });
+    });
+
+    it('should leave no partial atoms behind when conversion fails', () => {
+      const malformed = {
+        type: 'list',
+        value: null,
+        children: [{ type: 'symbol', value: 'inheritance' }, { type: 'symbol', value: 'dog' }, null],
+      } as unknown as SchemeExpression;
+
+      const result = adapter.schemeToAtoms(malformed);
+
+      expect(result.success).toBe(false);
+      expect(atomSpace.getAllAtoms()).toEqual([]);
+    });
+  });
+
+  describe('Structural validation', () => {
+    it('should report every issue up front in strict mode', () => {
+      const strictAdapter = new SchemeAdapter(atomSpace, { validationLevel: 'strict' });
+      const parsed = strictAdapter.parseScheme('(and (inheritance a b c) (evaluation likes (list a b)) (schema))');
+
+      const result = strictAdapter.schemeToAtoms(parsed.result!);
+
+      expect(result.success).toBe(false);
+      expect(result.metadata?.validationErrors).toEqual([
+        expect.objectContaining({ code: 'arity', type: AtomType.INHERITANCE_LINK, actual: 3, path: [1] }),
+        expect.objectContaining({ code: 'argument-type', type: AtomType.EVALUATION_LINK, position: 0, path: [2] }),
+        expect.objectContaining({ code: 'malformed-form', type: AtomType.SCHEMA_NODE, path: [3] }),
+      ]);
+      expect(atomSpace.getAllAtoms()).toHaveLength(0);
+    });
+
+    it('should accept well-formed expressions in strict mode', () => {
+      const strictAdapter = new SchemeAdapter(atomSpace, { validationLevel: 'strict' });
+
+      const result = strictAdapter.parseAndConvert('(evaluation (predicate "likes") (list (concept "Alice") bob))');
+
+      expect(result.success).toBe(true);
+      expect(atomSpace.getNode(AtomType.PREDICATE_NODE, 'likes')).toBeDefined();
+    });
+
+    it('should return the first rejected atom as a structured error otherwise', () => {
+      const result = adapter.parseAndConvert('(evaluation likes (list a b))');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('EvaluationLink expects PredicateNode at position 0, got ConceptNode');
+      expect(result.metadata?.validationErrors).toHaveLength(1);
+      expect(atomSpace.getAllAtoms()).toHaveLength(0);
+    });
+
+    it('should write typed nodes back in their forms', () => {
+      const result = adapter.parseAndConvert('(evaluation (predicate "likes") (list (variable "$x") (concept "Bob")))');
+      const back = adapter.atomsToScheme(result.result!);
+
+      expect(adapter.expressionToString(back.result!)).toBe(
+        '(evaluation (predicate "likes") (list (variable "$x") (concept "Bob")))',
+      );
+    });
+  });
+
+  describe('Diagnostics', () => {
+    it('should report every syntax error when parsing fails', () => {
+      const result = adapter.parseScheme('(inheritance cat)) (concept "dog');
+
+      expect(result.error).toBe('Unterminated string at line 1, column 29');
+      expect(result.metadata?.diagnostics.map((diagnostic: SchemeDiagnostic) => diagnostic.message)).toEqual([
+        'Unexpected closing parenthesis',
+        'Missing closing parenthesis',
+        'Unterminated string',
+      ]);
+    });
+
+    it('should locate validation issues at the offending expression', () => {
+      const source = '(inheritance cat animal)\n(evaluation likes (list a b))\n(and (inheritance a b c))';
+      const diagnostics = adapter.diagnose(source);
+
+      expect(diagnostics.map((diagnostic) => [diagnostic.severity, diagnostic.source])).toEqual([
+        ['warning', 'validation'],
+        ['warning', 'validation'],
+      ]);
+      expect(
+        diagnostics.map((diagnostic) => source.slice(diagnostic.range.start.offset, diagnostic.range.end.offset)),
+      ).toEqual(['likes', '(inheritance a b c)']);
+      expect(diagnostics[1].range.start).toEqual({ offset: 60, line: 3, column: 6 });
+    });
+
+    it('should combine syntax errors with validation issues', () => {
+      const strict = new SchemeAdapter(atomSpace, { validationLevel: 'strict' });
+      const diagnostics = strict.diagnose('(schema) (concept #\\bogus)\n)');
+
+      expect(diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          source: 'validation',
+          message: '(schema ...) expects a single name',
+        }),
+        expect.objectContaining({ source: 'validation', message: '(concept ...) expects a single name' }),
+        expect.objectContaining({ severity: 'error', source: 'syntax', message: 'Unknown character #\\bogus' }),
+        expect.objectContaining({ source: 'syntax', fix: 'Remove this parenthesis' }),
+      ]);
+    });
+
+    it('should skip validation when it is off', () => {
+      const unvalidated = new SchemeAdapter(atomSpace, { validationLevel: 'none' });
+
+      expect(unvalidated.diagnose('(inheritance a b c)')).toEqual([]);
+      expect(adapter.diagnose('(inheritance a b)')).toEqual([]);
+    });
+  });
+
+  describe('OpenCog dialect', () => {
+    let openCog: SchemeAdapter;
+
+    beforeEach(() => {
+      openCog = new SchemeAdapter(atomSpace, { dialect: 'opencog' });
+    });
+
+    it('should map type-named heads to atom types', () => {
+      const result = openCog.parseAndConvert(
+        '(EvaluationLink (PredicateNode "likes") (ListLink (ConceptNode "Alice") (ConceptNode "Bob")))',
+      );
+      const root = result.result!.at(-1) as Link;
+
+      expect(result.success).toBe(true);
+      expect(root.type).toBe(AtomType.EVALUATION_LINK);
+      expect(root.outgoing.map((atom) => atom.type)).toEqual([AtomType.PREDICATE_NODE, AtomType.LIST_LINK]);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'Alice')).toBeDefined();
+    });
+
+    it('should attach stv and ctv truth values to the atom they close', () => {
+      openCog.parseAndConvert(
+        '(InheritanceLink (ConceptNode "cat" (stv 0.7 0.6)) (ConceptNode "animal") (stv 0.9 0.8))',
+      );
+      openCog.parseAndConvert('(ConceptNode "dog" (ctv 0.5 0.4 12))');
+
+      const cat = atomSpace.getNode(AtomType.CONCEPT_NODE, 'cat')!;
+      const animal = atomSpace.getNode(AtomType.CONCEPT_NODE, 'animal')!;
+
+      expect(cat.truthValue).toEqual({ strength: 0.7, confidence: 0.6 });
+      expect(animal.truthValue).toBeUndefined();
+      expect(atomSpace.getLink(AtomType.INHERITANCE_LINK, [cat, animal])?.truthValue).toEqual({
+        strength: 0.9,
+        confidence: 0.8,
+      });
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'dog')?.truthValue).toEqual({ strength: 0.5, confidence: 0.4 });
+    });
+
+    it('should write atoms back in the same syntax', () => {
+      const source = '(InheritanceLink (ConceptNode "cat") (ConceptNode "animal") (stv 0.9 0.8))';
+      const result = openCog.parseAndConvert(source);
+      const back = openCog.atomsToScheme(result.result!);
+
+      expect(openCog.expressionToString(back.result!)).toBe(source);
+    });
+
+    it('should read number nodes written with a number', () => {
+      openCog.parseAndConvert('(NumberNode 42)');
+
+      expect(atomSpace.getNode(AtomType.NUMBER_NODE, '42')).toBeDefined();
+    });
+
+    it('should not treat keywords or unknown type names as typed atoms', () => {
+      const result = openCog.parseAndConvert('(inheritance (MadeUpNode "x") b)');
+
+      expect((result.result!.at(-1) as Link).type).toBe(AtomType.LIST_LINK);
+    });
+
+    it('should report malformed forms and truth values', () => {
+      const strict = new SchemeAdapter(atomSpace, { dialect: 'opencog', validationLevel: 'strict' });
+      const parsed = strict.parseScheme(
+        '(AndLink (ConceptNode "a" "b") (ConceptNode "c" (stv 0.5)) (InheritanceLink a))',
+      );
+
+      expect(strict.schemeToAtoms(parsed.result!).metadata?.validationErrors).toEqual([
+        expect.objectContaining({ code: 'malformed-form', type: AtomType.CONCEPT_NODE, path: [1] }),
+        expect.objectContaining({
+          code: 'malformed-form',
+          message: '(stv ...) expects a strength and a confidence',
+          path: [2],
+        }),
+        expect.objectContaining({ code: 'arity', type: AtomType.INHERITANCE_LINK, path: [3] }),
+      ]);
+      expect(openCog.parseAndConvert('(ConceptNode "a" (ctv 1 0.5))').error).toBe(
+        '(ctv ...) expects a mean, a confidence and a count',
+      );
+      expect(openCog.parseAndConvert('(ConceptNode "a" (stv 5 -2))').error).toBe(
+        '(stv ...) expects a strength and a confidence between 0 and 1',
+      );
+      expect(openCog.parseAndConvert('(ConceptNode "a" (ctv 0.5 1.5 10))').error).toBe(
+        '(ctv ...) expects a mean and a confidence between 0 and 1',
+      );
+    });
   });
 
   describe('Real data tests with cognitive grammar', () => {
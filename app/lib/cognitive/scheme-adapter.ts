@@ -3,13 +3,108 @@
  * Provides the core translation layer between Scheme syntax and hypergraph patterns
  */
 
-import type { Atom, Link, Node, SchemeExpression, SchemeAdapterConfig, TranslationResult } from './types';
+import type {
+  Atom,
+  AtomValidationIssue,
+  Link,
+  Node,
+  SchemeDiagnostic,
+  SchemeExpression,
+  SchemeAdapterConfig,
+  SchemeImportProgress,
+  SchemeNotation,
+  TranslationResult,
+  TruthValue,
+} from './types';
 import { AtomType } from './types';
 import { AtomSpace } from './atomspace';
+import { AtomValidationError } from './type-hierarchy';
+import { readScheme, tokenizeScheme, writeSchemeNumber } from './scheme-reader';
+import type { SchemeSyntaxError } from './scheme-reader';
+import { getExpressionAtPath, sortDiagnostics, syntaxErrorToDiagnostic } from './scheme-diagnostics';
+import { SchemeStreamParser, readSchemeStream } from './scheme-stream';
+import { QUOTE_PREFIXES, SCHEME_SPECIAL_FORMS, SchemePrinter } from './scheme-printer';
+
+/**
+ * Head symbols that turn a list into a typed link; the head itself is not stored as an outgoing atom
+ */
+const LINK_KEYWORDS: Record<string, AtomType> = {
+  list: AtomType.LIST_LINK,
+  lambda: AtomType.LAMBDA_LINK,
+  apply: AtomType.APPLICATION_LINK,
+  inheritance: AtomType.INHERITANCE_LINK,
+  evaluation: AtomType.EVALUATION_LINK,
+  similarity: AtomType.SIMILARITY_LINK,
+  member: AtomType.MEMBER_LINK,
+  execution: AtomType.EXECUTION_LINK,
+  implication: AtomType.IMPLICATION_LINK,
+  hebbian: AtomType.HEBBIAN_LINK,
+  and: AtomType.AND_LINK,
+  or: AtomType.OR_LINK,
+  not: AtomType.NOT_LINK,
+};
+
+/**
+ * Head symbols of single-argument forms that create a typed node, e.g. (schema "sort")
+ */
+const NODE_KEYWORDS: Record<string, AtomType> = {
+  concept: AtomType.CONCEPT_NODE,
+  predicate: AtomType.PREDICATE_NODE,
+  variable: AtomType.VARIABLE_NODE,
+  schema: AtomType.SCHEMA_NODE,
+  anchor: AtomType.ANCHOR_NODE,
+};
+
+// ListLinks and ConceptNodes are written back as plain lists and symbols
+const invert = (keywords: Record<string, AtomType>, plain: AtomType) =>
+  new Map(
+    Object.entries(keywords)
+      .filter(([, type]) => type !== plain)
+      .map(([keyword, type]) => [type, keyword]),
+  );
+
+const LINK_TYPE_KEYWORDS = invert(LINK_KEYWORDS, AtomType.LIST_LINK);
+const NODE_TYPE_KEYWORDS = invert(NODE_KEYWORDS, AtomType.CONCEPT_NODE);
+
+/**
+ * An atom converted from an expression, with the spelling atomsToScheme needs to write the
+ * expression back as it was read
+ */
+interface ConvertedAtom {
+  atom: Atom;
+  notation?: SchemeNotation;
+}
+
+// notations only list what differs from the default spelling
+const compactNotation = (notation: SchemeNotation): SchemeNotation | undefined => {
+  const entries = Object.entries(notation).filter(([, value]) => value !== undefined);
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+const getLinkNotation = (keyword: string | undefined, outgoing: ConvertedAtom[]) =>
+  compactNotation({
+    keyword,
+    outgoing: outgoing.some(({ notation }) => notation) ? outgoing.map(({ notation }) => notation ?? null) : undefined,
+  });
+
+/**
+ * A list that creates a typed atom: a keyword form such as (inheritance a b) or an OpenCog form
+ * such as (InheritanceLink a b (stv 0.9 0.8))
+ */
+interface AtomForm {
+  head: string;
+  type: AtomType;
+  isNode: boolean;
+  args: SchemeExpression[]; // Name or outgoing expressions, without the head and the truth value
+  truthValue?: TruthValue;
+  issue?: AtomValidationIssue; // Set when the truth value form is malformed
+}
 
 export class SchemeAdapter {
   private atomSpace: AtomSpace;
   private config: SchemeAdapterConfig;
+  private printer: SchemePrinter;
 
   constructor(atomSpace: AtomSpace, config: Partial<SchemeAdapterConfig> = {}) {
     this.atomSpace = atomSpace;
@@ -17,22 +112,76 @@ export class SchemeAdapter {
       enableTruthValues: true,
       defaultConfidence: 0.8,
       validationLevel: 'permissive',
+      dialect: 'keyword',
       ...config,
     };
+    this.printer = new SchemePrinter({
+      ...this.config.layout,
+      specialForms: { ...this.getKeywordLayout(), ...this.config.layout?.specialForms },
+    });
   }
 
   /**
    * Parse a Scheme expression string into a structured representation
+   *
+   * Only the first top-level form is returned, metadata.formCount tells how many the source has;
+   * use parseProgram to read them all. Syntax errors are reported as by parseProgram.
    */
   parseScheme(expression: string): TranslationResult<SchemeExpression> {
+    const parseResult = this.parseProgram(expression);
+
+    if (!parseResult.success || !parseResult.result) {
+      return {
+        success: false,
+        error: parseResult.error,
+        metadata: parseResult.metadata,
+      };
+    }
+
+    const [parsed] = parseResult.result;
+
+    if (!parsed) {
+      return {
+        success: false,
+        error: 'Unexpected end of input',
+      };
+    }
+
+    return {
+      success: true,
+      result: parsed,
+      metadata: parseResult.metadata,
+    };
+  }
+
+  /**
+   * Parse every top-level form of a Scheme source
+   *
+   * Expressions carry the source range they were read from in span. On syntax errors the first
+   * error is reported, with its position in metadata.position and every error found in
+   * metadata.diagnostics.
+   */
+  parseProgram(source: string): TranslationResult<SchemeExpression[]> {
     try {
-      const tokens = this.tokenize(expression);
-      const parsed = this.parseTokens(tokens);
+      const errors: SchemeSyntaxError[] = [];
+      const tokens = tokenizeScheme(source, { errors });
+      const forms = readScheme(tokens, { errors });
+
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: errors[0].message,
+          metadata: {
+            position: errors[0].position,
+            diagnostics: sortDiagnostics(errors.map(syntaxErrorToDiagnostic)),
+          },
+        };
+      }
 
       return {
         success: true,
-        result: parsed,
-        metadata: { tokenCount: tokens.length },
+        result: forms,
+        metadata: { tokenCount: tokens.length, formCount: forms.length },
       };
     } catch (error) {
       return {
@@ -42,12 +191,62 @@ export class SchemeAdapter {
     }
   }
 
+  /**
+   * Find every syntax error in a Scheme source and every atom that fails validation, ordered by
+   * their position in the source
+   *
+   * Validation issues are errors in strict mode and warnings in permissive mode, and are skipped
+   * when validation is off. An issue about an outgoing atom covers that argument, other issues the
+   * whole form.
+   */
+  diagnose(source: string): SchemeDiagnostic[] {
+    const errors: SchemeSyntaxError[] = [];
+    const forms = readScheme(tokenizeScheme(source, { errors }), { errors });
+    const diagnostics = errors.map(syntaxErrorToDiagnostic);
+
+    if (this.config.validationLevel !== 'none') {
+      const severity = this.config.validationLevel === 'strict' ? 'error' : 'warning';
+
+      for (const form of forms) {
+        for (const issue of this.validateExpression(form)) {
+          const path = issue.path ?? [];
+
+          // the head of the form is child 0, so outgoing atom i is child i + 1
+          const target =
+            (issue.position !== undefined ? getExpressionAtPath(form, [...path, issue.position + 1]) : undefined) ??
+            getExpressionAtPath(form, path);
+
+          diagnostics.push({ severity, range: (target ?? form).span!, message: issue.message, source: 'validation' });
+        }
+      }
+    }
+
+    return sortDiagnostics(diagnostics);
+  }
+
   /**
    * Convert a Scheme expression to AtomSpace atoms
+   *
+   * In strict mode the whole expression is validated against the link signatures first and
+   * every issue is reported; otherwise conversion stops at the first atom the AtomSpace rejects.
+   * Validation issues are returned in metadata.validationErrors.
    */
   schemeToAtoms(expression: SchemeExpression): TranslationResult<Atom[]> {
+    if (this.config.validationLevel === 'strict') {
+      const issues = this.validateExpression(expression);
+
+      if (issues.length > 0) {
+        return {
+          success: false,
+          error: `Validation failed: ${issues.map((issue) => issue.message).join('; ')}`,
+          metadata: { validationErrors: issues },
+        };
+      }
+    }
+
     try {
-      const atoms = this.convertExpressionToAtoms(expression);
+      // a failed conversion must not leave partial atoms behind
+      const atoms = this.atomSpace.transaction(() => this.convertExpressionToAtoms(expression));
 
       return {
         success: true,
@@ -58,23 +257,85 @@ export class SchemeAdapter {
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown conversion error',
+        metadata: error instanceof AtomValidationError ? { validationErrors: error.issues } : undefined,
       };
     }
   }
 
   /**
-   * Convert AtomSpace atoms back to Scheme expressions
+   * Check the atoms an expression would create against the type registry, without creating them
+   */
+  validateExpression(expression: SchemeExpression): AtomValidationIssue[] {
+    const registry = this.atomSpace.getTypeRegistry();
+    const issues: AtomValidationIssue[] = [];
+
+    const inferType = (expr: SchemeExpression, path: number[]): AtomType => {
+      if (expr.type === 'number') {
+        return AtomType.NUMBER_NODE;
+      }
+
+      if (expr.type === 'string') {
+        return AtomType.STRING_NODE;
+      }
+
+      if (expr.type === 'quote') {
+        inferType(expr.children![0], [...path, 0]);
+        return AtomType.LIST_LINK;
+      }
+
+      if (expr.type === 'vector' || expr.type === 'pair') {
+        this.getSequence(expr).forEach((child, index) => inferType(child, [...path, index]));
+        return expr.type === 'vector' ? AtomType.VECTOR_LINK : AtomType.PAIR_LINK;
+      }
+
+      if (expr.type !== 'list' || !expr.children || expr.children.length === 0) {
+        return expr.type === 'list' ? AtomType.LIST_LINK : AtomType.CONCEPT_NODE;
+      }
+
+      const form = this.getAtomForm(expr);
+      const issue = form && (form.issue ?? (form.isNode ? this.checkNodeForm(form) : undefined));
+
+      if (issue) {
+        issues.push({ ...issue, path });
+      }
+
+      if (form?.isNode) {
+        return form.type;
+      }
+
+      const offset = form ? 1 : 0;
+      const outgoingTypes = (form ? form.args : expr.children).map((child, index) =>
+        inferType(child, [...path, index + offset]),
+      );
+
+      if (form) {
+        issues.push(...registry.validateOutgoing(form.type, outgoingTypes).map((issue) => ({ ...issue, path })));
+      }
+
+      return form?.type ?? AtomType.LIST_LINK;
+    };
+
+    inferType(expression, []);
+
+    return issues;
+  }
+
+  /**
+   * Convert AtomSpace atoms back to Scheme expressions, written in the configured dialect
    */
   atomsToScheme(atoms: Atom[]): TranslationResult<SchemeExpression> {
     try {
       // Find the root atom (typically a list or expression)
       const rootAtom = this.findRootAtom(atoms);
-      const expression = this.convertAtomToExpression(rootAtom, atoms);
+
+      // the stored atom may be a newer copy, e.g. one an overlay took on write
+      const { notation } = this.atomSpace.getAtom(rootAtom.id) ?? rootAtom;
+      const expression = this.convertAtomToExpression(rootAtom, atoms, notation);
 
       return {
         success: true,
         result: expression,
-        metadata: { sourceAtomCount: atoms.length },
+        metadata: { sourceAtomCount: atoms.length, text: this.expressionToString(expression) },
       };
     } catch (error) {
       return {
@@ -85,35 +346,21 @@ export class SchemeAdapter {
   }
 
   /**
-   * Convert Scheme expression to a formatted string
+   * Convert Scheme expression to a formatted string, wrapped and indented to fit the configured layout
    */
   expressionToString(expression: SchemeExpression): string {
-    switch (expression.type) {
-      case 'atom':
-      case 'symbol':
-        return String(expression.value);
-
-      case 'string':
-        return `"${expression.value}"`;
-
-      case 'number':
-        return String(expression.value);
-
-      case 'list':
-        if (!expression.children) {
-          return '()';
-        }
-
-        const childStrings = expression.children.map((child) => this.expressionToString(child));
-        return `(${childStrings.join(' ')})`;
+    return this.printer.print(expression);
+  }
 
-      default:
-        return String(expression.value);
-    }
+  /**
+   * Reformat Scheme source in the configured layout, keeping its comments
+   */
+  formatSource(source: string): TranslationResult<string> {
+    return this.printer.formatSource(source);
   }
 
   /**
-   * Parse and convert a Scheme string directly to atoms
+   * Parse and convert the first form of a Scheme string directly to atoms
    */
   parseAndConvert(schemeString: string): TranslationResult<Atom[]> {
     const parseResult = this.parseScheme(schemeString);
@@ -128,179 +375,366 @@ export class SchemeAdapter {
     return this.schemeToAtoms(parseResult.result);
   }
 
-  private tokenize(expression: string): string[] {
-    // Simple tokenizer for Scheme expressions
-    const tokens: string[] = [];
-    let current = '';
-    let inString = false;
-
-    for (let i = 0; i < expression.length; i++) {
-      const char = expression[i];
-
-      if (char === '"' && (i === 0 || expression[i - 1] !== '\\')) {
-        inString = !inString;
-        current += char;
-      } else if (inString) {
-        current += char;
-      } else if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
-        if (current) {
-          tokens.push(current);
-          current = '';
-        }
-      } else if (char === '(' || char === ')') {
-        if (current) {
-          tokens.push(current);
-          current = '';
+  /**
+   * Parse a whole Scheme source, e.g. a file of definitions, and convert each top-level form to atoms
+   *
+   * Forms are converted independently, so a form that fails leaves the atoms of the others in
+   * place. The result holds the atoms of every converted form and succeeds only if all forms
+   * did; metadata.forms has the result of each form, with its source range in metadata.span.
+   * Syntax errors fail the whole source before anything is converted.
+   */
+  parseAndConvertProgram(source: string): TranslationResult<Atom[]> {
+    const parseResult = this.parseProgram(source);
+
+    if (!parseResult.success || !parseResult.result) {
+      return {
+        success: false,
+        error: parseResult.error || 'Parse failed',
+        metadata: parseResult.metadata,
+      };
+    }
+
+    const forms = parseResult.result.map((form) => {
+      const result = this.schemeToAtoms(form);
+      return { ...result, metadata: { ...result.metadata, span: form.span } };
+    });
+    const failed = forms.filter((form) => !form.success);
+    const atoms = Array.from(new Set(forms.flatMap((form) => form.result ?? [])));
+
+    return {
+      success: failed.length === 0,
+      result: atoms,
+      error:
+        failed.length > 0
+          ? `${failed.length} of ${forms.length} forms failed: ${failed.map((form) => form.error).join('; ')}`
+          : undefined,
+      metadata: { formCount: forms.length, failedCount: failed.length, forms },
+    };
+  }
+
+  /**
+   * Load a stream of Scheme source, e.g. a large knowledge file, into the AtomSpace
+   *
+   * Forms are converted as soon as they are read, so only the form being read is held in memory.
+   * Unlike parseAndConvertProgram, forms with syntax errors are skipped and counted as failed
+   * rather than stopping the import. onProgress is called after every chunk; the messages of all
+   * failures are returned in metadata.errors.
+   */
+  async importStream(
+    stream: ReadableStream<string | Uint8Array>,
+    onProgress?: (progress: SchemeImportProgress) => void,
+  ): Promise<TranslationResult<SchemeImportProgress>> {
+    const parser = new SchemeStreamParser();
+    const conversionErrors: string[] = [];
+    let convertedCount = 0;
+    let atomCount = 0;
+
+    const getProgress = (): SchemeImportProgress => {
+      const { charsRead, formCount, skippedCount } = parser.getProgress();
+
+      return {
+        charsRead,
+        formCount: formCount + skippedCount,
+        failedCount: skippedCount + conversionErrors.length,
+        atomCount,
+      };
+    };
+
+    const getErrors = () => [...parser.getErrors().map((error) => error.message), ...conversionErrors];
+
+    try {
+      for await (const forms of readSchemeStream(stream, parser)) {
+        for (const form of forms) {
+          const result = this.schemeToAtoms(form);
+
+          if (result.success) {
+            convertedCount++;
+            atomCount += result.result!.length;
+          } else {
+            conversionErrors.push(`Form at line ${form.span?.start.line}: ${result.error}`);
+          }
         }
 
-        tokens.push(char);
-      } else {
-        current += char;
+        onProgress?.(getProgress());
       }
+    } catch (error) {
+      return {
+        success: false,
+        result: getProgress(),
+        error: error instanceof Error ? error.message : 'Unknown import error',
+        metadata: { errors: getErrors() },
+      };
     }
 
-    if (current) {
-      tokens.push(current);
-    }
+    const progress = getProgress();
 
-    return tokens;
+    return {
+      success: progress.failedCount === 0,
+      result: progress,
+      error:
+        progress.failedCount > 0 ? `${progress.failedCount} of ${progress.formCount} forms failed to load` : undefined,
+      metadata: { convertedCount, errors: getErrors() },
+    };
   }
 
-  private parseTokens(tokens: string[]): SchemeExpression {
-    let index = 0;
+  private convertExpressionToAtoms(expression: SchemeExpression): Atom[] {
+    const atoms: Atom[] = [];
+
+    // every converted atom remembers how the expression spelled it, for atomsToScheme to write it back
+    const convertToAtom = (expr: SchemeExpression): ConvertedAtom => {
+      const converted = convert(expr);
 
-    const parseNext = (): SchemeExpression => {
-      if (index >= tokens.length) {
-        throw new Error('Unexpected end of tokens');
+      if (this.config.dialect === 'keyword') {
+        this.atomSpace.setNotation(converted.atom.id, converted.notation);
       }
 
-      const token = tokens[index++];
+      return converted;
+    };
+
+    const convertChildren = (children: SchemeExpression[]) => {
+      const converted = children.map((child) => convertToAtom(child));
+      atoms.push(...converted.map(({ atom }) => atom));
 
-      if (token === '(') {
-        // Parse list
-        const children: SchemeExpression[] = [];
+      return converted;
+    };
 
-        while (index < tokens.length && tokens[index] !== ')') {
-          children.push(parseNext());
+    const convert = (expr: SchemeExpression): ConvertedAtom => {
+      switch (expr.type) {
+        case 'symbol': {
+          return {
+            atom: this.atomSpace.createNode(AtomType.CONCEPT_NODE, String(expr.value), this.getImplicitTruthValue()),
+          };
         }
 
-        if (index >= tokens.length) {
-          throw new Error('Missing closing parenthesis');
+        case 'string': {
+          return {
+            atom: this.atomSpace.createNode(AtomType.STRING_NODE, String(expr.value), this.getImplicitTruthValue()),
+          };
         }
 
-        index++; // Skip ')'
+        case 'number': {
+          const numberNode = this.atomSpace.createNode(AtomType.NUMBER_NODE, String(expr.value));
+          (numberNode as Node).value = expr.value;
 
-        return {
-          type: 'list',
-          value: null,
-          children,
-        };
-      } else if (token === ')') {
-        throw new Error('Unexpected closing parenthesis');
-      } else if (token.startsWith('"') && token.endsWith('"')) {
-        // String literal
-        return {
-          type: 'string',
-          value: token.slice(1, -1),
-        };
-      } else if (!isNaN(Number(token))) {
-        // Number
-        return {
-          type: 'number',
-          value: Number(token),
-        };
-      } else {
-        // Symbol or atom
-        return {
-          type: 'symbol',
-          value: token,
-        };
-      }
-    };
+          // 2.0 and #xff are the same number as 2 and 255, only the spelling tells them apart
+          const text = expr.text === writeSchemeNumber(expr.value) ? undefined : expr.text;
 
-    // Check for unexpected closing parenthesis at start
-    if (tokens.length > 0 && tokens.some((t) => t === ')') && !tokens.some((t) => t === '(')) {
-      throw new Error('Unexpected closing parenthesis');
-    }
+          return { atom: numberNode, notation: compactNotation({ text }) };
+        }
 
-    return parseNext();
-  }
+        case 'boolean':
+        case 'char': {
+          // named by their literal, e.g. #t or #\a
+          return {
+            atom: this.atomSpace.createNode(
+              AtomType.CONCEPT_NODE,
+              this.expressionToString(expr),
+              this.getImplicitTruthValue(),
+            ),
+          };
+        }
 
-  private convertExpressionToAtoms(expression: SchemeExpression): Atom[] {
-    const atoms: Atom[] = [];
+        case 'quote': {
+          // 'x is read as (quote x)
+          return convert({
+            type: 'list',
+            value: null,
+            children: [{ type: 'symbol', value: expr.value }, expr.children![0]],
+          });
+        }
 
-    const convertToAtom = (expr: SchemeExpression): Atom => {
-      switch (expr.type) {
-        case 'symbol':
-          return this.atomSpace.createNode(
-            AtomType.CONCEPT_NODE,
-            String(expr.value),
-            this.config.enableTruthValues
-              ? {
-                  strength: 1.0,
-                  confidence: this.config.defaultConfidence,
-                }
-              : undefined,
-          );
+        case 'vector':
+        case 'pair': {
+          const elements = convertChildren(this.getSequence(expr));
+
+          return {
+            atom: this.atomSpace.createLink(
+              expr.type === 'vector' ? AtomType.VECTOR_LINK : AtomType.PAIR_LINK,
+              elements.map(({ atom }) => atom),
+            ),
+            notation: getLinkNotation(undefined, elements),
+          };
+        }
 
-        case 'string':
-          return this.atomSpace.createNode(
-            AtomType.CONCEPT_NODE,
-            String(expr.value),
-            this.config.enableTruthValues
-              ? {
-                  strength: 1.0,
-                  confidence: this.config.defaultConfidence,
-                }
-              : undefined,
-          );
+        case 'list': {
+          if (!expr.children || expr.children.length === 0) {
+            return { atom: this.atomSpace.createLink(AtomType.LIST_LINK, []) };
+          }
 
-        case 'number':
-          const numberNode = this.atomSpace.createNode(AtomType.CONCEPT_NODE, String(expr.value));
-          (numberNode as Node).value = expr.value;
-          return numberNode;
+          // Create appropriate atom type based on first element
+          const form = this.getAtomForm(expr);
+          const issue = form && (form.issue ?? (form.isNode ? this.checkNodeForm(form) : undefined));
 
-        case 'list':
-          if (!expr.children || expr.children.length === 0) {
-            return this.atomSpace.createLink(AtomType.LIST_LINK, []);
+          if (issue) {
+            throw new AtomValidationError([issue]);
           }
 
-          // Convert all children to atoms first
-          const childAtoms = expr.children.map((child) => convertToAtom(child));
-          atoms.push(...childAtoms);
-
-          // Create appropriate link type based on first element
-          const firstChild = expr.children[0];
-          let linkType = AtomType.LIST_LINK;
-
-          if (firstChild.type === 'symbol') {
-            switch (firstChild.value) {
-              case 'lambda':
-                linkType = AtomType.LAMBDA_LINK;
-                break;
-              case 'apply':
-                linkType = AtomType.APPLICATION_LINK;
-                break;
-              case 'inheritance':
-                linkType = AtomType.INHERITANCE_LINK;
-                break;
-              case 'evaluation':
-                linkType = AtomType.EVALUATION_LINK;
-                break;
-            }
+          const truthValue = this.config.enableTruthValues ? form?.truthValue : undefined;
+
+          if (form?.isNode) {
+            const node = this.atomSpace.createNode(
+              form.type,
+              String(form.args[0].value),
+              truthValue ?? this.getImplicitTruthValue(),
+            );
+
+            return {
+              atom: node,
+              notation: compactNotation({
+                keyword: form.type === AtomType.CONCEPT_NODE ? form.head : undefined,
+                nameType: form.args[0].type === 'symbol' ? 'symbol' : undefined,
+              }),
+            };
           }
 
-          return this.atomSpace.createLink(linkType, childAtoms);
+          // Convert all children to atoms first, typed links keep their head out of the outgoing set
+          const children = convertChildren(form ? form.args : expr.children);
+          const link = this.atomSpace.createLink(
+            form?.type ?? AtomType.LIST_LINK,
+            children.map(({ atom }) => atom),
+            truthValue,
+          );
+
+          return {
+            atom: link,
+            notation: getLinkNotation(link.type === AtomType.LIST_LINK ? form?.head : undefined, children),
+          };
+        }
 
-        default:
-          return this.atomSpace.createNode(AtomType.CONCEPT_NODE, String(expr.value));
+        default: {
+          return { atom: this.atomSpace.createNode(AtomType.CONCEPT_NODE, String(expr.value)) };
+        }
       }
     };
 
-    const rootAtom = convertToAtom(expression);
+    const { atom: rootAtom } = convertToAtom(expression);
     atoms.push(rootAtom);
 
-    return atoms;
+    // interned atoms can be reached more than once, report each only once
+    return Array.from(new Set(atoms));
+  }
+
+  /**
+   * Recognise a list whose head names an atom type in the configured dialect
+   *
+   * Keyword heads are the lower-case keywords above. OpenCog heads are registered node and link
+   * type names, optionally followed by a (stv strength confidence) or
+   * (ctv mean confidence count) truth value; the count of a ctv is not kept.
+   */
+  private getAtomForm(expr: SchemeExpression): AtomForm | undefined {
+    const [firstChild, ...args] = expr.children ?? [];
+    const head = firstChild?.type === 'symbol' ? String(firstChild.value) : undefined;
+
+    if (head === undefined) {
+      return undefined;
+    }
+
+    if (this.config.dialect === 'keyword') {
+      if (Object.hasOwn(NODE_KEYWORDS, head)) {
+        return { head, type: NODE_KEYWORDS[head], isNode: true, args };
+      }
+
+      return Object.hasOwn(LINK_KEYWORDS, head) ? { head, type: LINK_KEYWORDS[head], isNode: false, args } : undefined;
+    }
+
+    const registry = this.atomSpace.getTypeRegistry();
+    const type = head as AtomType;
+
+    if (!registry.hasType(head) || !(registry.isNodeType(type) || registry.isLinkType(type))) {
+      return undefined;
+    }
+
+    const form: AtomForm = { head, type, isNode: registry.isNodeType(type), args };
+    const last = args[args.length - 1];
+    const tvHead = last?.type === 'list' && last.children?.[0]?.type === 'symbol' ? last.children[0].value : undefined;
+
+    if (tvHead !== 'stv' && tvHead !== 'ctv') {
+      return form;
+    }
+
+    form.args = args.slice(0, -1);
+
+    const values = last.children!.slice(1);
+    const expected = tvHead === 'stv' ? 2 : 3;
+
+    if (values.length !== expected || values.some((value) => value.type !== 'number')) {
+      form.issue = {
+        code: 'malformed-form',
+        type,
+        message:
+          tvHead === 'stv'
+            ? '(stv ...) expects a strength and a confidence'
+            : '(ctv ...) expects a mean, a confidence and a count',
+      };
+    } else if (values.slice(0, 2).some(({ value }) => !Number.isFinite(value) || value < 0 || value > 1)) {
+      form.issue = {
+        code: 'malformed-form',
+        type,
+        message: `(${tvHead} ...) expects a ${tvHead === 'stv' ? 'strength' : 'mean'} and a confidence between 0 and 1`,
+      };
+    } else {
+      form.truthValue = { strength: values[0].value, confidence: values[1].value };
+    }
+
+    return form;
+  }
+
+  /**
+   * Elements of a vector, or of a dotted pair followed by its tail
+   */
+  private getSequence(expr: SchemeExpression): SchemeExpression[] {
+    return [...(expr.children ?? []), ...(expr.tail ? [expr.tail] : [])];
+  }
+
+  private checkNodeForm(form: AtomForm): AtomValidationIssue | undefined {
+    const [name] = form.args;
+
+    // OpenCog writes number nodes as (NumberNode 42)
+    const isName =
+      name?.type === 'symbol' ||
+      name?.type === 'string' ||
+      (name?.type === 'number' && this.config.dialect === 'opencog');
+
+    if (form.args.length === 1 && isName) {
+      return undefined;
+    }
+
+    return {
+      code: 'malformed-form',
+      type: form.type,
+      message: `(${form.head} ...) expects a single name`,
+    };
+  }
+
+  /**
+   * Layout of keyword forms: link keywords indent all their arguments as a body and node
+   * keywords keep their name on the first line; keywords that are also Scheme forms keep the
+   * Scheme layout
+   */
+  private getKeywordLayout(): Record<string, number> {
+    if (this.config.dialect !== 'keyword') {
+      return {};
+    }
+
+    const layout: Record<string, number> = {};
+
+    Object.keys(LINK_KEYWORDS).forEach((keyword) => (layout[keyword] = 0));
+    Object.keys(NODE_KEYWORDS).forEach((keyword) => (layout[keyword] = 1));
+    Object.keys(SCHEME_SPECIAL_FORMS).forEach((form) => delete layout[form]);
+
+    return layout;
+  }
+
+  /**
+   * Truth value given to atoms written without one; the OpenCog dialect only keeps the truth
+   * values written in the source
+   */
+  private getImplicitTruthValue(): TruthValue | undefined {
+    if (!this.config.enableTruthValues || this.config.dialect === 'opencog') {
+      return undefined;
+    }
+
+    return { strength: 1.0, confidence: this.config.defaultConfidence };
   }
 
   private findRootAtom(atoms: Atom[]): Atom {
@@ -334,21 +768,47 @@ export class SchemeAdapter {
     return rootAtoms[0];
   }
 
-  private convertAtomToExpression(atom: Atom, allAtoms: Atom[]): SchemeExpression {
+  /**
+   * Write an atom, spelled as its notation says; the notation of the root atom covers all the
+   * atoms below it
+   */
+  private convertAtomToExpression(atom: Atom, allAtoms: Atom[], notation?: SchemeNotation): SchemeExpression {
+    if (this.config.dialect === 'opencog') {
+      return this.convertAtomToOpenCogExpression(atom);
+    }
+
     if ('outgoing' in atom) {
       // This is a link
       const link = atom as Link;
-      const children = link.outgoing.map((outgoingAtom) => this.convertAtomToExpression(outgoingAtom, allAtoms));
+      const children = link.outgoing.map((outgoingAtom, index) =>
+        this.convertAtomToExpression(outgoingAtom, allAtoms, notation?.outgoing?.[index] ?? undefined),
+      );
+      const [head, datum] = children;
+
+      if (link.type === AtomType.VECTOR_LINK) {
+        return { type: 'vector', value: null, children };
+      }
+
+      if (link.type === AtomType.PAIR_LINK) {
+        return { type: 'pair', value: null, children: children.slice(0, -1), tail: children[children.length - 1] };
+      }
+
+      // (quote x) is written back as 'x
+      if (
+        link.type === AtomType.LIST_LINK &&
+        !notation?.keyword &&
+        children.length === 2 &&
+        head.type === 'symbol' &&
+        Object.hasOwn(QUOTE_PREFIXES, head.value)
+      ) {
+        return { type: 'quote', value: head.value, children: [datum] };
+      }
 
       // Add type information for special link types
-      if (link.type === AtomType.LAMBDA_LINK) {
-        children.unshift({ type: 'symbol', value: 'lambda' });
-      } else if (link.type === AtomType.APPLICATION_LINK) {
-        children.unshift({ type: 'symbol', value: 'apply' });
-      } else if (link.type === AtomType.INHERITANCE_LINK) {
-        children.unshift({ type: 'symbol', value: 'inheritance' });
-      } else if (link.type === AtomType.EVALUATION_LINK) {
-        children.unshift({ type: 'symbol', value: 'evaluation' });
+      const keyword = LINK_TYPE_KEYWORDS.get(link.type) ?? notation?.keyword;
+
+      if (keyword) {
+        children.unshift({ type: 'symbol', value: keyword });
       }
 
       return {
@@ -364,13 +824,97 @@ export class SchemeAdapter {
         return {
           type: 'number',
           value: node.value,
+          ...(notation?.text && { text: notation.text }),
         };
       }
 
+      if (node.type === AtomType.NUMBER_NODE && node.name !== undefined && !isNaN(Number(node.name))) {
+        return {
+          type: 'number',
+          value: Number(node.name),
+          ...(notation?.text && { text: notation.text }),
+        };
+      }
+
+      if (node.type === AtomType.STRING_NODE) {
+        return { type: 'string', value: node.name ?? '' };
+      }
+
+      const keyword = NODE_TYPE_KEYWORDS.get(node.type) ?? notation?.keyword;
+
+      if (keyword) {
+        return {
+          type: 'list',
+          value: null,
+          children: [
+            { type: 'symbol', value: keyword },
+            { type: notation?.nameType ?? 'string', value: node.name || node.id },
+          ],
+        };
+      }
+
+      const literal = node.type === AtomType.CONCEPT_NODE ? this.readLiteralName(node.name) : undefined;
+
+      if (literal) {
+        return literal;
+      }
+
       return {
         type: 'symbol',
         value: node.name || node.id,
       };
     }
   }
+
+  /**
+   * Boolean or character a concept was named after by schemeToAtoms, e.g. #t or #\a
+   */
+  private readLiteralName(name: string | undefined): SchemeExpression | undefined {
+    if (!name?.startsWith('#')) {
+      return undefined;
+    }
+
+    const errors: SchemeSyntaxError[] = [];
+    const tokens = tokenizeScheme(name, { errors });
+    const [token] = tokens;
+
+    if (errors.length > 0 || tokens.length !== 1 || (token.type !== 'boolean' && token.type !== 'char')) {
+      return undefined;
+    }
+
+    return { type: token.type, value: token.value };
+  }
+
+  /**
+   * Write an atom as an OpenCog form, e.g. (InheritanceLink (ConceptNode "cat") (ConceptNode "animal") (stv 0.9 0.8))
+   */
+  private convertAtomToOpenCogExpression(atom: Atom): SchemeExpression {
+    const children: SchemeExpression[] = [{ type: 'symbol', value: atom.type }];
+
+    if ('outgoing' in atom) {
+      children.push(
+        ...(atom as Link).outgoing.map((outgoingAtom) => this.convertAtomToOpenCogExpression(outgoingAtom)),
+      );
+    } else {
+      children.push({ type: 'string', value: atom.name ?? atom.id });
+    }
+
+    if (this.config.enableTruthValues && atom.truthValue) {
+      children.push({
+        type: 'list',
+        value: null,
+        children: [
+          { type: 'symbol', value: 'stv' },
+          { type: 'number', value: atom.truthValue.strength },
+          { type: 'number', value: atom.truthValue.confidence },
+        ],
+      });
+    }
+
+    return {
+      type: 'list',
+      value: null,
+      children,
+    };
+  }
 }
@@ -0,0 +1,53 @@
+/**
+ * Tests for Scheme diagnostics
+ * Covers syntax error conversion, expression paths and CodeMirror lint markers
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getExpressionAtPath, sortDiagnostics, syntaxErrorToDiagnostic, toLintMarkers } from './scheme-diagnostics';
+import { SchemeSyntaxError, readScheme, tokenizeScheme } from './scheme-reader';
+import type { SchemeDiagnostic } from './types';
+
+describe('Scheme diagnostics', () => {
+  const start = { offset: 4, line: 1, column: 5 };
+  const end = { offset: 9, line: 1, column: 10 };
+
+  it('should describe syntax errors with their range and fix', () => {
+    const error = new SchemeSyntaxError('Unterminated string', start, { end, fix: 'Add a closing "' });
+
+    expect(syntaxErrorToDiagnostic(error)).toEqual({
+      severity: 'error',
+      range: { start, end },
+      message: 'Unterminated string',
+      fix: 'Add a closing "',
+      source: 'syntax',
+    });
+  });
+
+  it('should follow paths into lists, quote forms and dotted tails', () => {
+    const [form] = readScheme(tokenizeScheme("(a '(b . c) #(d))"));
+
+    expect(getExpressionAtPath(form, [1, 0, 0])?.value).toBe('b');
+    expect(getExpressionAtPath(form, [1, 0, 1])?.value).toBe('c');
+    expect(getExpressionAtPath(form, [2, 0])?.value).toBe('d');
+    expect(getExpressionAtPath(form, [5])).toBeUndefined();
+  });
+
+  it('should convert diagnostics to lint markers in source order', () => {
+    const diagnostics: SchemeDiagnostic[] = [
+      { severity: 'warning', range: { start, end }, message: 'Second', source: 'validation' },
+      {
+        severity: 'error',
+        range: { start: { offset: 0, line: 1, column: 1 }, end },
+        message: 'First',
+        fix: 'Fix it',
+        source: 'syntax',
+      },
+    ];
+
+    expect(toLintMarkers(sortDiagnostics(diagnostics))).toEqual([
+      { from: 0, to: 9, severity: 'error', message: 'First. Fix it', source: 'scheme-syntax' },
+      { from: 4, to: 9, severity: 'warning', message: 'Second', source: 'scheme-validation' },
+    ]);
+  });
+});
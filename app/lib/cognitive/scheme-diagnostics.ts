@@ -0,0 +1,57 @@
+/**
+ * Scheme diagnostics
+ * Locates syntax errors and validation issues in Scheme source and converts them to editor lint markers
+ */
+
+import type { SchemeDiagnostic, SchemeExpression, SchemeLintMarker } from './types';
+import type { SchemeSyntaxError } from './scheme-reader';
+
+/**
+ * Describe a syntax error as an error diagnostic over the source it was found in
+ */
+export function syntaxErrorToDiagnostic(error: SchemeSyntaxError): SchemeDiagnostic {
+  return {
+    severity: 'error',
+    range: error.range,
+    message: error.reason,
+    fix: error.fix,
+    source: 'syntax',
+  };
+}
+
+/**
+ * Follow a path of child indices, as found in validation issues, down from an expression
+ *
+ * An index one past the children of a dotted pair selects its tail.
+ */
+export function getExpressionAtPath(expression: SchemeExpression, path: number[]): SchemeExpression | undefined {
+  let current: SchemeExpression | undefined = expression;
+
+  for (const index of path) {
+    const children: SchemeExpression[] = current?.children ?? [];
+    current = index === children.length ? current?.tail : children[index];
+  }
+
+  return current;
+}
+
+/**
+ * Order diagnostics by where they start in the source
+ */
+export function sortDiagnostics(diagnostics: SchemeDiagnostic[]): SchemeDiagnostic[] {
+  return [...diagnostics].sort((a, b) => a.range.start.offset - b.range.start.offset);
+}
+
+/**
+ * Convert diagnostics to the markers a CodeMirror lint source returns; the fix hint is appended
+ * to the message
+ */
+export function toLintMarkers(diagnostics: SchemeDiagnostic[]): SchemeLintMarker[] {
+  return diagnostics.map((diagnostic) => ({
+    from: diagnostic.range.start.offset,
+    to: diagnostic.range.end.offset,
+    severity: diagnostic.severity,
+    message: diagnostic.fix ? `${diagnostic.message}. ${diagnostic.fix}` : diagnostic.message,
+    source: `scheme-${diagnostic.source}`,
+  }));
+}
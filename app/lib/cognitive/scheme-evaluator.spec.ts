@@ -0,0 +1,301 @@
+/**
+ * Tests for the Scheme evaluator
+ * Covers special forms, primitives, tail calls, sandbox limits and the AtomSpace primitives
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { SchemeEvaluator, formatSchemeValue } from './scheme-evaluator';
+import { AtomSpace } from './atomspace';
+import { AtomTypeRegistry } from './type-hierarchy';
+import { AtomType } from './types';
+import type { Atom, Link, SchemeValue } from './types';
+
+describe('SchemeEvaluator', () => {
+  let atomSpace: AtomSpace;
+  let evaluator: SchemeEvaluator;
+
+  const run = (source: string): SchemeValue => {
+    const result = evaluator.evaluateString(source);
+
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    return result.result;
+  };
+
+  const show = (source: string) => formatSchemeValue(run(source));
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace();
+    evaluator = new SchemeEvaluator(atomSpace);
+  });
+
+  describe('Special forms', () => {
+    it('should evaluate literals and quoted data', () => {
+      expect(run('42')).toBe(42);
+      expect(run('"text"')).toBe('text');
+      expect(run('#t')).toBe(true);
+      expect(show('(quote (a "b" 3 #f))')).toBe('(a "b" 3 #f)');
+    });
+
+    it('should define variables and procedures that persist between evaluations', () => {
+      run('(define x 10)');
+      run('(define (add-x y) (+ x y))');
+
+      expect(run('(add-x 5)')).toBe(15);
+      expect(show('add-x')).toBe('#<procedure add-x>');
+    });
+
+    it('should create closures with lambda', () => {
+      run('(define make-adder (lambda (n) (lambda (x) (+ x n))))');
+
+      expect(run('((make-adder 3) 4)')).toBe(7);
+      expect(show('((lambda args args) 1 2 3)')).toBe('(1 2 3)');
+      expect(show('((lambda (a . rest) rest) 1 2 3)')).toBe('(2 3)');
+    });
+
+    it('should bind with let, let* and named let', () => {
+      expect(run('(let ((a 1) (b 2)) (+ a b))')).toBe(3);
+      expect(run('(let* ((a 1) (b (+ a 1))) (* a b))')).toBe(2);
+      expect(run('(let loop ((i 0) (sum 0)) (if (> i 4) sum (loop (+ i 1) (+ sum i))))')).toBe(10);
+    });
+
+    it('should branch with if and cond', () => {
+      expect(run('(if (< 1 2) "yes" "no")')).toBe('yes');
+      expect(run('(if #f 1)')).toBeUndefined();
+      expect(run('(cond ((= 1 2) "a") ((= 1 1) "b") (else "c"))')).toBe('b');
+      expect(run('(cond (#f 1) (else "fallback"))')).toBe('fallback');
+      expect(run('(cond ((+ 1 2)))')).toBe(3);
+    });
+
+    it('should treat only #f as false', () => {
+      expect(run('(if (quote ()) "empty" 0)')).toBe('empty');
+      expect(run('(if 0 1 2)')).toBe(1);
+    });
+
+    it('should short-circuit and and or', () => {
+      expect(run('(and 1 #f (car (quote ())))')).toBe(false);
+      expect(run('(or #f 2 (car (quote ())))')).toBe(2);
+      expect(run('(and)')).toBe(true);
+      expect(run('(or)')).toBe(false);
+    });
+
+    it('should read quote shorthand, quasiquote and dotted parameter lists', () => {
+      run('(define x 2)');
+
+      expect(show("'(a b)")).toBe('(a b)');
+      expect(show("''a")).toBe('(quote a)');
+      expect(show('`(x ,x ,@(list 3 4) (nested ,(+ x 1)))')).toBe('(x 2 3 4 (nested 3))');
+      run('(define (tail first . rest) rest)');
+      expect(show('(tail 1 2)')).toBe('(2)');
+    });
+
+    it('should evaluate booleans, characters and vectors as themselves', () => {
+      expect(run('#false')).toBe(false);
+      expect(run('#\\space')).toBe(' ');
+      expect(show('#(1 "two")')).toBe('(1 "two")');
+    });
+
+    it('should evaluate every form of a program and return the last value', () => {
+      const result = evaluator.evaluateString(`
+        (define (square x) (* x x))
+        (display (square 3))
+        (square 4)`);
+
+      expect(result.result).toBe(16);
+      expect(result.metadata?.output).toBe('9');
+      expect(run('; only a comment')).toBeUndefined();
+    });
+
+    it('should update variables with set! and sequence with begin', () => {
+      expect(run('(begin (define counter 0) (set! counter (+ counter 1)) (set! counter (+ counter 1)) counter)')).toBe(
+        2,
+      );
+    });
+  });
+
+  describe('Primitives', () => {
+    it('should do arithmetic and comparisons', () => {
+      expect(run('(+ 1 2 3)')).toBe(6);
+      expect(run('(- 10 4 1)')).toBe(5);
+      expect(run('(- 3)')).toBe(-3);
+      expect(run('(* 2 3 4)')).toBe(24);
+      expect(run('(/ 12 3 2)')).toBe(2);
+      expect(run('(modulo -7 3)')).toBe(2);
+      expect(run('(remainder -7 3)')).toBe(-1);
+      expect(run('(< 1 2 3)')).toBe(true);
+      expect(run('(< 1 3 2)')).toBe(false);
+    });
+
+    it('should operate on lists', () => {
+      expect(show('(cons 1 (list 2 3))')).toBe('(1 2 3)');
+      expect(run('(car (list 1 2))')).toBe(1);
+      expect(show('(cdr (list 1 2))')).toBe('(2)');
+      expect(run('(null? (cdr (list 1)))')).toBe(true);
+      expect(show('(append (list 1) (list 2 3) (quote ()))')).toBe('(1 2 3)');
+      expect(show('(reverse (list 1 2 3))')).toBe('(3 2 1)');
+      expect(show('(map (lambda (x) (* x x)) (list 1 2 3))')).toBe('(1 4 9)');
+      expect(show('(map + (list 1 2) (list 10 20))')).toBe('(11 22)');
+      expect(show('(filter (lambda (x) (> x 1)) (list 1 2 3))')).toBe('(2 3)');
+      expect(run('(apply + 1 (list 2 3))')).toBe(6);
+      expect(run('(length (list 1 2 3))')).toBe(3);
+    });
+
+    it('should keep symbols and strings apart', () => {
+      expect(run('(symbol? (quote cat))')).toBe(true);
+      expect(run('(string? (quote cat))')).toBe(false);
+      expect(run('(eq? (quote cat) (string->symbol "cat"))')).toBe(true);
+      expect(run('(equal? (list 1 (quote a)) (list 1 (quote a)))')).toBe(true);
+      expect(run('(symbol->string (quote cat))')).toBe('cat');
+    });
+
+    it('should collect display output', () => {
+      const result = evaluator.evaluateString('(begin (display "sum: ") (display (+ 1 2)) (newline))');
+
+      expect(result.metadata?.output).toBe('sum: 3\n');
+    });
+  });
+
+  describe('Tail calls', () => {
+    it('should run deep tail recursion in constant stack space', () => {
+      run('(define (count-down n) (if (= n 0) "done" (count-down (- n 1))))');
+
+      expect(run('(count-down 50000)')).toBe('done');
+    });
+
+    it('should treat cond, and, let and begin bodies as tail positions', () => {
+      run(`(define (loop n acc)
+             (cond ((= n 0) acc)
+                   (else (let ((next (- n 1))) (begin (and #t (loop next (+ acc 1))))))))`);
+
+      expect(run('(loop 20000 0)')).toBe(20000);
+    });
+  });
+
+  describe('Sandbox', () => {
+    it('should abort evaluations that exceed the step budget', () => {
+      evaluator = new SchemeEvaluator(atomSpace, { maxSteps: 1000 });
+
+      const result = evaluator.evaluateString('(begin (define (spin) (spin)) (spin))');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('1000 steps');
+    });
+
+    it('should abort non-tail recursion that exceeds the depth budget', () => {
+      evaluator = new SchemeEvaluator(atomSpace, { maxDepth: 100 });
+      run('(define (sum n) (if (= n 0) 0 (+ n (sum (- n 1)))))');
+
+      expect(run('(sum 20)')).toBe(210);
+      expect(evaluator.evaluateString('(sum 500)').error).toContain('recursion depth');
+    });
+
+    it('should report errors from the program', () => {
+      expect(evaluator.evaluateString('missing').error).toBe('Unbound variable: missing');
+      expect(evaluator.evaluateString('(car (quote ()))').error).toBe('car: expected a pair, got ()');
+      expect(evaluator.evaluateString('(1 2)').error).toBe('Not a procedure: 1');
+      expect(evaluator.evaluateString('((lambda (x) x))').error).toBe('lambda: expected 1 arguments, got 0');
+      expect(evaluator.evaluateString('(/ 1 0)').error).toBe('/: division by zero');
+    });
+
+    it('should not expose the host environment', () => {
+      expect(evaluator.evaluateString('(eval "1")').success).toBe(false);
+      expect(evaluator.evaluateString('constructor').error).toBe('Unbound variable: constructor');
+    });
+  });
+
+  describe('AtomSpace primitives', () => {
+    it('should create nodes and links', () => {
+      const link = run(`(cog-new-link (quote InheritanceLink)
+                          (cog-new-node (quote ConceptNode) "cat")
+                          (cog-new-node (quote ConceptNode) "animal")
+                          (stv 0.9 0.8))`) as Link;
+
+      expect(link.type).toBe(AtomType.INHERITANCE_LINK);
+      expect(link.outgoing.map((atom) => atom.name)).toEqual(['cat', 'animal']);
+      expect(link.truthValue).toEqual({ strength: 0.9, confidence: 0.8 });
+      expect(formatSchemeValue(link)).toBe('(InheritanceLink (ConceptNode "cat") (ConceptNode "animal"))');
+    });
+
+    it('should return the incoming set of an atom', () => {
+      run('(define cat (cog-new-node (quote ConceptNode) "cat"))');
+      run('(cog-new-link (quote InheritanceLink) cat (cog-new-node (quote ConceptNode) "animal"))');
+      run('(cog-new-link (quote MemberLink) cat (cog-new-node (quote ConceptNode) "pets"))');
+
+      expect(show('(map cog-type (cog-incoming-set cat))')).toBe('(InheritanceLink MemberLink)');
+    });
+
+    it('should read and set truth values', () => {
+      run('(define cat (cog-new-node (quote ConceptNode) "cat" (stv 0.5 0.4)))');
+
+      expect(show('(cog-tv cat)')).toBe('(stv 0.5 0.4)');
+
+      run('(cog-set-tv! cat (stv 0.9 0.7))');
+
+      expect(run('(cog-mean cat)')).toBe(0.9);
+      expect(run('(cog-confidence (cog-tv cat))')).toBe(0.7);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'cat')?.truthValue).toEqual({ strength: 0.9, confidence: 0.7 });
+    });
+
+    it('should reject truth values outside [0, 1]', () => {
+      expect(evaluator.evaluateString('(cog-new-node (quote ConceptNode) "x" (stv 5 -2))').error).toBe(
+        'stv: strength must be between 0 and 1, got 5',
+      );
+      expect(evaluator.evaluateString('(stv 0.5 -2)').error).toBe('stv: confidence must be between 0 and 1, got -2');
+      expect(evaluator.evaluateString('(stv +inf.0 0.5)').error).toBe(
+        'stv: strength must be between 0 and 1, got +inf.0',
+      );
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'x')).toBeUndefined();
+    });
+
+    it('should work on atoms bound by the host', () => {
+      const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      evaluator.define('cat', cat);
+
+      expect(run('(cog-name cat)')).toBe('cat');
+    });
+
+    it('should reject unknown atom types', () => {
+      expect(evaluator.evaluateString('(cog-new-node (quote MadeUpNode) "x")').error).toBe(
+        'cog-new-node: unknown atom type MadeUpNode',
+      );
+      expect(evaluator.evaluateString('(cog-new-node (quote Node) "x")').error).toBe(
+        'cog-new-node: unknown atom type Node',
+      );
+      expect(evaluator.evaluateString('(cog-new-link (quote ConceptNode))').error).toBe(
+        'cog-new-link: ConceptNode is not a link type',
+      );
+    });
+
+    it('should create atoms of types registered at runtime', () => {
+      const registry = new AtomTypeRegistry();
+      const custom = new SchemeEvaluator(new AtomSpace({ typeRegistry: registry }));
+
+      registry.registerType('PersonNode', AtomType.CONCEPT_NODE);
+      registry.registerType('KnowsLink', AtomType.LINK);
+
+      const link = custom.evaluateString(`(cog-new-link (quote KnowsLink)
+                                             (cog-new-node (quote PersonNode) "alice")
+                                             (cog-new-node (quote PersonNode) "bob"))`).result as Link;
+
+      expect(link.type).toBe('KnowsLink');
+      expect(link.outgoing.map((atom) => atom.type)).toEqual(['PersonNode', 'PersonNode']);
+    });
+
+    it('should roll back atoms created by a failing evaluation', () => {
+      const result = evaluator.evaluateString('(begin (cog-new-node (quote ConceptNode) "partial") (car (quote ())))');
+
+      expect(result.success).toBe(false);
+      expect(atomSpace.getNode(AtomType.CONCEPT_NODE, 'partial')).toBeUndefined();
+    });
+
+    it('should build atoms from computed lists', () => {
+      const link = run(`(cog-new-link (quote ListLink)
+                          (map (lambda (name) (cog-new-node (quote ConceptNode) name)) (list "a" "b" "c")))`) as Link;
+
+      expect(link.outgoing.map((atom: Atom) => atom.name)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
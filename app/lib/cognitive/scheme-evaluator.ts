@@ -0,0 +1,955 @@
+/**
+ * Scheme evaluator for parsed SchemeExpression trees
+ * A small sandboxed interpreter with proper tail calls; programs can only reach the AtomSpace
+ * through the cog-* primitives and every evaluation is bounded by a step and depth budget
+ */
+
+import type {
+  Atom,
+  Link,
+  SchemeEvaluatorConfig,
+  SchemeExpression,
+  SchemeProcedure,
+  SchemeSymbol,
+  SchemeValue,
+  TranslationResult,
+  TruthValue,
+} from './types';
+import { AtomType } from './types';
+import type { AtomSpace } from './atomspace';
+import { SchemeAdapter } from './scheme-adapter';
+import { writeSchemeNumber, writeSchemeString } from './scheme-reader';
+
+/**
+ * Thrown for errors raised by the evaluated program, e.g. unbound variables or wrong argument types
+ */
+export class SchemeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemeError';
+  }
+}
+
+interface Closure extends SchemeProcedure {
+  params: string[];
+  rest?: string; // Receives the remaining arguments as a list
+  body: SchemeExpression[];
+  env: Environment;
+}
+
+interface Primitive extends SchemeProcedure {
+  call: (args: SchemeValue[]) => SchemeValue;
+}
+
+class Environment {
+  private bindings: Map<string, SchemeValue> = new Map();
+  private parent?: Environment;
+
+  constructor(parent?: Environment) {
+    this.parent = parent;
+  }
+
+  define(name: string, value: SchemeValue): void {
+    this.bindings.set(name, value);
+  }
+
+  lookup(name: string): SchemeValue {
+    const env = this.resolve(name);
+
+    if (!env) {
+      throw new SchemeError(`Unbound variable: ${name}`);
+    }
+
+    return env.bindings.get(name);
+  }
+
+  assign(name: string, value: SchemeValue): void {
+    const env = this.resolve(name);
+
+    if (!env) {
+      throw new SchemeError(`Cannot set! unbound variable: ${name}`);
+    }
+
+    env.bindings.set(name, value);
+  }
+
+  private resolve(name: string): Environment | undefined {
+    return this.bindings.has(name) ? this : this.parent?.resolve(name);
+  }
+}
+
+const DEFAULT_TRUTH_VALUE: TruthValue = { strength: 1, confidence: 0 };
+
+const isObject = (value: unknown): value is object =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isSchemeSymbol = (value: SchemeValue): value is SchemeSymbol =>
+  isObject(value) && 'kind' in value && value.kind === 'symbol';
+
+export const isSchemeProcedure = (value: SchemeValue): value is SchemeProcedure =>
+  isObject(value) && 'kind' in value && value.kind === 'procedure';
+
+const isAtom = (value: SchemeValue): value is Atom => isObject(value) && 'id' in value && 'type' in value;
+
+const isTruthValue = (value: SchemeValue): value is TruthValue =>
+  isObject(value) && 'strength' in value && 'confidence' in value && !('id' in value);
+
+const isClosure = (procedure: SchemeProcedure): procedure is Closure => 'body' in procedure;
+
+const symbol = (name: string): SchemeSymbol => ({ kind: 'symbol', name });
+
+/**
+ * Format a value the way the Scheme printer writes it, e.g. (1 "two" three)
+ */
+export function formatSchemeValue(value: SchemeValue): string {
+  if (value === undefined) {
+    return '#<unspecified>';
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? '#t' : '#f';
+  }
+
+  if (typeof value === 'number') {
+    return writeSchemeNumber(value);
+  }
+
+  if (typeof value === 'string') {
+    return writeSchemeString(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `(${value.map(formatSchemeValue).join(' ')})`;
+  }
+
+  if (isSchemeSymbol(value)) {
+    return value.name;
+  }
+
+  if (isSchemeProcedure(value)) {
+    return `#<procedure ${value.name}>`;
+  }
+
+  if (isAtom(value)) {
+    return 'outgoing' in value
+      ? `(${value.type}${(value as Link).outgoing.map((atom) => ` ${formatSchemeValue(atom)}`).join('')})`
+      : `(${value.type} ${writeSchemeString(value.name ?? value.id)})`;
+  }
+
+  return `(stv ${value.strength} ${value.confidence})`;
+}
+
+export class SchemeEvaluator {
+  private atomSpace: AtomSpace;
+  private config: SchemeEvaluatorConfig;
+  private adapter: SchemeAdapter;
+  private globals: Environment = new Environment();
+  private output: string[] = [];
+  private steps = 0;
+  private depth = 0;
+
+  constructor(atomSpace: AtomSpace, config: Partial<SchemeEvaluatorConfig> = {}) {
+    this.atomSpace = atomSpace;
+    this.adapter = new SchemeAdapter(atomSpace);
+    this.config = {
+      maxSteps: 1000000,
+      maxDepth: 1000,
+      ...config,
+    };
+
+    this.definePrimitives();
+  }
+
+  /**
+   * Evaluate an expression in the global environment
+   *
+   * Definitions persist across calls. Atoms created by an evaluation that fails are rolled back;
+   * the text written by display is returned in metadata.output.
+   */
+  evaluate(expression: SchemeExpression): TranslationResult<SchemeValue> {
+    this.steps = 0;
+    this.depth = 0;
+    this.output = [];
+
+    try {
+      const value = this.atomSpace.transaction(() => this.eval(expression, this.globals));
+
+      return {
+        success: true,
+        result: value,
+        metadata: { steps: this.steps, output: this.output.join('') },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown evaluation error',
+        metadata: { steps: this.steps, output: this.output.join('') },
+      };
+    }
+  }
+
+  /**
+   * Parse and evaluate a Scheme program, returning the value of its last form
+   *
+   * The forms run in order as a single evaluation, so an error in any of them rolls back the
+   * atoms created by the whole program.
+   */
+  evaluateString(source: string): TranslationResult<SchemeValue> {
+    const parseResult = this.adapter.parseProgram(source);
+
+    if (!parseResult.success || !parseResult.result) {
+      return {
+        success: false,
+        error: parseResult.error || 'Parse failed',
+      };
+    }
+
+    return this.evaluate({
+      type: 'list',
+      value: null,
+      children: [{ type: 'symbol', value: 'begin' }, ...parseResult.result],
+    });
+  }
+
+  /**
+   * Bind a host value in the global environment, e.g. an atom the program should work on
+   */
+  define(name: string, value: SchemeValue): void {
+    this.globals.define(name, value);
+  }
+
+  /**
+   * Call a procedure with already evaluated arguments, for primitives taking procedures
+   */
+  private apply(procedure: SchemeProcedure, args: SchemeValue[]): SchemeValue {
+    if (!isClosure(procedure)) {
+      return (procedure as Primitive).call(args);
+    }
+
+    const env = this.bind(procedure, args);
+
+    return this.eval(this.evalBody(procedure.body, env, procedure.name), env);
+  }
+
+  private eval(expression: SchemeExpression, env: Environment): SchemeValue {
+    if (++this.depth > this.config.maxDepth) {
+      throw new SchemeError(`Maximum recursion depth of ${this.config.maxDepth} exceeded`);
+    }
+
+    try {
+      return this.evalInTailPosition(expression, env);
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Evaluate in a loop that replaces the current expression for calls in tail position, so tail
+   * recursion runs in constant stack space
+   */
+  private evalInTailPosition(expression: SchemeExpression, env: Environment): SchemeValue {
+    let expr = expression;
+
+    for (;;) {
+      if (++this.steps > this.config.maxSteps) {
+        throw new SchemeError(`Evaluation exceeded ${this.config.maxSteps} steps`);
+      }
+
+      switch (expr.type) {
+        case 'number':
+        case 'string':
+        case 'boolean':
+        case 'char':
+          return expr.value;
+
+        case 'vector':
+          return this.quote(expr);
+
+        case 'quote':
+          if (expr.value === 'quote') {
+            return this.quote(expr.children![0]);
+          }
+
+          if (expr.value === 'quasiquote') {
+            return this.quasiquote(expr.children![0], env);
+          }
+
+          throw new SchemeError(`${expr.value}: not in quasiquote`);
+
+        case 'pair':
+          throw new SchemeError('Cannot evaluate a dotted pair');
+
+        case 'symbol':
+        case 'atom':
+          return env.lookup(String(expr.value));
+      }
+
+      const children = expr.children ?? [];
+
+      if (children.length === 0) {
+        throw new SchemeError('Cannot evaluate the empty combination ()');
+      }
+
+      const [head, ...args] = children;
+      const keyword = head.type === 'symbol' ? String(head.value) : undefined;
+
+      switch (keyword) {
+        case 'quote':
+          this.expectForm('quote', args, 1, 1);
+          return this.quote(args[0]);
+
+        case 'quasiquote':
+          this.expectForm('quasiquote', args, 1, 1);
+          return this.quasiquote(args[0], env);
+
+        case 'if': {
+          this.expectForm('if', args, 2, 3);
+
+          if (this.eval(args[0], env) !== false) {
+            expr = args[1];
+          } else if (args.length === 3) {
+            expr = args[2];
+          } else {
+            return undefined;
+          }
+
+          continue;
+        }
+
+        case 'define': {
+          this.expectForm('define', args, 1);
+
+          const [target, ...body] = args;
+
+          if (target.type === 'list' || target.type === 'pair') {
+            const [name, ...formals] = target.children ?? [];
+            const rest = target.tail && this.symbolName(target.tail, 'define');
+
+            env.define(this.symbolName(name, 'define'), this.makeClosure(formals, body, env, String(name.value), rest));
+          } else {
+            const name = this.symbolName(target, 'define');
+
+            this.expectForm('define', args, 2, 2);
+            env.define(name, this.nameProcedure(this.eval(body[0], env), name));
+          }
+
+          return undefined;
+        }
+
+        case 'set!':
+          this.expectForm('set!', args, 2, 2);
+          env.assign(this.symbolName(args[0], 'set!'), this.eval(args[1], env));
+
+          return undefined;
+
+        case 'lambda': {
+          this.expectForm('lambda', args, 2);
+
+          const [formals, ...body] = args;
+
+          if (formals.type === 'symbol') {
+            return this.makeClosure([], body, env, 'lambda', String(formals.value));
+          }
+
+          if (formals.type !== 'list' && formals.type !== 'pair') {
+            throw new SchemeError('lambda: expected a list of parameters');
+          }
+
+          const rest = formals.tail && this.symbolName(formals.tail, 'lambda');
+
+          return this.makeClosure(formals.children ?? [], body, env, 'lambda', rest);
+        }
+
+        case 'let':
+        case 'let*': {
+          this.expectForm(keyword, args, 2);
+
+          const named = keyword === 'let' && args[0].type === 'symbol' ? String(args[0].value) : undefined;
+          const [bindings, ...body] = named ? args.slice(1) : args;
+          const pairs = this.letBindings(bindings, keyword);
+          const scope = new Environment(env);
+
+          if (named) {
+            // named let binds a procedure over the variables for looping
+            const loop = this.makeClosure(
+              pairs.map(([name]) => ({ type: 'symbol', value: name })),
+              body,
+              scope,
+              named,
+            );
+
+            scope.define(named, loop);
+          }
+
+          const values = new Environment(named ? scope : env);
+
+          for (const [name, init] of pairs) {
+            values.define(name, this.eval(init, keyword === 'let*' ? values : env));
+          }
+
+          env = values;
+          expr = this.evalBody(body, env, keyword);
+          continue;
+        }
+
+        case 'begin':
+          if (args.length === 0) {
+            return undefined;
+          }
+
+          expr = this.evalBody(args, env, 'begin');
+          continue;
+
+        case 'cond': {
+          let selected: SchemeExpression | undefined;
+
+          for (const clause of args) {
+            const [test, ...body] = clause.type === 'list' ? clause.children ?? [] : [];
+
+            if (!test) {
+              throw new SchemeError('cond: each clause must be a non-empty list');
+            }
+
+            const isElse = test.type === 'symbol' && test.value === 'else';
+            const value = isElse || this.eval(test, env);
+
+            if (value !== false) {
+              if (body.length === 0) {
+                return value;
+              }
+
+              selected = this.evalBody(body, env, 'cond');
+              break;
+            }
+          }
+
+          if (!selected) {
+            return undefined;
+          }
+
+          expr = selected;
+          continue;
+        }
+
+        case 'and':
+        case 'or': {
+          if (args.length === 0) {
+            return keyword === 'and';
+          }
+
+          for (const arg of args.slice(0, -1)) {
+            const value = this.eval(arg, env);
+
+            if (keyword === 'and' ? value === false : value !== false) {
+              return value;
+            }
+          }
+
+          expr = args[args.length - 1];
+          continue;
+        }
+      }
+
+      const procedure = this.eval(head, env);
+      const values = args.map((arg) => this.eval(arg, env));
+
+      if (!isSchemeProcedure(procedure)) {
+        throw new SchemeError(`Not a procedure: ${formatSchemeValue(procedure)}`);
+      }
+
+      if (!isClosure(procedure)) {
+        return (procedure as Primitive).call(values);
+      }
+
+      env = this.bind(procedure, values);
+      expr = this.evalBody(procedure.body, env, procedure.name);
+    }
+  }
+
+  /**
+   * Evaluate all but the last expression of a body and return the last one for tail evaluation
+   */
+  private evalBody(body: SchemeExpression[], env: Environment, form: string): SchemeExpression {
+    if (body.length === 0) {
+      throw new SchemeError(`${form}: empty body`);
+    }
+
+    body.slice(0, -1).forEach((expression) => this.eval(expression, env));
+
+    return body[body.length - 1];
+  }
+
+  private bind(procedure: Closure, args: SchemeValue[]): Environment {
+    const { params, rest } = procedure;
+
+    if (args.length < params.length || (!rest && args.length > params.length)) {
+      throw new SchemeError(
+        `${procedure.name}: expected ${rest ? 'at least ' : ''}${params.length} arguments, got ${args.length}`,
+      );
+    }
+
+    const env = new Environment(procedure.env);
+
+    params.forEach((param, index) => env.define(param, args[index]));
+
+    if (rest) {
+      env.define(rest, args.slice(params.length));
+    }
+
+    return env;
+  }
+
+  /**
+   * Create a closure; the rest parameter, written as the formals symbol or after a dot, collects
+   * the remaining arguments
+   */
+  private makeClosure(
+    formals: SchemeExpression[],
+    body: SchemeExpression[],
+    env: Environment,
+    name: string,
+    rest?: string,
+  ): Closure {
+    if (body.length === 0) {
+      throw new SchemeError(`${name}: empty body`);
+    }
+
+    return {
+      kind: 'procedure',
+      name,
+      params: formals.map((formal) => this.symbolName(formal, 'lambda')),
+      rest,
+      body,
+      env,
+    };
+  }
+
+  /**
+   * Name anonymous lambdas after the variable they are defined as, for error messages
+   */
+  private nameProcedure(value: SchemeValue, name: string): SchemeValue {
+    return isSchemeProcedure(value) && isClosure(value) && value.name === 'lambda' ? { ...value, name } : value;
+  }
+
+  private letBindings(bindings: SchemeExpression, form: string): Array<[string, SchemeExpression]> {
+    if (bindings.type !== 'list') {
+      throw new SchemeError(`${form}: expected a list of bindings`);
+    }
+
+    return (bindings.children ?? []).map((binding) => {
+      const [name, init, ...extra] = binding.type === 'list' ? binding.children ?? [] : [];
+
+      if (!name || !init || extra.length > 0) {
+        throw new SchemeError(`${form}: each binding must be (name value)`);
+      }
+
+      return [this.symbolName(name, form), init];
+    });
+  }
+
+  /**
+   * Turn a datum into a value; vectors read as lists and 'x inside a datum as (quote x)
+   */
+  private quote(expression: SchemeExpression): SchemeValue {
+    switch (expression.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+      case 'char':
+        return expression.value;
+
+      case 'list':
+      case 'vector':
+        return (expression.children ?? []).map((child) => this.quote(child));
+
+      case 'quote':
+        return [symbol(expression.value), this.quote(expression.children![0])];
+
+      case 'pair':
+        throw new SchemeError('quote: dotted pairs are not supported');
+
+      default:
+        return symbol(String(expression.value));
+    }
+  }
+
+  /**
+   * Quote a template, evaluating its unquoted parts; nested quasiquotes are not given levels
+   */
+  private quasiquote(expression: SchemeExpression, env: Environment): SchemeValue {
+    const unquoted = this.getQuoteOperand(expression, 'unquote');
+
+    if (unquoted) {
+      return this.eval(unquoted, env);
+    }
+
+    if (expression.type !== 'list' && expression.type !== 'vector') {
+      return this.quote(expression);
+    }
+
+    return (expression.children ?? []).flatMap((child) => {
+      const spliced = this.getQuoteOperand(child, 'unquote-splicing');
+
+      if (!spliced) {
+        return [this.quasiquote(child, env)];
+      }
+
+      const value = this.eval(spliced, env);
+
+      if (!Array.isArray(value)) {
+        throw new SchemeError(`unquote-splicing: expected a list, got ${formatSchemeValue(value)}`);
+      }
+
+      return value;
+    });
+  }
+
+  /**
+   * The operand of a quote form written either as ,x or as (unquote x)
+   */
+  private getQuoteOperand(expression: SchemeExpression, form: string): SchemeExpression | undefined {
+    if (expression.type === 'quote') {
+      return expression.value === form ? expression.children![0] : undefined;
+    }
+
+    const [head, operand, ...extra] = expression.type === 'list' ? expression.children ?? [] : [];
+
+    return head?.type === 'symbol' && head.value === form && operand && extra.length === 0 ? operand : undefined;
+  }
+
+  private symbolName(expression: SchemeExpression | undefined, form: string): string {
+    if (!expression || expression.type !== 'symbol') {
+      throw new SchemeError(`${form}: expected a symbol`);
+    }
+
+    return String(expression.value);
+  }
+
+  private expectForm(form: string, args: SchemeExpression[], min: number, max = Infinity): void {
+    if (args.length < min || args.length > max) {
+      throw new SchemeError(`${form}: bad syntax`);
+    }
+  }
+
+  private definePrimitives(): void {
+    const define = (name: string, min: number, max: number, fn: (args: SchemeValue[]) => SchemeValue) => {
+      const primitive: Primitive = {
+        kind: 'procedure',
+        name,
+        call: (args) => {
+          if (args.length < min || args.length > max) {
+            throw new SchemeError(
+              `${name}: expected ${min === max ? min : `${min} to ${max}`} arguments, got ${args.length}`,
+            );
+          }
+
+          return fn(args);
+        },
+      };
+
+      this.globals.define(name, primitive);
+    };
+
+    const number = (name: string, value: SchemeValue): number => {
+      if (typeof value !== 'number') {
+        throw new SchemeError(`${name}: expected a number, got ${formatSchemeValue(value)}`);
+      }
+
+      return value;
+    };
+
+    // strengths and confidences feed the PLN formulas, which expect probabilities
+    const probability = (name: string, label: string, value: SchemeValue): number => {
+      const result = number(name, value);
+
+      if (!Number.isFinite(result) || result < 0 || result > 1) {
+        throw new SchemeError(`${name}: ${label} must be between 0 and 1, got ${formatSchemeValue(value)}`);
+      }
+
+      return result;
+    };
+
+    const list = (name: string, value: SchemeValue): SchemeValue[] => {
+      if (!Array.isArray(value)) {
+        throw new SchemeError(`${name}: expected a list, got ${formatSchemeValue(value)}`);
+      }
+
+      return value;
+    };
+
+    const pair = (name: string, value: SchemeValue): SchemeValue[] => {
+      if (list(name, value).length === 0) {
+        throw new SchemeError(`${name}: expected a pair, got ()`);
+      }
+
+      return value as SchemeValue[];
+    };
+
+    const procedure = (name: string, value: SchemeValue): SchemeProcedure => {
+      if (!isSchemeProcedure(value)) {
+        throw new SchemeError(`${name}: expected a procedure, got ${formatSchemeValue(value)}`);
+      }
+
+      return value;
+    };
+
+    const atom = (name: string, value: SchemeValue): Atom => {
+      const current = isAtom(value) ? this.atomSpace.getAtom(value.id) : undefined;
+
+      if (!current) {
+        throw new SchemeError(`${name}: expected an atom in the AtomSpace, got ${formatSchemeValue(value)}`);
+      }
+
+      return current;
+    };
+
+    const text = (name: string, value: SchemeValue): string => {
+      if (typeof value === 'string') {
+        return value;
+      }
+
+      if (isSchemeSymbol(value)) {
+        return value.name;
+      }
+
+      throw new SchemeError(`${name}: expected a string or symbol, got ${formatSchemeValue(value)}`);
+    };
+
+    // any registered node or link type, including those registered at runtime, but not the abstract base types
+    const atomType = (name: string, value: SchemeValue, kind: 'node' | 'link'): AtomType => {
+      const registry = this.atomSpace.getTypeRegistry();
+      const type = text(name, value) as AtomType;
+
+      if (!registry.hasType(type) || [AtomType.ATOM, AtomType.NODE, AtomType.LINK].includes(type)) {
+        throw new SchemeError(`${name}: unknown atom type ${type}`);
+      }
+
+      if (kind === 'node' ? !registry.isNodeType(type) : !registry.isLinkType(type)) {
+        throw new SchemeError(`${name}: ${type} is not a ${kind} type`);
+      }
+
+      return type;
+    };
+
+    const truthValue = (name: string, value: SchemeValue): TruthValue => {
+      if (!isTruthValue(value)) {
+        throw new SchemeError(`${name}: expected a truth value, got ${formatSchemeValue(value)}`);
+      }
+
+      return value;
+    };
+
+    // accepts an atom as well as a truth value
+    const truthValueOf = (name: string, value: SchemeValue): TruthValue =>
+      isAtom(value) ? atom(name, value).truthValue ?? DEFAULT_TRUTH_VALUE : truthValue(name, value);
+
+    const isEqv = (a: SchemeValue, b: SchemeValue): boolean => {
+      if (isSchemeSymbol(a) && isSchemeSymbol(b)) {
+        return a.name === b.name;
+      }
+
+      if (isAtom(a) && isAtom(b)) {
+        return a.id === b.id;
+      }
+
+      return a === b || (Array.isArray(a) && Array.isArray(b) && a.length === 0 && b.length === 0);
+    };
+
+    const isEqual = (a: SchemeValue, b: SchemeValue): boolean => {
+      if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((value, index) => isEqual(value, b[index]));
+      }
+
+      if (isTruthValue(a) && isTruthValue(b)) {
+        return a.strength === b.strength && a.confidence === b.confidence;
+      }
+
+      return isEqv(a, b);
+    };
+
+    const compare = (name: string, test: (a: number, b: number) => boolean) =>
+      define(name, 1, Infinity, (args) =>
+        args.every((arg, index) => index === 0 || test(number(name, args[index - 1]), number(name, arg))),
+      );
+
+    // arithmetic
+    define('+', 0, Infinity, (args) => args.reduce<number>((sum, arg) => sum + number('+', arg), 0));
+    define('*', 0, Infinity, (args) => args.reduce<number>((product, arg) => product * number('*', arg), 1));
+    define('-', 1, Infinity, ([first, ...rest]) =>
+      rest.length === 0
+        ? -number('-', first)
+        : rest.reduce<number>((difference, arg) => difference - number('-', arg), number('-', first)),
+    );
+    define('/', 1, Infinity, ([first, ...rest]) => {
+      const divisors = rest.length === 0 ? [number('/', first)] : rest.map((arg) => number('/', arg));
+
+      if (divisors.includes(0)) {
+        throw new SchemeError('/: division by zero');
+      }
+
+      return divisors.reduce((quotient, divisor) => quotient / divisor, rest.length === 0 ? 1 : number('/', first));
+    });
+
+    const integerDivision = (name: string, fn: (a: number, b: number) => number) =>
+      define(name, 2, 2, ([a, b]) => {
+        if (number(name, b) === 0) {
+          throw new SchemeError(`${name}: division by zero`);
+        }
+
+        return fn(number(name, a), b as number);
+      });
+
+    integerDivision('quotient', (a, b) => Math.trunc(a / b));
+    integerDivision('remainder', (a, b) => a % b);
+    integerDivision('modulo', (a, b) => ((a % b) + b) % b);
+    define('abs', 1, 1, ([a]) => Math.abs(number('abs', a)));
+    define('min', 1, Infinity, (args) => Math.min(...args.map((arg) => number('min', arg))));
+    define('max', 1, Infinity, (args) => Math.max(...args.map((arg) => number('max', arg))));
+    compare('=', (a, b) => a === b);
+    compare('<', (a, b) => a < b);
+    compare('>', (a, b) => a > b);
+    compare('<=', (a, b) => a <= b);
+    compare('>=', (a, b) => a >= b);
+    define('zero?', 1, 1, ([a]) => number('zero?', a) === 0);
+
+    // predicates and equivalence
+    define('not', 1, 1, ([a]) => a === false);
+    define('eq?', 2, 2, ([a, b]) => isEqv(a, b));
+    define('eqv?', 2, 2, ([a, b]) => isEqv(a, b));
+    define('equal?', 2, 2, ([a, b]) => isEqual(a, b));
+    define('number?', 1, 1, ([a]) => typeof a === 'number');
+    define('string?', 1, 1, ([a]) => typeof a === 'string');
+    define('symbol?', 1, 1, ([a]) => isSchemeSymbol(a));
+    define('boolean?', 1, 1, ([a]) => typeof a === 'boolean');
+    define('procedure?', 1, 1, ([a]) => isSchemeProcedure(a));
+    define('null?', 1, 1, ([a]) => Array.isArray(a) && a.length === 0);
+    define('pair?', 1, 1, ([a]) => Array.isArray(a) && a.length > 0);
+    define('list?', 1, 1, ([a]) => Array.isArray(a));
+
+    // lists, only proper lists are supported
+    define('list', 0, Infinity, (args) => args);
+    define('cons', 2, 2, ([head, tail]) => {
+      if (!Array.isArray(tail)) {
+        throw new SchemeError('cons: dotted pairs are not supported, the second argument must be a list');
+      }
+
+      return [head, ...tail];
+    });
+    define('car', 1, 1, ([a]) => pair('car', a)[0]);
+    define('cdr', 1, 1, ([a]) => pair('cdr', a).slice(1));
+    define('length', 1, 1, ([a]) => list('length', a).length);
+    define('append', 0, Infinity, (args) => args.flatMap((arg) => list('append', arg)));
+    define('reverse', 1, 1, ([a]) => [...list('reverse', a)].reverse());
+    define('list-ref', 2, 2, ([a, k]) => {
+      const items = list('list-ref', a);
+      const index = number('list-ref', k);
+
+      if (index < 0 || index >= items.length) {
+        throw new SchemeError(`list-ref: index ${index} out of range`);
+      }
+
+      return items[index];
+    });
+    define('map', 2, Infinity, ([fn, ...lists]) => {
+      const items = lists.map((arg) => list('map', arg));
+      const length = Math.min(...items.map((entries) => entries.length));
+
+      return Array.from({ length }, (_, index) =>
+        this.apply(
+          procedure('map', fn),
+          items.map((entries) => entries[index]),
+        ),
+      );
+    });
+    define('for-each', 2, 2, ([fn, a]) => {
+      list('for-each', a).forEach((item) => this.apply(procedure('for-each', fn), [item]));
+
+      return undefined;
+    });
+    define('filter', 2, 2, ([fn, a]) =>
+      list('filter', a).filter((item) => this.apply(procedure('filter', fn), [item]) !== false),
+    );
+    define('apply', 2, Infinity, ([fn, ...args]) =>
+      this.apply(procedure('apply', fn), [...args.slice(0, -1), ...list('apply', args[args.length - 1])]),
+    );
+
+    // strings and symbols
+    define('string-append', 0, Infinity, (args) =>
+      args
+        .map((arg) => {
+          if (typeof arg !== 'string') {
+            throw new SchemeError(`string-append: expected a string, got ${formatSchemeValue(arg)}`);
+          }
+
+          return arg;
+        })
+        .join(''),
+    );
+    define('symbol->string', 1, 1, ([a]) => {
+      if (!isSchemeSymbol(a)) {
+        throw new SchemeError(`symbol->string: expected a symbol, got ${formatSchemeValue(a)}`);
+      }
+
+      return a.name;
+    });
+    define('string->symbol', 1, 1, ([a]) => symbol(text('string->symbol', a)));
+    define('number->string', 1, 1, ([a]) => String(number('number->string', a)));
+    define('display', 1, 1, ([a]) => {
+      this.output.push(typeof a === 'string' ? a : formatSchemeValue(a));
+
+      return undefined;
+    });
+    define('newline', 0, 0, () => {
+      this.output.push('\n');
+
+      return undefined;
+    });
+
+    // AtomSpace primitives
+    define('cog-new-node', 2, 3, ([type, name, tv]) => {
+      const nodeName = typeof name === 'number' ? String(name) : text('cog-new-node', name);
+
+      return this.atomSpace.createNode(
+        atomType('cog-new-node', type, 'node'),
+        nodeName,
+        tv === undefined ? undefined : truthValue('cog-new-node', tv),
+      );
+    });
+    define('cog-new-link', 1, Infinity, ([type, ...args]) => {
+      const last = args[args.length - 1];
+      const tv = args.length > 0 && isTruthValue(last) ? last : undefined;
+
+      // outgoing atoms may be passed one by one or as lists
+      const flatten = (values: SchemeValue[]): Atom[] =>
+        values.flatMap((value) => (Array.isArray(value) ? flatten(value) : [atom('cog-new-link', value)]));
+
+      return this.atomSpace.createLink(
+        atomType('cog-new-link', type, 'link'),
+        flatten(tv ? args.slice(0, -1) : args),
+        tv,
+      );
+    });
+    define('cog-incoming-set', 1, 1, ([a]) => this.atomSpace.getIncoming(atom('cog-incoming-set', a).id));
+    define('cog-outgoing-set', 1, 1, ([a]) => {
+      const current = atom('cog-outgoing-set', a);
+
+      return 'outgoing' in current ? [...(current as Link).outgoing] : [];
+    });
+    define('cog-name', 1, 1, ([a]) => atom('cog-name', a).name ?? '');
+    define('cog-type', 1, 1, ([a]) => symbol(atom('cog-type', a).type));
+    define('cog-tv', 1, 1, ([a]) => truthValueOf('cog-tv', atom('cog-tv', a)));
+    define('cog-set-tv!', 2, 2, ([a, tv]) => {
+      const current = atom('cog-set-tv!', a);
+
+      this.atomSpace.setTruthValue(current.id, truthValue('cog-set-tv!', tv));
+
+      return this.atomSpace.getAtom(current.id);
+    });
+    define('stv', 2, 2, ([strength, confidence]) => ({
+      strength: probability('stv', 'strength', strength),
+      confidence: probability('stv', 'confidence', confidence),
+    }));
+    define('cog-mean', 1, 1, ([a]) => truthValueOf('cog-mean', a).strength);
+    define('cog-confidence', 1, 1, ([a]) => truthValueOf('cog-confidence', a).confidence);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Tests for the Scheme pretty printer
+ * Covers width-limited layout, special form and atom type indentation, and comment preservation
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SchemePrinter } from './scheme-printer';
+import { readScheme, tokenizeScheme } from './scheme-reader';
+
+const lines = (...text: string[]) => `${text.join('\n')}\n`;
+
+describe('SchemePrinter', () => {
+  const printer = new SchemePrinter({ maxWidth: 30 });
+
+  const format = (source: string, formatter = printer) => {
+    const result = formatter.formatSource(source);
+
+    expect(result.success).toBe(true);
+
+    return result.result;
+  };
+
+  describe('Layout', () => {
+    it('should keep expressions that fit on one line', () => {
+      expect(format('(define   (square x)\n  (* x x))')).toBe(lines('(define (square x) (* x x))'));
+    });
+
+    it('should indent the body of define, lambda and let', () => {
+      expect(format('(define (fact n) (if (= n 0) 1 (* n (fact (- n 1)))))')).toBe(
+        lines('(define (fact n)', '  (if (= n 0)', '      1', '      (* n (fact (- n 1)))))'),
+      );
+      expect(format('(lambda (x y) (display x) (display y))')).toBe(
+        lines('(lambda (x y)', '  (display x)', '  (display y))'),
+      );
+      expect(format('(let ((a 1) (b 2)) (display a) (display b))')).toBe(
+        lines('(let ((a 1) (b 2))', '  (display a)', '  (display b))'),
+      );
+    });
+
+    it('should keep the name and bindings of a named let together', () => {
+      expect(format('(let loop ((i 0)) (when (< i 10) (loop (+ i 1))))')).toBe(
+        lines('(let loop ((i 0))', '  (when (< i 10)', '    (loop (+ i 1))))'),
+      );
+    });
+
+    it('should indent the outgoing set of links and keep node names on the first line', () => {
+      expect(format('(InheritanceLink (ConceptNode "cat") (ConceptNode "animal"))')).toBe(
+        lines('(InheritanceLink', '  (ConceptNode "cat")', '  (ConceptNode "animal"))'),
+      );
+      expect(format('(ConceptNode "a rather long name" (stv 0.9 0.8))')).toBe(
+        lines('(ConceptNode "a rather long name"', '  (stv 0.9 0.8))'),
+      );
+    });
+
+    it('should use the configured special forms and indent width', () => {
+      const custom = new SchemePrinter({ maxWidth: 20, indentWidth: 4, specialForms: { inheritance: 0 } });
+
+      expect(format('(inheritance (concept cat) (concept animal))', custom)).toBe(
+        lines('(inheritance', '    (concept cat)', '    (concept animal))'),
+      );
+    });
+
+    it('should align call arguments under the first argument', () => {
+      expect(format("(list 'alpha 'beta 'gamma 'delta 'epsilon)")).toBe(
+        lines("(list 'alpha", "      'beta", "      'gamma", "      'delta", "      'epsilon)"),
+      );
+    });
+
+    it('should fill lists of atoms and wrap vectors, pairs and quoted data', () => {
+      expect(format("'#(1 2 3 4 5 6 7 8 9 10 11 12 13 14 15)")).toBe(
+        lines("'#(1 2 3 4 5 6 7 8 9 10 11 12", '   13 14 15)'),
+      );
+      expect(format('((first element) (second element) . rest)')).toBe(
+        lines('((first element)', ' (second element)', ' . rest)'),
+      );
+    });
+
+    it('should keep the notation of number and character literals', () => {
+      expect(format('(f #xff #b101 1/3 1e21 -1.5e-3 -0.0 +inf.0 -inf.0 +nan.0)')).toBe(
+        lines(
+          '(f #xff',
+          '   #b101',
+          '   1/3',
+          '   1e21',
+          '   -1.5e-3',
+          '   -0.0',
+          '   +inf.0',
+          '   -inf.0',
+          '   +nan.0)',
+        ),
+      );
+      expect(format('(list #\\x41 #\\space #\\newline #true #false)')).toBe(
+        lines('(list #\\x41', '      #\\space', '      #\\newline', '      #true', '      #false)'),
+      );
+    });
+
+    it('should write numbers built in code in R7RS notation', () => {
+      const numbers = [Infinity, -Infinity, NaN, -0, 255, 1e21].map((value) =>
+        printer.printFlat({ type: 'number', value }),
+      );
+
+      expect(numbers).toEqual(['+inf.0', '-inf.0', '+nan.0', '-0.0', '255', '1e+21']);
+    });
+
+    it('should print the same expressions it read', () => {
+      const source = lines(
+        '(define (describe animal)',
+        "  `(,animal is-a #\\a ,@'(cat)",
+        '            #t',
+        '            "say \\"meow\\""))',
+      );
+      const formatted = format(source)!;
+
+      const flat = (text: string) => readScheme(tokenizeScheme(text)).map((form) => printer.printFlat(form));
+
+      expect(flat(formatted)).toEqual(flat(source));
+      expect(format(formatted)).toBe(formatted);
+    });
+  });
+
+  describe('Comments', () => {
+    it('should keep comments before, after and at the end of forms', () => {
+      expect(format('; header\n(define x 1) ; one\n(define y\n  ; why\n  2 ; two\n  ; end\n  )\n; trailer')).toBe(
+        lines('; header', '(define x 1) ; one', '(define y', '  ; why', '  2 ; two', '  ; end', ')', '; trailer'),
+      );
+    });
+
+    it('should keep block and datum comments', () => {
+      expect(format('(a #| note |# b #;(skipped form) c)')).toBe(
+        lines('(a #| note |#', '   b #;(skipped form)', '   c)'),
+      );
+    });
+
+    it('should move a comment between a quote and its datum before the quote', () => {
+      expect(format("(f '\n ; why\n z)")).toBe(lines('(f', '   ; why', "   'z)"));
+    });
+
+    it('should keep blank lines between top-level forms', () => {
+      expect(format('(a)\n\n\n(b)\n(c)\n\n; end')).toBe(lines('(a)', '', '(b)', '(c)', '', '; end'));
+    });
+  });
+
+  describe('Source formatting', () => {
+    it('should report counts of forms and comments', () => {
+      expect(printer.formatSource('; a\n(b) #| c |#').metadata).toEqual({ formCount: 1, commentCount: 2 });
+    });
+
+    it('should leave sources with syntax errors alone', () => {
+      const result = printer.formatSource('(define x\n  (+ 1 2)');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Missing closing parenthesis at line 1, column 1');
+      expect(result.metadata?.position).toEqual({ offset: 0, line: 1, column: 1 });
+    });
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Scheme pretty printer
+ * Lays out Scheme expressions within a maximum width, indenting special forms and atom types by
+ * their role, and reformats source while keeping its comments
+ */
+
+import type { SchemeExpression, SchemePrinterConfig, SourceSpan, TranslationResult } from './types';
+import {
+  SchemeSyntaxError,
+  readScheme,
+  tokenizeScheme,
+  writeSchemeChar,
+  writeSchemeNumber,
+  writeSchemeString,
+  writeSchemeSymbol,
+} from './scheme-reader';
+
+/**
+ * Number of arguments kept on the line of the head, the rest being indented as a body
+ */
+export const SCHEME_SPECIAL_FORMS: Record<string, number> = {
+  define: 1,
+  'define-syntax': 1,
+  'define-record-type': 2,
+  lambda: 1,
+  let: 1,
+  'let*': 1,
+  letrec: 1,
+  'letrec*': 1,
+  'let-values': 1,
+  'let*-values': 1,
+  when: 1,
+  unless: 1,
+  case: 1,
+  do: 2,
+  begin: 0,
+};
+
+/**
+ * Abbreviations the reader accepts for quote forms
+ */
+export const QUOTE_PREFIXES: Record<string, string> = {
+  quote: "'",
+  quasiquote: '`',
+  unquote: ',',
+  'unquote-splicing': ',@',
+};
+
+interface Comment {
+  text: string;
+  span: SourceSpan;
+}
+
+/**
+ * Comments of a source, keyed by the expression they belong to
+ */
+interface CommentMap {
+  leading: Map<SchemeExpression, Comment[]>; // On the lines before the expression
+  trailing: Map<SchemeExpression, Comment>; // At the end of the expression's last line
+  dangling: Map<SchemeExpression | undefined, Comment[]>; // After the last element of a list, or of the source
+}
+
+/**
+ * Text of a laid out expression, with a trailing comment that still has to go after whatever
+ * closes the line
+ */
+interface Printed {
+  text: string;
+  comment?: string;
+}
+
+const contains = (outer: SourceSpan, inner: SourceSpan) =>
+  outer.start.offset <= inner.start.offset && inner.end.offset <= outer.end.offset;
+
+const isCompound = (expr: SchemeExpression) =>
+  expr.type === 'list' || expr.type === 'vector' || expr.type === 'pair' || expr.type === 'quote';
+
+/**
+ * Elements of a list or vector, followed by the tail of a dotted pair
+ */
+const getElements = (expr: SchemeExpression) => [...(expr.children ?? []), ...(expr.tail ? [expr.tail] : [])];
+
+const emptyComments = (): CommentMap => ({ leading: new Map(), trailing: new Map(), dangling: new Map() });
+
+export class SchemePrinter {
+  private config: SchemePrinterConfig;
+  private comments: CommentMap = emptyComments();
+
+  constructor(config: Partial<SchemePrinterConfig> = {}) {
+    this.config = {
+      maxWidth: 80,
+      indentWidth: 2,
+      ...config,
+      specialForms: { ...SCHEME_SPECIAL_FORMS, ...config.specialForms },
+    };
+  }
+
+  /**
+   * Write an expression on a single line
+   */
+  printFlat(expression: SchemeExpression): string {
+    switch (expression.type) {
+      case 'symbol':
+        return writeSchemeSymbol(String(expression.value));
+
+      case 'string':
+        return writeSchemeString(String(expression.value));
+
+      // literals read from source keep their notation, e.g. #xff, 1/3 or #\x41
+      case 'number':
+        return expression.text ?? writeSchemeNumber(expression.value);
+
+      case 'boolean':
+        return expression.text ?? (expression.value ? '#t' : '#f');
+
+      case 'char':
+        return expression.text ?? writeSchemeChar(String(expression.value));
+
+      case 'quote':
+        return `${QUOTE_PREFIXES[expression.value] ?? "'"}${this.printFlat(expression.children![0])}`;
+
+      case 'vector':
+        return `#${this.printFlat({ ...expression, type: 'list' })}`;
+
+      case 'pair': {
+        const elements = (expression.children ?? []).map((child) => this.printFlat(child));
+        return `(${elements.join(' ')} . ${this.printFlat(expression.tail!)})`;
+      }
+
+      case 'list':
+        return `(${(expression.children ?? []).map((child) => this.printFlat(child)).join(' ')})`;
+
+      default:
+        return String(expression.value);
+    }
+  }
+
+  /**
+   * Lay out an expression within the maximum width
+   */
+  print(expression: SchemeExpression): string {
+    const printed = this.layout(expression, 0);
+
+    return printed.comment ? `${printed.text} ${printed.comment}` : printed.text;
+  }
+
+  /**
+   * Lay out top-level forms one after another, separated by a blank line where the source had one
+   */
+  printProgram(expressions: SchemeExpression[]): string {
+    const lines: string[] = [];
+    let previousEnd: number | undefined;
+
+    const separate = (span?: SourceSpan) => {
+      if (previousEnd !== undefined && span && span.start.line - previousEnd > 1) {
+        lines.push('');
+      }
+
+      previousEnd = span?.end.line ?? previousEnd;
+    };
+
+    for (const expression of expressions) {
+      for (const comment of this.comments.leading.get(expression) ?? []) {
+        separate(comment.span);
+        lines.push(comment.text);
+      }
+
+      separate(expression.span);
+
+      const printed = this.layout(expression, 0);
+      const comment = this.joinComments(printed.comment, this.comments.trailing.get(expression)?.text);
+
+      lines.push(comment ? `${printed.text} ${comment}` : printed.text);
+    }
+
+    for (const comment of this.comments.dangling.get(undefined) ?? []) {
+      separate(comment.span);
+      lines.push(comment.text);
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Reformat Scheme source, keeping its comments and the blank lines between top-level forms
+   *
+   * Sources with syntax errors are left alone and the first error is returned.
+   */
+  formatSource(source: string): TranslationResult<string> {
+    const errors: SchemeSyntaxError[] = [];
+    const comments: SourceSpan[] = [];
+    const forms = readScheme(tokenizeScheme(source, { errors, comments }), { errors, comments });
+
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: errors[0].message,
+        metadata: { position: errors[0].position },
+      };
+    }
+
+    this.comments = this.attachComments(forms, comments, source);
+
+    try {
+      return {
+        success: true,
+        result: this.printProgram(forms),
+        metadata: { formCount: forms.length, commentCount: comments.length },
+      };
+    } finally {
+      this.comments = emptyComments();
+    }
+  }
+
+  /**
+   * Lay out an expression starting at a column; lines after the first are indented absolutely
+   */
+  private layout(expr: SchemeExpression, column: number): Printed {
+    const flat = this.printFlat(expr);
+
+    if (column + flat.length <= this.config.maxWidth && !this.hasComments(expr)) {
+      return { text: flat };
+    }
+
+    if (expr.type === 'quote') {
+      const prefix = QUOTE_PREFIXES[expr.value] ?? "'";
+      const printed = this.layout(expr.children![0], column + prefix.length);
+
+      return { ...printed, text: prefix + printed.text };
+    }
+
+    const elements = getElements(expr);
+
+    if (!isCompound(expr) || elements.length === 0) {
+      return { text: flat };
+    }
+
+    const open = expr.type === 'vector' ? '#(' : '(';
+    const lines = [open];
+    let pending: string | undefined;
+
+    const currentColumn = () => (lines.length === 1 ? column : 0) + lines[lines.length - 1].length;
+
+    const append = (text: string) => {
+      const [first, ...rest] = text.split('\n');
+      lines[lines.length - 1] += first;
+      lines.push(...rest);
+    };
+
+    const newLine = (indent: number) => {
+      if (pending) {
+        lines[lines.length - 1] += ` ${pending}`;
+        pending = undefined;
+      }
+
+      lines.push(' '.repeat(indent));
+    };
+
+    const { isSameLine, getIndent, isData } = this.getLayoutRule(expr, column + open.length);
+
+    // data lists of atoms are filled, as many elements to a line as fit
+    const fill = isData && !elements.some(isCompound);
+
+    elements.forEach((element, index) => {
+      const leading = this.comments.leading.get(element) ?? [];
+      const indent = index === 0 ? column + open.length : getIndent(index);
+      const prefix = element === expr.tail ? '. ' : '';
+      const fits = fill && currentColumn() + 1 + prefix.length + this.printFlat(element).length < this.config.maxWidth;
+
+      if (index > 0 && (pending || leading.length > 0 || !(isSameLine(index) || fits))) {
+        newLine(indent);
+      } else if (index > 0) {
+        append(' ');
+      }
+
+      leading.forEach((comment) => {
+        append(comment.text);
+        newLine(indent);
+      });
+
+      const printed = this.layout(element, currentColumn() + prefix.length);
+
+      append(prefix + printed.text);
+      pending = this.joinComments(pending, printed.comment, this.comments.trailing.get(element)?.text);
+    });
+
+    const dangling = this.comments.dangling.get(expr) ?? [];
+
+    if (dangling.length > 0) {
+      dangling.forEach((comment) => {
+        newLine(getIndent(elements.length));
+        append(comment.text);
+      });
+      newLine(column);
+    }
+
+    append(')');
+
+    return { text: lines.join('\n'), comment: pending };
+  }
+
+  /**
+   * Which elements of a list stay on the line of the previous element, and the column of those
+   * that start a new line
+   *
+   * Special forms keep their head and leading arguments together and indent the body; other
+   * calls align their arguments under the first one, and data lists put every element under
+   * the first element.
+   */
+  private getLayoutRule(
+    expr: SchemeExpression,
+    inner: number,
+  ): { isSameLine: (index: number) => boolean; getIndent: (index: number) => number; isData?: boolean } {
+    const [head, second] = expr.children ?? [];
+    const outer = inner - (expr.type === 'vector' ? 2 : 1);
+
+    if (expr.type === 'list' && head?.type === 'symbol') {
+      const name = String(head.value);
+      let distinguished = this.config.specialForms[name];
+
+      if (distinguished === undefined && /Link$/.test(name)) {
+        distinguished = 0;
+      } else if (distinguished === undefined && /Node$/.test(name)) {
+        distinguished = 1;
+      }
+
+      // named let, (let loop ((i 0)) ...)
+      if (name === 'let' && second?.type === 'symbol') {
+        distinguished = 2;
+      }
+
+      if (distinguished !== undefined) {
+        const body = outer + this.config.indentWidth;
+
+        return {
+          isSameLine: (index) => index <= distinguished,
+          getIndent: (index) => (index <= distinguished ? body + this.config.indentWidth : body),
+        };
+      }
+
+      const aligned = inner + name.length + 1;
+
+      if (aligned <= this.config.maxWidth / 2) {
+        return { isSameLine: (index) => index === 1, getIndent: () => aligned };
+      }
+    }
+
+    return { isSameLine: () => false, getIndent: () => inner, isData: true };
+  }
+
+  private hasComments(expr: SchemeExpression): boolean {
+    const { leading, trailing, dangling } = this.comments;
+
+    if (leading.size + trailing.size + dangling.size === 0) {
+      return false;
+    }
+
+    if (dangling.has(expr)) {
+      return true;
+    }
+
+    return getElements(expr).some(
+      (child) => this.comments.leading.has(child) || this.comments.trailing.has(child) || this.hasComments(child),
+    );
+  }
+
+  private joinComments(...comments: Array<string | undefined>): string | undefined {
+    const present = comments.filter((comment) => comment !== undefined);
+    return present.length > 0 ? present.join(' ') : undefined;
+  }
+
+  /**
+   * Give every comment to the expression it documents: a comment on the line an element ends on
+   * trails that element, other comments lead the next element or, at the end of a list, dangle
+   * inside it
+   */
+  private attachComments(forms: SchemeExpression[], spans: SourceSpan[], source: string): CommentMap {
+    const comments = emptyComments();
+    let previous: SourceSpan | undefined;
+
+    const sorted = [...spans].sort((a, b) => a.start.offset - b.start.offset);
+
+    for (const span of sorted) {
+      // comments inside a #; datum comment are part of it
+      if (previous && contains(previous, span)) {
+        continue;
+      }
+
+      previous = span;
+
+      const comment = { text: source.slice(span.start.offset, span.end.offset), span };
+      let container: SchemeExpression | undefined;
+      let siblings = forms;
+
+      for (;;) {
+        const inner = siblings.find((expr) => expr.span && isCompound(expr) && contains(expr.span, span));
+
+        if (!inner) {
+          break;
+        }
+
+        // a comment between a quote and its datum goes before the quote
+        if (inner.type === 'quote' && !contains(inner.children![0].span!, span)) {
+          break;
+        }
+
+        container = inner;
+        siblings = getElements(inner);
+      }
+
+      const nextIndex = siblings.findIndex((expr) => expr.span!.start.offset >= span.end.offset);
+      const before = siblings[(nextIndex === -1 ? siblings.length : nextIndex) - 1];
+      const inside = siblings.find((expr) => contains(expr.span!, span));
+
+      if (inside) {
+        comments.leading.set(inside, [...(comments.leading.get(inside) ?? []), comment]);
+      } else if (before && before.span!.end.line === span.start.line && !comments.trailing.has(before)) {
+        comments.trailing.set(before, comment);
+      } else if (nextIndex !== -1) {
+        const next = siblings[nextIndex];
+        comments.leading.set(next, [...(comments.leading.get(next) ?? []), comment]);
+      } else {
+        comments.dangling.set(container, [...(comments.dangling.get(container) ?? []), comment]);
+      }
+    }
+
+    return comments;
+  }
+}
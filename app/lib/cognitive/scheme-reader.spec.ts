@@ -0,0 +1,258 @@
+/**
+ * Tests for the Scheme reader
+ * Covers tokens, comments, literals, quote forms, vectors, dotted pairs, source spans, error positions
+ * and error recovery
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  SchemeSyntaxError,
+  readScheme,
+  tokenizeScheme,
+  writeSchemeChar,
+  writeSchemeString,
+  writeSchemeSymbol,
+} from './scheme-reader';
+import type { SchemeExpression } from './types';
+
+const read = (source: string): SchemeExpression[] => readScheme(tokenizeScheme(source));
+
+const readOne = (source: string): SchemeExpression => read(source)[0];
+
+const readError = (source: string): SchemeSyntaxError => {
+  try {
+    read(source);
+  } catch (error) {
+    return error as SchemeSyntaxError;
+  }
+
+  throw new Error(`Expected ${source} to fail`);
+};
+
+describe('Scheme reader', () => {
+  describe('Tokens', () => {
+    it('should record the position of every token', () => {
+      const tokens = tokenizeScheme('(define x\n  "a b")');
+
+      expect(tokens.map((token) => [token.type, token.text])).toEqual([
+        ['open', '('],
+        ['symbol', 'define'],
+        ['symbol', 'x'],
+        ['string', '"a b"'],
+        ['close', ')'],
+      ]);
+      expect(tokens[3].start).toEqual({ offset: 12, line: 2, column: 3 });
+      expect(tokens[3].end).toEqual({ offset: 17, line: 2, column: 8 });
+    });
+
+    it('should skip line, block and datum comments', () => {
+      const source = `; a line comment
+        (a #| a block #| nested |# comment |# b #;(ignored datum) c) ; trailing
+        #;skipped`;
+
+      expect(read(source)).toMatchObject([
+        {
+          type: 'list',
+          value: null,
+          children: [
+            { type: 'symbol', value: 'a' },
+            { type: 'symbol', value: 'b' },
+            { type: 'symbol', value: 'c' },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('Literals', () => {
+    it('should read numbers in every notation', () => {
+      const numbers = read('42 -7 +3 1.5 .5 -1e3 1/4 #xff #b101 #o17 #e1.5 +inf.0').map((expr) => expr.value);
+
+      expect(numbers).toEqual([42, -7, 3, 1.5, 0.5, -1000, 0.25, 255, 5, 15, 1.5, Infinity]);
+      expect(read('+ - ... 1+ ->x').map((expr) => expr.type)).toEqual(Array(5).fill('symbol'));
+    });
+
+    it('should read booleans', () => {
+      expect(read('#t #f #true #false')).toMatchObject([
+        { type: 'boolean', value: true },
+        { type: 'boolean', value: false },
+        { type: 'boolean', value: true },
+        { type: 'boolean', value: false },
+      ]);
+    });
+
+    it('should read characters', () => {
+      expect(read('#\\a #\\space #\\newline #\\x41 #\\( #\\)').map((expr) => expr.value)).toEqual([
+        'a',
+        ' ',
+        '\n',
+        'A',
+        '(',
+        ')',
+      ]);
+      expect(readOne('#\\a').type).toBe('char');
+    });
+
+    it('should decode string escapes', () => {
+      expect(readOne('"say \\"hi\\"\\n\\t\\\\ \\x41;"').value).toBe('say "hi"\n\t\\ A');
+      expect(readOne('"one \\\n     two"').value).toBe('one two');
+      expect(readOne('"ends with \\\\"').value).toBe('ends with \\');
+    });
+
+    it('should read |symbols| with spaces', () => {
+      expect(readOne('|hello world|')).toMatchObject({ type: 'symbol', value: 'hello world' });
+    });
+  });
+
+  describe('Compound data', () => {
+    it('should read quote forms', () => {
+      expect(read("'a `(b ,c ,@d)").map((expr) => [expr.type, expr.value])).toEqual([
+        ['quote', 'quote'],
+        ['quote', 'quasiquote'],
+      ]);
+      expect(readOne('`(b ,c ,@d)').children![0].children!.map((expr) => expr.value)).toEqual([
+        'b',
+        'unquote',
+        'unquote-splicing',
+      ]);
+    });
+
+    it('should read vectors', () => {
+      expect(readOne('#(1 "two" three)')).toMatchObject({
+        type: 'vector',
+        value: null,
+        children: [
+          { type: 'number', value: 1 },
+          { type: 'string', value: 'two' },
+          { type: 'symbol', value: 'three' },
+        ],
+      });
+    });
+
+    it('should read dotted pairs', () => {
+      expect(readOne('(a b . c)')).toMatchObject({
+        type: 'pair',
+        value: null,
+        children: [
+          { type: 'symbol', value: 'a' },
+          { type: 'symbol', value: 'b' },
+        ],
+        tail: { type: 'symbol', value: 'c' },
+      });
+      expect(readOne('(a . (b c))')).toMatchObject({
+        type: 'list',
+        children: [{ value: 'a' }, { value: 'b' }, { value: 'c' }],
+      });
+    });
+
+    it('should read every top-level datum', () => {
+      expect(read('(a) b "c"')).toHaveLength(3);
+      expect(read('  ; only a comment')).toEqual([]);
+    });
+  });
+
+  describe('Errors', () => {
+    it('should report the position of unclosed lists', () => {
+      const error = readError('(a\n  (b c)');
+
+      expect(error).toBeInstanceOf(SchemeSyntaxError);
+      expect(error.message).toBe('Missing closing parenthesis at line 1, column 1');
+      expect(error.position).toEqual({ offset: 0, line: 1, column: 1 });
+    });
+
+    it('should report stray closing parentheses', () => {
+      expect(readError('(a))').message).toBe('Unexpected closing parenthesis at line 1, column 4');
+    });
+
+    it('should report malformed literals', () => {
+      expect(readError('"open').message).toBe('Unterminated string at line 1, column 1');
+      expect(readError('x #| open').message).toBe('Unterminated block comment at line 1, column 3');
+      expect(readError('"\\q"').message).toBe('Unknown escape \\q in string at line 1, column 3');
+      expect(readError('#\\bogus').message).toBe('Unknown character #\\bogus at line 1, column 1');
+      expect(readError('#z').message).toBe('Unknown syntax #z at line 1, column 1');
+    });
+
+    it('should report misplaced dots and missing data', () => {
+      expect(readError('(. a)').message).toBe('Unexpected dot at line 1, column 2');
+      expect(readError('(a . b c)').message).toBe('Expected closing parenthesis after dotted tail at line 1, column 8');
+      expect(readError("(a ')").message).toBe("Missing datum after ' at line 1, column 4");
+    });
+  });
+
+  describe('Spans', () => {
+    it('should record the source range of every expression', () => {
+      const [form] = read("(cat\n  '(a . b))");
+      const quoted = form.children![1];
+
+      expect(form.span).toEqual({ start: { offset: 0, line: 1, column: 1 }, end: { offset: 16, line: 2, column: 12 } });
+      expect(form.children![0].span).toEqual({
+        start: { offset: 1, line: 1, column: 2 },
+        end: { offset: 4, line: 1, column: 5 },
+      });
+      expect(quoted.span!.start.offset).toBe(7);
+      expect(quoted.children![0].span!.start.offset).toBe(8);
+      expect(quoted.children![0].tail!.span!.start.offset).toBe(13);
+    });
+  });
+
+  describe('Error recovery', () => {
+    it('should collect every error and keep reading', () => {
+      const errors: SchemeSyntaxError[] = [];
+      const forms = readScheme(tokenizeScheme('(a #z b)) (c "\\q") (d', { errors }), { errors });
+
+      expect(errors.map((error) => error.reason)).toEqual([
+        'Unknown syntax #z',
+        'Unknown escape \\q in string',
+        'Unexpected closing parenthesis',
+        'Missing closing parenthesis',
+      ]);
+      expect(forms.map((form) => form.children!.map((child) => child.value))).toEqual([['a', 'b'], ['c', 'q'], ['d']]);
+    });
+
+    it('should give errors a range and a fix hint', () => {
+      const errors: SchemeSyntaxError[] = [];
+      readScheme(tokenizeScheme('(x "open', { errors }), { errors });
+
+      expect(errors[0].range).toEqual({
+        start: { offset: 3, line: 1, column: 4 },
+        end: { offset: 8, line: 1, column: 9 },
+      });
+      expect(errors[0].fix).toBe('Add a closing "');
+      expect(errors[1].reason).toBe('Missing closing parenthesis');
+    });
+
+    it('should drop quote forms and dotted tails it cannot complete', () => {
+      const errors: SchemeSyntaxError[] = [];
+      const forms = readScheme(tokenizeScheme("(a ') (b . c d)", { errors }), { errors });
+
+      expect(errors.map((error) => error.reason)).toEqual([
+        "Missing datum after '",
+        'Expected closing parenthesis after dotted tail',
+      ]);
+      expect(forms[0].children).toHaveLength(1);
+      expect(forms[1]).toMatchObject({ type: 'pair', tail: { value: 'c' } });
+    });
+  });
+
+  describe('Writing literals', () => {
+    it('should write strings and characters back in readable form', () => {
+      const text = 'a "quoted"\n\\ string';
+
+      expect(readOne(writeSchemeString(text)).value).toBe(text);
+      expect(writeSchemeChar(' ')).toBe('#\\space');
+      expect(writeSchemeChar('a')).toBe('#\\a');
+    });
+
+    it('should write symbols between bars only when they would read as something else', () => {
+      expect(writeSchemeSymbol('set-car!')).toBe('set-car!');
+      expect(writeSchemeSymbol('two words')).toBe('|two words|');
+      expect(writeSchemeSymbol('1/2')).toBe('|1/2|');
+      expect(writeSchemeSymbol('#t')).toBe('|#t|');
+      expect(writeSchemeSymbol('')).toBe('||');
+
+      for (const name of ['a|b', 'back\\slash', '.', "'quoted", 'tab\tand\nnewline']) {
+        expect(readOne(writeSchemeSymbol(name))).toMatchObject({ type: 'symbol', value: name });
+      }
+    });
+  });
+});
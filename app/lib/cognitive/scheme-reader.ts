@@ -0,0 +1,668 @@
+/**
+ * Scheme reader
+ * Tokenizes and reads R7RS data: comments, quote forms, booleans, characters, strings with
+ * escapes, vectors and dotted pairs, recording the source span of every expression and the
+ * position of syntax errors
+ */
+
+import type { SchemeExpression, SchemeToken, SchemeTokenType, SourcePosition, SourceSpan } from './types';
+
+/**
+ * Thrown for malformed Scheme source, with the range the error was found at
+ */
+export class SchemeSyntaxError extends Error {
+  readonly reason: string; // Message without the position
+  readonly position: SourcePosition;
+  readonly range: SourceSpan;
+  readonly fix?: string; // Hint on how to fix the source
+
+  constructor(reason: string, position: SourcePosition, options: { end?: SourcePosition; fix?: string } = {}) {
+    super(`${reason} at line ${position.line}, column ${position.column}`);
+    this.name = 'SchemeSyntaxError';
+    this.reason = reason;
+    this.position = position;
+    this.range = { start: position, end: options.end ?? position };
+    this.fix = options.fix;
+  }
+}
+
+const QUOTE_FORMS: Record<string, string> = {
+  "'": 'quote',
+  '`': 'quasiquote',
+  ',': 'unquote',
+  ',@': 'unquote-splicing',
+};
+
+const BOOLEANS: Record<string, boolean> = { '#t': true, '#true': true, '#f': false, '#false': false };
+
+const CHARACTER_NAMES: Record<string, string> = {
+  alarm: '\x07',
+  backspace: '\b',
+  delete: '\x7f',
+  escape: '\x1b',
+  newline: '\n',
+  null: '\0',
+  return: '\r',
+  space: ' ',
+  tab: '\t',
+};
+
+const STRING_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+  '|': '|',
+};
+
+const RADIX_PREFIXES: Record<string, number> = { b: 2, o: 8, d: 10, x: 16 };
+
+const RADIX_DIGITS: Record<number, RegExp> = {
+  2: /^[+-]?[01]+$/,
+  8: /^[+-]?[0-7]+$/,
+  16: /^[+-]?[0-9a-f]+$/i,
+};
+
+const SPECIAL_NUMBERS: Record<string, number> = {
+  '+inf.0': Infinity,
+  '-inf.0': -Infinity,
+  '+nan.0': NaN,
+  '-nan.0': NaN,
+};
+
+/**
+ * Options of tokenizeScheme and readScheme
+ */
+export interface SchemeReadOptions {
+  errors?: SchemeSyntaxError[]; // Collects syntax errors instead of throwing the first one
+  origin?: SourcePosition; // Position of the first character, when the source is part of a larger document
+  comments?: SourceSpan[]; // Collects the ranges of line, block and datum comments
+}
+
+const SOURCE_START: SourcePosition = { offset: 0, line: 1, column: 1 };
+
+const isDelimiter = (char: string | undefined) => char === undefined || /[\s()";|]/.test(char);
+
+/**
+ * Parse the text of a numeric literal, e.g. 42, -1.5e3, 1/2, #xff or +inf.0
+ */
+function parseNumber(text: string): number | undefined {
+  let radix = 10;
+  let body = text;
+
+  // radix and exactness prefixes, exactness is not tracked
+  while (/^#[bodxei]/i.test(body)) {
+    radix = RADIX_PREFIXES[body[1].toLowerCase()] ?? radix;
+    body = body.slice(2);
+  }
+
+  if (Object.hasOwn(SPECIAL_NUMBERS, body)) {
+    return SPECIAL_NUMBERS[body];
+  }
+
+  if (radix !== 10) {
+    return RADIX_DIGITS[radix].test(body) ? parseInt(body, radix) : undefined;
+  }
+
+  if (/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(body)) {
+    return Number(body);
+  }
+
+  const rational = /^([+-]?\d+)\/(\d+)$/.exec(body);
+
+  return rational ? Number(rational[1]) / Number(rational[2]) : undefined;
+}
+
+/**
+ * Escape the text of a string or |symbol| for its delimiter
+ */
+function escapeDelimited(value: string, delimiter: string): string {
+  return value.replace(/[\\"|\n\t\r]/g, (char) => {
+    if (char === '"' || char === '|') {
+      return char === delimiter ? `\\${char}` : char;
+    }
+
+    return char === '\n' ? '\\n' : char === '\t' ? '\\t' : char === '\r' ? '\\r' : `\\${char}`;
+  });
+}
+
+/**
+ * Write a string literal with the escapes the reader understands
+ */
+export function writeSchemeString(value: string): string {
+  return `"${escapeDelimited(value, '"')}"`;
+}
+
+/**
+ * Write a symbol, between bars when it would otherwise read as another datum, e.g. |two words| or |42|
+ */
+export function writeSchemeSymbol(name: string): string {
+  const isPlain = /^[^\s()";|'`,#][^\s()";|]*$/.test(name) && name !== '.' && parseNumber(name) === undefined;
+
+  return isPlain ? name : `|${escapeDelimited(name, '|')}|`;
+}
+
+/**
+ * Write a number literal, in R7RS notation for infinities, NaN and negative zero
+ */
+export function writeSchemeNumber(value: number): string {
+  if (Number.isNaN(value)) {
+    return '+nan.0';
+  }
+
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+inf.0' : '-inf.0';
+  }
+
+  return Object.is(value, -0) ? '-0.0' : String(value);
+}
+
+/**
+ * Write a character literal, using the character's name where it has one
+ */
+export function writeSchemeChar(value: string): string {
+  const name = Object.keys(CHARACTER_NAMES).find((key) => CHARACTER_NAMES[key] === value);
+
+  return `#\\${name ?? value}`;
+}
+
+class Lexer {
+  private source: string;
+  private errors?: SchemeSyntaxError[];
+  private comments?: SourceSpan[];
+  private origin: number; // Offset of the first character in the whole document
+  private offset = 0;
+  private line: number;
+  private column: number;
+
+  constructor(source: string, options: SchemeReadOptions) {
+    const origin = options.origin ?? SOURCE_START;
+
+    this.source = source;
+    this.errors = options.errors;
+    this.comments = options.comments;
+    this.origin = origin.offset;
+    this.line = origin.line;
+    this.column = origin.column;
+  }
+
+  tokenize(): SchemeToken[] {
+    const tokens: SchemeToken[] = [];
+
+    for (let token = this.next(); token; token = this.next()) {
+      tokens.push(token);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Read the next token, skipping whitespace and comments
+   */
+  private next(): SchemeToken | undefined {
+    this.skipAtmosphere();
+
+    if (this.offset >= this.source.length) {
+      return undefined;
+    }
+
+    const start = this.position();
+    const startIndex = this.offset;
+    const char = this.peek();
+
+    const token = (type: SchemeTokenType, value?: any): SchemeToken => ({
+      type,
+      text: this.source.slice(startIndex, this.offset),
+      value,
+      start,
+      end: this.position(),
+    });
+
+    if (char === '(' || char === ')') {
+      this.advance();
+      return token(char === '(' ? 'open' : 'close');
+    }
+
+    if (char === "'" || char === '`' || char === ',') {
+      this.advance();
+
+      if (char === ',' && this.peek() === '@') {
+        this.advance();
+      }
+
+      return token('quote', QUOTE_FORMS[this.source.slice(startIndex, this.offset)]);
+    }
+
+    if (char === '"') {
+      return token('string', this.readDelimited('"', 'string', start));
+    }
+
+    if (char === '|') {
+      return token('symbol', this.readDelimited('|', 'symbol', start));
+    }
+
+    if (char === '#' && this.peek(1) === '(') {
+      this.advance(2);
+      return token('vector-open');
+    }
+
+    if (char === '#' && this.peek(1) === ';') {
+      this.advance(2);
+      return token('datum-comment');
+    }
+
+    if (char === '#' && this.peek(1) === '\\') {
+      return token('char', this.readCharacter(start));
+    }
+
+    const text = this.readWord();
+
+    if (text === '.') {
+      return token('dot');
+    }
+
+    if (Object.hasOwn(BOOLEANS, text)) {
+      return token('boolean', BOOLEANS[text]);
+    }
+
+    const number = parseNumber(text);
+
+    if (number !== undefined) {
+      return token('number', number);
+    }
+
+    if (text.startsWith('#')) {
+      this.fail(`Unknown syntax ${text}`, start, 'Write booleans as #t or #f and vectors as #(...)');
+
+      return this.next();
+    }
+
+    return token('symbol', text);
+  }
+
+  /**
+   * Skip whitespace, line comments and nested #| ... |# block comments
+   */
+  private skipAtmosphere(): void {
+    while (this.offset < this.source.length) {
+      const char = this.peek();
+
+      if (/\s/.test(char)) {
+        this.advance();
+      } else if (char === ';') {
+        const start = this.position();
+
+        while (this.offset < this.source.length && this.peek() !== '\n') {
+          this.advance();
+        }
+
+        this.comments?.push({ start, end: this.position() });
+      } else if (char === '#' && this.peek(1) === '|') {
+        const start = this.position();
+        let depth = 0;
+
+        do {
+          if (this.offset >= this.source.length) {
+            this.fail('Unterminated block comment', start, 'Close the comment with |#');
+            return;
+          }
+
+          if (this.peek() === '#' && this.peek(1) === '|') {
+            depth++;
+            this.advance(2);
+          } else if (this.peek() === '|' && this.peek(1) === '#') {
+            depth--;
+            this.advance(2);
+          } else {
+            this.advance();
+          }
+        } while (depth > 0);
+
+        this.comments?.push({ start, end: this.position() });
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Read a string or |symbol| up to the closing delimiter, decoding escapes
+   */
+  private readDelimited(delimiter: string, kind: string, start: SourcePosition): string {
+    let value = '';
+
+    this.advance();
+
+    for (;;) {
+      if (this.offset >= this.source.length) {
+        this.fail(`Unterminated ${kind}`, start, `Add a closing ${delimiter}`);
+        return value;
+      }
+
+      const char = this.advance();
+
+      if (char === delimiter) {
+        return value;
+      }
+
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      const escapeStart = this.position();
+      const escape = this.advance();
+
+      if (escape === '') {
+        this.fail(`Unterminated ${kind}`, start, `Add a closing ${delimiter}`);
+        return value;
+      }
+
+      if (Object.hasOwn(STRING_ESCAPES, escape)) {
+        value += STRING_ESCAPES[escape];
+      } else if (escape === 'x') {
+        const hex = /^([0-9a-f]+);/i.exec(this.source.slice(this.offset));
+
+        if (!hex) {
+          this.fail('Malformed \\x escape, expected hex digits and ;', escapeStart, 'Write hex escapes as \\x41;');
+          continue;
+        }
+
+        this.advance(hex[0].length);
+        value += String.fromCodePoint(parseInt(hex[1], 16));
+      } else if (/[ \t\n]/.test(escape)) {
+        // a backslash before a line break continues the string without the break and indentation
+        while (this.offset < this.source.length && /[ \t\n]/.test(this.peek())) {
+          this.advance();
+        }
+      } else {
+        this.fail(`Unknown escape \\${escape} in ${kind}`, escapeStart, 'Write a backslash as \\\\');
+        value += escape;
+      }
+    }
+  }
+
+  private readCharacter(start: SourcePosition): string {
+    this.advance(2);
+
+    if (this.offset >= this.source.length) {
+      this.fail('Missing character after #\\', start, 'Write a character such as #\\a');
+      return '';
+    }
+
+    // the first character is always part of the literal, so #\( and #\space both work
+    const first = String.fromCodePoint(this.source.codePointAt(this.offset)!);
+
+    this.advance(first.length);
+
+    const name = first + this.readWord();
+
+    if (name === first) {
+      return first;
+    }
+
+    if (Object.hasOwn(CHARACTER_NAMES, name)) {
+      return CHARACTER_NAMES[name];
+    }
+
+    if (/^x[0-9a-f]+$/i.test(name)) {
+      return String.fromCodePoint(parseInt(name.slice(1), 16));
+    }
+
+    this.fail(
+      `Unknown character #\\${name}`,
+      start,
+      'Use a single character, a name such as #\\space or a hex code such as #\\x41',
+    );
+
+    return name;
+  }
+
+  private readWord(): string {
+    const start = this.offset;
+
+    while (!isDelimiter(this.peek())) {
+      this.advance();
+    }
+
+    return this.source.slice(start, this.offset);
+  }
+
+  private peek(ahead = 0): string {
+    return this.source[this.offset + ahead];
+  }
+
+  private advance(count = 1): string {
+    const consumed = this.source.slice(this.offset, this.offset + count);
+
+    for (const char of consumed) {
+      if (char === '\n') {
+        this.line++;
+        this.column = 1;
+      } else {
+        this.column++;
+      }
+    }
+
+    this.offset += consumed.length;
+
+    return consumed;
+  }
+
+  private position(): SourcePosition {
+    return { offset: this.origin + this.offset, line: this.line, column: this.column };
+  }
+
+  /**
+   * Throw a syntax error spanning from start to the current position, or record it and carry on
+   * when collecting errors
+   */
+  private fail(reason: string, start: SourcePosition, fix?: string): void {
+    const error = new SchemeSyntaxError(reason, start, { end: this.position(), fix });
+
+    if (!this.errors) {
+      throw error;
+    }
+
+    this.errors.push(error);
+  }
+}
+
+class Reader {
+  private tokens: SchemeToken[];
+  private errors?: SchemeSyntaxError[];
+  private comments?: SourceSpan[];
+  private index = 0;
+
+  constructor(tokens: SchemeToken[], options: SchemeReadOptions) {
+    this.tokens = tokens;
+    this.errors = options.errors;
+    this.comments = options.comments;
+  }
+
+  readAll(): SchemeExpression[] {
+    const forms: SchemeExpression[] = [];
+
+    for (this.skipDatumComments(); this.index < this.tokens.length; this.skipDatumComments()) {
+      const form = this.read();
+
+      if (form) {
+        forms.push(form);
+      }
+    }
+
+    return forms;
+  }
+
+  /**
+   * Read the datum at the current token; returns undefined when the token cannot start a datum
+   * and the error was recorded
+   */
+  private read(): SchemeExpression | undefined {
+    const token = this.tokens[this.index++];
+
+    if (!token) {
+      throw new SchemeSyntaxError('Unexpected end of input', this.getEnd());
+    }
+
+    switch (token.type) {
+      case 'open':
+      case 'vector-open':
+        return this.readSequence(token);
+
+      case 'close':
+        this.fail('Unexpected closing parenthesis', token, 'Remove this parenthesis');
+        return undefined;
+
+      case 'dot':
+        this.fail('Unexpected dot', token, 'A dot may only come before the last element of a list');
+        return undefined;
+
+      case 'datum-comment':
+        this.index--;
+        this.skipDatumComments();
+
+        return this.read();
+
+      case 'quote': {
+        const datum = this.readDatumAfter(token);
+
+        return datum && { type: 'quote', value: token.value, children: [datum], span: this.spanFrom(token) };
+      }
+
+      case 'number':
+      case 'char':
+      case 'boolean':
+        // keep the literal as written, e.g. #xff or 1/3, so it can be written back unchanged
+        return { type: token.type, value: token.value, span: { start: token.start, end: token.end }, text: token.text };
+
+      default:
+        return { type: token.type, value: token.value, span: { start: token.start, end: token.end } };
+    }
+  }
+
+  /**
+   * Read the elements of a list or vector up to the closing parenthesis; a list may end in a
+   * dotted tail
+   */
+  private readSequence(open: SchemeToken): SchemeExpression {
+    const children: SchemeExpression[] = [];
+    let tail: SchemeExpression | undefined;
+
+    for (;;) {
+      this.skipDatumComments();
+
+      const token = this.tokens[this.index];
+
+      if (!token) {
+        this.fail('Missing closing parenthesis', open, 'Add a ) to close this list');
+        break;
+      }
+
+      if (token.type === 'close') {
+        this.index++;
+        break;
+      }
+
+      if (tail) {
+        this.fail('Expected closing parenthesis after dotted tail', token, 'Only one datum may follow the dot');
+        this.read();
+        continue;
+      }
+
+      if (token.type === 'dot' && open.type === 'open' && children.length > 0) {
+        this.index++;
+        tail = this.readDatumAfter(token);
+        continue;
+      }
+
+      const child = this.read();
+
+      if (child) {
+        children.push(child);
+      }
+    }
+
+    const span = this.spanFrom(open);
+
+    if (open.type === 'vector-open') {
+      return { type: 'vector', value: null, children, span };
+    }
+
+    // (a . (b c)) is the proper list (a b c)
+    if (tail?.type === 'list' || tail?.type === 'pair') {
+      return { ...tail, children: [...children, ...(tail.children ?? [])], span };
+    }
+
+    return tail ? { type: 'pair', value: null, children, tail, span } : { type: 'list', value: null, children, span };
+  }
+
+  private readDatumAfter(token: SchemeToken): SchemeExpression | undefined {
+    this.skipDatumComments();
+
+    const next = this.tokens[this.index];
+
+    if (!next || next.type === 'close') {
+      this.fail(`Missing datum after ${token.text}`, token, `Add a datum after ${token.text} or remove it`);
+      return undefined;
+    }
+
+    return this.read();
+  }
+
+  private skipDatumComments(): void {
+    while (this.tokens[this.index]?.type === 'datum-comment') {
+      const comment = this.tokens[this.index++];
+
+      this.readDatumAfter(comment);
+      this.comments?.push(this.spanFrom(comment));
+    }
+  }
+
+  /**
+   * Span from the start of a token to the end of the last token read
+   */
+  private spanFrom(token: SchemeToken): SourceSpan {
+    return { start: token.start, end: this.tokens[this.index - 1].end };
+  }
+
+  /**
+   * Throw a syntax error covering a token, or record it and carry on when collecting errors
+   */
+  private fail(reason: string, token: SchemeToken, fix: string): void {
+    const error = new SchemeSyntaxError(reason, token.start, { end: token.end, fix });
+
+    if (!this.errors) {
+      throw error;
+    }
+
+    this.errors.push(error);
+  }
+
+  private getEnd(): SourcePosition {
+    return this.tokens[this.tokens.length - 1]?.end ?? SOURCE_START;
+  }
+}
+
+/**
+ * Split Scheme source into tokens, dropping whitespace and comments
+ *
+ * Syntax errors are thrown, unless options.errors is given: then they are collected there and
+ * the rest of the source is still tokenized.
+ */
+export function tokenizeScheme(source: string, options: SchemeReadOptions = {}): SchemeToken[] {
+  return new Lexer(source, options).tokenize();
+}
+
+/**
+ * Read every top-level datum from a token stream
+ *
+ * As with tokenizeScheme, collecting options.errors reads on past syntax errors and returns
+ * whatever could be read around them; an unclosed list is closed at the end of input.
+ */
+export function readScheme(tokens: SchemeToken[], options: SchemeReadOptions = {}): SchemeExpression[] {
+  return new Reader(tokens, options).readAll();
+}
@@ -0,0 +1,124 @@
+/**
+ * Tests for the streaming Scheme parser
+ * Covers form boundaries across chunks, source positions, syntax errors, memory bounds and streams
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SchemeStreamParser, readSchemeStream } from './scheme-stream';
+import { readScheme, tokenizeScheme } from './scheme-reader';
+import type { SchemeExpression } from './types';
+
+const SOURCE = `; knowledge base
+(inheritance cat animal) 'quoted #;(skipped form) "a string"
+#| block
+   comment |# #(1 2) #\\( top-level-symbol
+(evaluation (predicate "likes") (list |two words| #\\)))
+\`(a ,@(b c)) #;#;x y z`;
+
+/**
+ * Push the source in chunks of the given size and collect every form
+ */
+const parseInChunks = (source: string, size: number, parser = new SchemeStreamParser()): SchemeExpression[] => {
+  const forms: SchemeExpression[] = [];
+
+  for (let i = 0; i < source.length; i += size) {
+    forms.push(...parser.push(source.slice(i, i + size)));
+  }
+
+  return [...forms, ...parser.end()];
+};
+
+const streamOf = (chunks: Array<string | Uint8Array>) =>
+  new ReadableStream<string | Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+
+describe('SchemeStreamParser', () => {
+  describe('Form boundaries', () => {
+    it('should read the same forms as the reader, whatever the chunk size', () => {
+      const expected = readScheme(tokenizeScheme(SOURCE));
+
+      for (const size of [1, 2, 3, 7, 64, SOURCE.length]) {
+        expect(parseInChunks(SOURCE, size)).toEqual(expected);
+      }
+    });
+
+    it('should emit forms as soon as they are complete', () => {
+      const parser = new SchemeStreamParser();
+
+      expect(parser.push('(inheritance cat')).toEqual([]);
+      expect(parser.push(' animal) (member').map((form) => form.children!.length)).toEqual([3]);
+      expect(parser.push(' cat pets) trailing')).toHaveLength(1);
+      expect(parser.end()).toMatchObject([{ type: 'symbol', value: 'trailing' }]);
+    });
+
+    it('should wait for a delimiter before ending a top-level symbol', () => {
+      const parser = new SchemeStreamParser();
+
+      expect(parser.push('conc')).toEqual([]);
+      expect(parser.push('ept ')).toMatchObject([{ value: 'concept' }]);
+    });
+
+    it('should keep the buffer to the unfinished form', () => {
+      const parser = new SchemeStreamParser();
+
+      parser.push('(a b) (c d) (e');
+
+      expect(parser.getProgress()).toEqual({ charsRead: 14, formCount: 2, skippedCount: 0, bufferedLength: 3 });
+    });
+  });
+
+  describe('Positions and errors', () => {
+    it('should report positions in the whole source', () => {
+      const forms = parseInChunks('(a)\n  (b\n c)', 2);
+
+      expect(forms[1].span).toEqual({
+        start: { offset: 6, line: 2, column: 3 },
+        end: { offset: 12, line: 3, column: 4 },
+      });
+    });
+
+    it('should skip forms with syntax errors and keep reading', () => {
+      const parser = new SchemeStreamParser();
+      const forms = parseInChunks('(good 1) (bad #z) ) (good 2) (unclosed', 4, parser);
+
+      expect(forms.map((form) => form.children![1].value)).toEqual([1, 2]);
+      expect(parser.getErrors().map((error) => error.message)).toEqual([
+        'Unknown syntax #z at line 1, column 15',
+        'Unexpected closing parenthesis at line 1, column 19',
+        'Missing closing parenthesis at line 1, column 30',
+      ]);
+      expect(parser.getProgress().skippedCount).toBe(3);
+    });
+
+    it('should reject forms longer than the limit', () => {
+      const parser = new SchemeStreamParser({ maxFormLength: 10 });
+
+      parser.push('(short) ');
+
+      expect(() => parser.push('(this form is too long')).toThrow(
+        'Top-level form longer than 10 characters at line 1, column 9',
+      );
+    });
+  });
+
+  describe('Streams', () => {
+    it('should read forms from a stream of UTF-8 bytes', async () => {
+      const bytes = new TextEncoder().encode('(concept "café") (concept "naïve")');
+      const batches: SchemeExpression[][] = [];
+
+      // split inside the multi-byte characters
+      for await (const forms of readSchemeStream(
+        streamOf([bytes.slice(0, 14), bytes.slice(14, 30), bytes.slice(30)]),
+      )) {
+        batches.push(forms);
+      }
+
+      expect(batches.flat().map((form) => form.children![1].value)).toEqual(['café', 'naïve']);
+      expect(batches).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Streaming Scheme parser
+ * Reads Scheme source chunk by chunk and emits each top-level form as soon as it is complete, so
+ * large knowledge files never have to be held in memory or tokenized as a whole
+ */
+
+import type { SchemeExpression, SchemeStreamParserConfig, SourcePosition } from './types';
+import { SchemeSyntaxError, readScheme, tokenizeScheme } from './scheme-reader';
+
+type ScanMode = 'code' | 'line-comment' | 'block-comment' | 'string' | 'symbol';
+
+const isDelimiter = (char: string) => /[\s()";|]/.test(char);
+
+/**
+ * Incremental parser for Scheme source arriving in chunks
+ *
+ * A light scanner follows nesting, strings and comments to find where each top-level form ends;
+ * only then is the form tokenized and read. The buffer holds the unfinished form alone, so memory
+ * is bounded by the longest form rather than the whole source.
+ *
+ * Forms with syntax errors are not emitted; their errors are collected in getErrors().
+ */
+export class SchemeStreamParser {
+  private config: SchemeStreamParserConfig;
+  private buffer = '';
+  private errors: SchemeSyntaxError[] = [];
+  private charsRead = 0;
+  private formCount = 0;
+  private skippedCount = 0;
+
+  // scanner state, index is the next character of the buffer to scan
+  private index = 0;
+  private position: SourcePosition = { offset: 0, line: 1, column: 1 };
+  private formStart = 0;
+  private formOrigin: SourcePosition = this.position;
+  private mode: ScanMode = 'code';
+  private depth = 0; // Open parentheses
+  private commentDepth = 0; // Open #| block comments
+  private needed = 0; // Data still needed to complete the top-level form, e.g. after a quote
+  private inWord = false;
+  private escaped = false; // The previous character was a backslash in a string or |symbol|
+  private literalNext = false; // The next character belongs to a #\ character literal
+
+  constructor(config: Partial<SchemeStreamParserConfig> = {}) {
+    this.config = {
+      maxFormLength: 1000000,
+      ...config,
+    };
+  }
+
+  /**
+   * Add a chunk of source and return the top-level forms it completed
+   */
+  push(chunk: string): SchemeExpression[] {
+    this.buffer += chunk;
+    this.charsRead += chunk.length;
+
+    const forms = this.scan(false);
+
+    if (this.buffer.length > this.config.maxFormLength) {
+      const leading = this.buffer.length - this.buffer.trimStart().length;
+
+      throw new SchemeSyntaxError(
+        `Top-level form longer than ${this.config.maxFormLength} characters`,
+        movePosition(this.formOrigin, this.buffer.slice(0, leading)),
+      );
+    }
+
+    return forms;
+  }
+
+  /**
+   * Signal the end of the source and return the remaining forms; an unfinished form is read as
+   * is, so its syntax errors are reported
+   */
+  end(): SchemeExpression[] {
+    const forms = this.scan(true);
+
+    if (this.buffer.trim() !== '') {
+      forms.push(...this.readForm(this.buffer));
+    }
+
+    this.buffer = '';
+    this.index = 0;
+
+    return forms;
+  }
+
+  getErrors(): SchemeSyntaxError[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Characters pushed, forms emitted and skipped for syntax errors, and the length of the unfinished form
+   */
+  getProgress(): { charsRead: number; formCount: number; skippedCount: number; bufferedLength: number } {
+    return {
+      charsRead: this.charsRead,
+      formCount: this.formCount,
+      skippedCount: this.skippedCount,
+      bufferedLength: this.buffer.length,
+    };
+  }
+
+  /**
+   * Scan the buffered source, reading every top-level form that ends in it; the scan stops early
+   * where a character is needed to decide, unless the source has ended
+   */
+  private scan(final: boolean): SchemeExpression[] {
+    const forms: SchemeExpression[] = [];
+    const buffer = this.buffer;
+
+    const complete = () => {
+      if (this.depth > 0) {
+        return;
+      }
+
+      this.needed = Math.max(this.needed - 1, 0);
+
+      if (this.needed === 0) {
+        forms.push(...this.readForm(buffer.slice(this.formStart, this.index)));
+        this.formStart = this.index;
+        this.formOrigin = this.position;
+      }
+    };
+
+    while (this.index < buffer.length) {
+      const char = buffer[this.index];
+      const next = buffer[this.index + 1];
+      const waiting = next === undefined && !final;
+
+      if (this.literalNext) {
+        this.literalNext = false;
+        this.advance(buffer, 1);
+        continue;
+      }
+
+      if (this.mode === 'line-comment') {
+        this.mode = char === '\n' ? 'code' : this.mode;
+        this.advance(buffer, 1);
+        continue;
+      }
+
+      if (this.mode === 'block-comment') {
+        if ((char === '#' || char === '|') && waiting) {
+          break;
+        }
+
+        if (char === '#' && next === '|') {
+          this.commentDepth++;
+          this.advance(buffer, 2);
+        } else if (char === '|' && next === '#') {
+          this.commentDepth--;
+          this.mode = this.commentDepth === 0 ? 'code' : this.mode;
+          this.advance(buffer, 2);
+        } else {
+          this.advance(buffer, 1);
+        }
+
+        continue;
+      }
+
+      if (this.mode === 'string' || this.mode === 'symbol') {
+        const closing = this.mode === 'string' ? '"' : '|';
+
+        this.advance(buffer, 1);
+
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === closing) {
+          this.mode = 'code';
+          complete();
+        }
+
+        continue;
+      }
+
+      if (this.inWord) {
+        if (!isDelimiter(char)) {
+          this.advance(buffer, 1);
+          continue;
+        }
+
+        this.inWord = false;
+        complete();
+      }
+
+      if ((char === '#' || char === ',') && waiting) {
+        break;
+      }
+
+      if (char === ';') {
+        this.mode = 'line-comment';
+        this.advance(buffer, 1);
+      } else if (char === '"' || char === '|') {
+        this.mode = char === '"' ? 'string' : 'symbol';
+        this.advance(buffer, 1);
+      } else if (char === '(') {
+        this.depth++;
+        this.advance(buffer, 1);
+      } else if (char === ')') {
+        // a stray parenthesis at the top level is read on its own, so its error is reported
+        this.depth = Math.max(this.depth - 1, 0);
+        this.advance(buffer, 1);
+        complete();
+      } else if (char === "'" || char === '`' || char === ',') {
+        this.advance(buffer, char === ',' && next === '@' ? 2 : 1);
+        this.needed = this.depth === 0 ? Math.max(this.needed, 1) : this.needed;
+      } else if (char === '#' && next === '|') {
+        this.mode = 'block-comment';
+        this.commentDepth = 1;
+        this.advance(buffer, 2);
+      } else if (char === '#' && next === ';') {
+        // the datum comment consumes the next datum on top of whatever the form still needs
+        this.needed += this.depth === 0 ? 1 : 0;
+        this.advance(buffer, 2);
+      } else if (char === '#' && next === '(') {
+        this.depth++;
+        this.advance(buffer, 2);
+      } else if (char === '#' && next === '\\') {
+        this.inWord = true;
+        this.literalNext = true;
+        this.advance(buffer, 2);
+      } else if (/\s/.test(char)) {
+        this.advance(buffer, 1);
+      } else {
+        this.inWord = true;
+        this.advance(buffer, 1);
+      }
+    }
+
+    // drop the forms already read from the buffer
+    this.buffer = buffer.slice(this.formStart);
+    this.index -= this.formStart;
+    this.formStart = 0;
+
+    return forms;
+  }
+
+  private readForm(source: string): SchemeExpression[] {
+    const errors: SchemeSyntaxError[] = [];
+    const forms = readScheme(tokenizeScheme(source, { errors, origin: this.formOrigin }), { errors });
+
+    if (errors.length > 0) {
+      this.errors.push(...errors);
+      this.skippedCount++;
+
+      return [];
+    }
+
+    this.formCount += forms.length;
+
+    return forms;
+  }
+
+  private advance(buffer: string, count: number): void {
+    this.position = movePosition(this.position, buffer.slice(this.index, this.index + count));
+    this.index += count;
+  }
+}
+
+/**
+ * Position reached by moving over text from a position
+ */
+function movePosition(position: SourcePosition, text: string): SourcePosition {
+  let { offset, line, column } = position;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+
+    offset++;
+
+    // columns count code points like the lexer, so the second half of a surrogate pair adds none
+    if (code === 0x0a) {
+      line++;
+      column = 1;
+    } else if (code < 0xdc00 || code > 0xdfff) {
+      column++;
+    }
+  }
+
+  return { offset, line, column };
+}
+
+/**
+ * Read a stream of Scheme source, yielding the top-level forms completed by each chunk
+ *
+ * Byte chunks are decoded as UTF-8. Pass a parser to inspect its errors and progress.
+ */
+export async function* readSchemeStream(
+  stream: ReadableStream<string | Uint8Array>,
+  parser: SchemeStreamParser = new SchemeStreamParser(),
+): AsyncGenerator<SchemeExpression[]> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+
+      if (done) {
+        break;
+      }
+
+      yield parser.push(typeof value === 'string' ? value : decoder.decode(value, { stream: true }));
+    }
+
+    yield [...parser.push(decoder.decode()), ...parser.end()];
+  } finally {
+    reader.releaseLock();
+  }
+}
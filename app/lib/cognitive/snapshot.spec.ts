@@ -0,0 +1,181 @@
+/**
+ * Tests for AtomSpace snapshots
+ * Covers JSON and binary round trips of atoms, values and tensor fragments
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { AtomSpace } from './atomspace';
+import { SNAPSHOT_VERSION, decodeBinarySnapshot, encodeBinarySnapshot } from './snapshot';
+import { AtomType } from './types';
+import type { AtomSpaceSnapshot, Link, Node } from './types';
+
+describe('AtomSpace snapshots', () => {
+  let atomSpace: AtomSpace;
+
+  beforeEach(() => {
+    atomSpace = new AtomSpace();
+
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.9, confidence: 0.8 });
+    const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    const legs = atomSpace.createNode(AtomType.PREDICATE_NODE, 'legs') as Node;
+
+    legs.value = { count: 4, tags: ['quadruped'] };
+
+    const inheritance = atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal], {
+      strength: 0.95,
+      confidence: 0.7,
+    });
+
+    atomSpace.createLink(AtomType.EVALUATION_LINK, [legs, atomSpace.createLink(AtomType.LIST_LINK, [inheritance])]);
+    atomSpace.setNotation(inheritance.id, { outgoing: [{ keyword: 'concept', nameType: 'symbol' }, null] });
+    atomSpace.createTensorFragment(
+      { modality: 2, depth: 2, context: 1, salience: 1, autonomy_index: 1 },
+      new Float32Array([0.5, -1.25, 3, 7.75]),
+    );
+  });
+
+  const describeAtoms = (space: AtomSpace) =>
+    space
+      .getAllAtoms()
+      .map((atom) => ({
+        id: atom.id,
+        type: atom.type,
+        name: atom.name,
+        truthValue: atom.truthValue,
+        value: (atom as Node).value,
+        notation: atom.notation,
+        outgoing: (atom as Link).outgoing?.map((outgoingAtom) => outgoingAtom.id),
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id));
+
+  describe('JSON', () => {
+    it('should reference outgoing atoms by ID and list them first', () => {
+      const snapshot = atomSpace.exportSnapshot();
+      const positions = new Map(snapshot.atoms.map((atom, index) => [atom.id, index]));
+
+      expect(snapshot.version).toBe(SNAPSHOT_VERSION);
+      expect(snapshot.atoms).toHaveLength(6);
+
+      for (const [index, atom] of snapshot.atoms.entries()) {
+        atom.outgoing?.forEach((id) => expect(positions.get(id)).toBeLessThan(index));
+      }
+    });
+
+    it('should round-trip atoms, truth values, node values, notations and tensor fragments', () => {
+      const json = JSON.stringify(atomSpace.exportSnapshot());
+      const restored = new AtomSpace();
+
+      restored.importSnapshot(JSON.parse(json));
+
+      expect(describeAtoms(restored)).toEqual(describeAtoms(atomSpace));
+
+      const [original] = atomSpace.getAllTensorFragments();
+      const fragment = restored.getTensorFragment(original.id);
+
+      expect(fragment).toBeDefined();
+      expect(Array.from(fragment!.data)).toEqual([0.5, -1.25, 3, 7.75]);
+      expect(fragment!.shape).toEqual(original.shape);
+    });
+
+    it('should rebuild the incoming index of imported links', () => {
+      const restored = new AtomSpace();
+
+      restored.importSnapshot(atomSpace.exportSnapshot());
+
+      const cat = restored.getNode(AtomType.CONCEPT_NODE, 'cat')!;
+
+      expect(restored.getIncoming(cat.id).map((link) => link.type)).toEqual([AtomType.INHERITANCE_LINK]);
+    });
+
+    it('should merge into existing atoms and rewire links to their IDs', () => {
+      const target = new AtomSpace();
+      const existingCat = target.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+      target.importSnapshot(atomSpace.exportSnapshot());
+
+      const link = target.getAtomsByType(AtomType.INHERITANCE_LINK)[0] as Link;
+
+      expect(target.getAtomsByName('cat')).toHaveLength(1);
+      expect(link.outgoing[0].id).toBe(existingCat.id);
+    });
+
+    it('should resolve links against atoms already in the AtomSpace', () => {
+      const snapshot = atomSpace.exportSnapshot();
+      const target = new AtomSpace();
+      const nodes = snapshot.atoms.filter((atom) => !atom.outgoing);
+
+      target.importSnapshot({ ...snapshot, atoms: nodes, tensorFragments: [] });
+      target.importSnapshot({ ...snapshot, atoms: snapshot.atoms.filter((atom) => atom.outgoing) });
+
+      expect(describeAtoms(target)).toEqual(describeAtoms(atomSpace));
+    });
+
+    it('should replace existing contents when requested', () => {
+      const target = new AtomSpace();
+
+      target.createNode(AtomType.CONCEPT_NODE, 'unrelated');
+      target.importSnapshot(atomSpace.exportSnapshot(), { replace: true });
+
+      expect(target.getAtomsByName('unrelated')).toHaveLength(0);
+      expect(target.getAllAtoms()).toHaveLength(6);
+    });
+
+    it('should leave the AtomSpace unchanged when a link references an unknown atom', () => {
+      const snapshot: AtomSpaceSnapshot = atomSpace.exportSnapshot();
+      const target = new AtomSpace();
+
+      snapshot.atoms.push({ id: 'broken', type: AtomType.LIST_LINK, outgoing: ['missing'] });
+
+      expect(() => target.importSnapshot(snapshot)).toThrow('unknown atom missing');
+      expect(target.getAllAtoms()).toHaveLength(0);
+      expect(target.getAllTensorFragments()).toHaveLength(0);
+    });
+
+    it('should reject unsupported versions', () => {
+      const snapshot = { ...atomSpace.exportSnapshot(), version: '2.0.0' };
+
+      expect(() => new AtomSpace().importSnapshot(snapshot)).toThrow('Unsupported snapshot version');
+    });
+  });
+
+  describe('Binary', () => {
+    it('should round-trip through the binary format', () => {
+      const restored = new AtomSpace();
+
+      restored.importBinarySnapshot(atomSpace.exportBinarySnapshot());
+
+      expect(describeAtoms(restored)).toEqual(describeAtoms(atomSpace));
+      expect(restored.getAllTensorFragments().map((fragment) => fragment.id)).toEqual(
+        atomSpace.getAllTensorFragments().map((fragment) => fragment.id),
+      );
+    });
+
+    it('should be smaller than the JSON snapshot', () => {
+      const space = new AtomSpace();
+      const root = space.createNode(AtomType.CONCEPT_NODE, 'root');
+
+      for (let i = 0; i < 200; i++) {
+        const leaf = space.createNode(AtomType.CONCEPT_NODE, `leaf-${i}`, { strength: 0.5, confidence: 0.5 });
+        space.createLink(AtomType.INHERITANCE_LINK, [leaf, root]);
+      }
+
+      const snapshot = space.exportSnapshot();
+      const json = new TextEncoder().encode(JSON.stringify(snapshot));
+
+      expect(encodeBinarySnapshot(snapshot).length).toBeLessThan(json.length / 2);
+    });
+
+    it('should decode to the same snapshot', () => {
+      const snapshot = atomSpace.exportSnapshot();
+
+      expect(decodeBinarySnapshot(encodeBinarySnapshot(snapshot))).toEqual(snapshot);
+    });
+
+    it('should reject data that is not a snapshot', () => {
+      expect(() => decodeBinarySnapshot(new Uint8Array([1, 2, 3, 4, 5]))).toThrow('Not an AtomSpace binary snapshot');
+      expect(() => decodeBinarySnapshot(encodeBinarySnapshot(atomSpace.exportSnapshot()).slice(0, 20))).toThrow(
+        'Unexpected end of binary snapshot',
+      );
+    });
+  });
+});
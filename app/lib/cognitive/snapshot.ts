@@ -0,0 +1,448 @@
+/**
+ * AtomSpace snapshot encoding
+ * Builds versioned snapshots of atoms and tensor fragments and converts them to a compact binary form
+ */
+
+import type {
+  Atom,
+  AtomSpaceSnapshot,
+  AtomType,
+  Link,
+  SerializedAtom,
+  SnapshotTensorFragment,
+  TensorFragment,
+} from './types';
+
+export const SNAPSHOT_VERSION = '1.2.0';
+
+const BINARY_MAGIC = [0x41, 0x53, 0x4e, 0x50]; // "ASNP"
+const BINARY_FORMAT_VERSION = 2; // Version 2 added notations, version 1 files are still read
+
+const FLAG_LINK = 1;
+const FLAG_NAME = 2;
+const FLAG_TRUTH_VALUE = 4;
+const FLAG_CONFIDENCE = 8;
+const FLAG_VALUE = 16;
+const FLAG_ATTENTION_VALUE = 32;
+const FLAG_NOTATION = 64;
+
+/**
+ * Serialize atoms and tensor fragments into a snapshot
+ *
+ * Atoms are ordered so that every link comes after its outgoing atoms, which lets importers
+ * rebuild the hypergraph in a single pass.
+ */
+export function createSnapshot(
+  atoms: Atom[],
+  tensorFragments: TensorFragment[],
+  serializeFragment: (fragment: TensorFragment) => string,
+): AtomSpaceSnapshot {
+  const known = new Map(atoms.map((atom) => [atom.id, atom]));
+  const visited = new Set<string>();
+  const ordered: SerializedAtom[] = [];
+
+  const visit = (atom: Atom) => {
+    if (visited.has(atom.id)) {
+      return;
+    }
+
+    visited.add(atom.id);
+
+    if ('outgoing' in atom) {
+      for (const outgoingAtom of (atom as Link).outgoing) {
+        if (!known.has(outgoingAtom.id)) {
+          throw new Error(`Link ${atom.id} references atom ${outgoingAtom.id} outside the snapshot`);
+        }
+
+        visit(known.get(outgoingAtom.id)!);
+      }
+    }
+
+    ordered.push(serializeAtom(atom));
+  };
+
+  atoms.forEach(visit);
+
+  return {
+    version: SNAPSHOT_VERSION,
+    createdAt: Date.now(),
+    atoms: ordered,
+    tensorFragments: tensorFragments.map((fragment) => ({
+      ...JSON.parse(serializeFragment(fragment)),
+      id: fragment.id,
+    })),
+  };
+}
+
+/**
+ * Check that a snapshot can be read by this version
+ */
+export function validateSnapshot(snapshot: AtomSpaceSnapshot): void {
+  const [major] = String(snapshot?.version).split('.');
+
+  if (major !== SNAPSHOT_VERSION.split('.')[0]) {
+    throw new Error(`Unsupported snapshot version: ${snapshot?.version}`);
+  }
+
+  if (!Array.isArray(snapshot.atoms) || !Array.isArray(snapshot.tensorFragments)) {
+    throw new Error('Malformed snapshot: missing atoms or tensor fragments');
+  }
+}
+
+/**
+ * Encode a snapshot in the compact binary format
+ *
+ * Strings are stored once in a string table, numbers as varints or float64 and links refer to
+ * their outgoing atoms by position, so large spaces shrink well below their JSON size.
+ */
+export function encodeBinarySnapshot(snapshot: AtomSpaceSnapshot): Uint8Array {
+  const writer = new BinaryWriter();
+  const strings = new Map<string, number>();
+  const positions = new Map(snapshot.atoms.map((atom, index) => [atom.id, index]));
+
+  const intern = (value: string) => {
+    if (!strings.has(value)) {
+      strings.set(value, strings.size);
+    }
+
+    return strings.get(value)!;
+  };
+
+  const body = new BinaryWriter();
+
+  body.varint(snapshot.atoms.length);
+
+  for (const atom of snapshot.atoms) {
+    const flags =
+      (atom.outgoing ? FLAG_LINK : 0) |
+      (atom.name !== undefined ? FLAG_NAME : 0) |
+      (atom.truthValue ? FLAG_TRUTH_VALUE : 0) |
+      (atom.confidence !== undefined ? FLAG_CONFIDENCE : 0) |
+      (atom.value !== undefined ? FLAG_VALUE : 0) |
+      (atom.attentionValue ? FLAG_ATTENTION_VALUE : 0) |
+      (atom.notation ? FLAG_NOTATION : 0);
+
+    body.byte(flags);
+    body.varint(intern(atom.id));
+    body.varint(intern(atom.type));
+
+    if (atom.name !== undefined) {
+      body.varint(intern(atom.name));
+    }
+
+    if (atom.truthValue) {
+      body.float64(atom.truthValue.strength);
+      body.float64(atom.truthValue.confidence);
+    }
+
+    if (atom.confidence !== undefined) {
+      body.float64(atom.confidence);
+    }
+
+    if (atom.attentionValue) {
+      body.float64(atom.attentionValue.sti);
+      body.float64(atom.attentionValue.lti);
+      body.byte(atom.attentionValue.vlti ? 1 : 0);
+    }
+
+    if (atom.notation) {
+      body.varint(intern(JSON.stringify(atom.notation)));
+    }
+
+    if (atom.value !== undefined) {
+      body.varint(intern(JSON.stringify(atom.value)));
+    }
+
+    if (atom.outgoing) {
+      body.varint(atom.outgoing.length);
+      atom.outgoing.forEach((id) => body.varint(positions.get(id)!));
+    }
+  }
+
+  body.varint(snapshot.tensorFragments.length);
+
+  for (const fragment of snapshot.tensorFragments) {
+    const { modality, depth, context, salience, autonomy_index: autonomyIndex } = fragment.shape;
+
+    body.varint(intern(fragment.id));
+    body.varint(intern(fragment.version));
+    [modality, depth, context, salience, autonomyIndex].forEach((dimension) => body.varint(dimension));
+    body.varint(fragment.primeFactors.length);
+    fragment.primeFactors.forEach((factor) => body.varint(factor));
+    body.varint(intern(JSON.stringify(fragment.metadata)));
+    body.bytes(base64ToBytes(fragment.data));
+  }
+
+  writer.raw(BINARY_MAGIC);
+  writer.byte(BINARY_FORMAT_VERSION);
+  writer.varint(intern(snapshot.version));
+  writer.float64(snapshot.createdAt);
+  writer.varint(strings.size);
+  strings.forEach((_index, value) => writer.string(value));
+  writer.raw(body.toBytes());
+
+  return writer.toBytes();
+}
+
+/**
+ * Decode a snapshot produced by encodeBinarySnapshot
+ */
+export function decodeBinarySnapshot(bytes: Uint8Array): AtomSpaceSnapshot {
+  const reader = new BinaryReader(bytes);
+
+  if (BINARY_MAGIC.some((byte) => reader.byte() !== byte)) {
+    throw new Error('Not an AtomSpace binary snapshot');
+  }
+
+  const formatVersion = reader.byte();
+
+  if (formatVersion < 1 || formatVersion > BINARY_FORMAT_VERSION) {
+    throw new Error(`Unsupported binary snapshot format: ${formatVersion}`);
+  }
+
+  const versionIndex = reader.varint();
+  const createdAt = reader.float64();
+  const strings = Array.from({ length: reader.varint() }, () => reader.string());
+  const string = () => strings[reader.varint()];
+
+  const atoms: SerializedAtom[] = [];
+  const atomCount = reader.varint();
+
+  for (let i = 0; i < atomCount; i++) {
+    const flags = reader.byte();
+    const atom: SerializedAtom = { id: string(), type: string() as AtomType };
+
+    if (flags & FLAG_NAME) {
+      atom.name = string();
+    }
+
+    if (flags & FLAG_TRUTH_VALUE) {
+      atom.truthValue = { strength: reader.float64(), confidence: reader.float64() };
+    }
+
+    if (flags & FLAG_CONFIDENCE) {
+      atom.confidence = reader.float64();
+    }
+
+    if (flags & FLAG_ATTENTION_VALUE) {
+      atom.attentionValue = { sti: reader.float64(), lti: reader.float64(), vlti: reader.byte() === 1 };
+    }
+
+    if (flags & FLAG_NOTATION) {
+      atom.notation = JSON.parse(string());
+    }
+
+    if (flags & FLAG_VALUE) {
+      atom.value = JSON.parse(string());
+    }
+
+    if (flags & FLAG_LINK) {
+      atom.outgoing = Array.from({ length: reader.varint() }, () => atoms[reader.varint()].id);
+    }
+
+    atoms.push(atom);
+  }
+
+  const tensorFragments: SnapshotTensorFragment[] = [];
+  const fragmentCount = reader.varint();
+
+  for (let i = 0; i < fragmentCount; i++) {
+    const id = string();
+    const version = string();
+    const [modality, depth, context, salience, autonomyIndex] = Array.from({ length: 5 }, () => reader.varint());
+    const primeFactors = Array.from({ length: reader.varint() }, () => reader.varint());
+    const metadata = JSON.parse(string());
+    const data = bytesToBase64(reader.bytes());
+
+    tensorFragments.push({
+      id,
+      version,
+      shape: { modality, depth, context, salience, autonomy_index: autonomyIndex },
+      primeFactors,
+      metadata,
+      data,
+    });
+  }
+
+  return { version: strings[versionIndex], createdAt, atoms, tensorFragments };
+}
+
+/**
+ * Serialize a single atom, replacing its outgoing atoms with their IDs
+ */
+export function serializeAtom(atom: Atom): SerializedAtom {
+  const serialized: SerializedAtom = { id: atom.id, type: atom.type };
+
+  if (atom.name !== undefined) {
+    serialized.name = atom.name;
+  }
+
+  if (atom.truthValue) {
+    serialized.truthValue = { ...atom.truthValue };
+  }
+
+  if (atom.confidence !== undefined) {
+    serialized.confidence = atom.confidence;
+  }
+
+  if (atom.attentionValue) {
+    serialized.attentionValue = { ...atom.attentionValue };
+  }
+
+  if (atom.notation) {
+    serialized.notation = atom.notation;
+  }
+
+  if ('value' in atom && (atom as { value?: any }).value !== undefined) {
+    serialized.value = (atom as { value?: any }).value;
+  }
+
+  if ('outgoing' in atom) {
+    serialized.outgoing = (atom as Link).outgoing.map((outgoingAtom) => outgoingAtom.id);
+  }
+
+  return serialized;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000; // 32KB chunks to avoid call stack overflow
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+
+  return btoa(binary);
+}
+
+class BinaryWriter {
+  private chunks: number[] = [];
+  private buffers: Uint8Array[] = [];
+  private scratch = new DataView(new ArrayBuffer(8));
+
+  byte(value: number): void {
+    this.chunks.push(value & 0xff);
+  }
+
+  raw(bytes: ArrayLike<number>): void {
+    this.flush();
+    this.buffers.push(Uint8Array.from(bytes));
+  }
+
+  varint(value: number): void {
+    let remaining = value;
+
+    while (remaining >= 0x80) {
+      this.byte(remaining % 0x80 | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+
+    this.byte(remaining);
+  }
+
+  float64(value: number): void {
+    this.scratch.setFloat64(0, value, true);
+
+    for (let i = 0; i < 8; i++) {
+      this.byte(this.scratch.getUint8(i));
+    }
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.varint(bytes.length);
+    this.raw(bytes);
+  }
+
+  string(value: string): void {
+    this.bytes(new TextEncoder().encode(value));
+  }
+
+  toBytes(): Uint8Array {
+    this.flush();
+
+    const output = new Uint8Array(this.buffers.reduce((size, buffer) => size + buffer.length, 0));
+    let offset = 0;
+
+    for (const buffer of this.buffers) {
+      output.set(buffer, offset);
+      offset += buffer.length;
+    }
+
+    return output;
+  }
+
+  private flush(): void {
+    if (this.chunks.length > 0) {
+      this.buffers.push(Uint8Array.from(this.chunks));
+      this.chunks = [];
+    }
+  }
+}
+
+class BinaryReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  byte(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('Unexpected end of binary snapshot');
+    }
+
+    return this.data[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+
+    return value;
+  }
+
+  float64(): number {
+    return this.view.getFloat64(this.advance(8), true);
+  }
+
+  bytes(): Uint8Array {
+    const length = this.varint();
+    const start = this.advance(length);
+
+    return this.data.slice(start, start + length);
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes());
+  }
+
+  private advance(length: number): number {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Unexpected end of binary snapshot');
+    }
+
+    const start = this.offset;
+    this.offset += length;
+
+    return start;
+  }
+}
@@ -94,6 +94,33 @@ describe('AgenticTranslator', () => {
       const conceptNodes = result.result!.filter((atom) => atom.type === AtomType.CONCEPT_NODE);
       expect(conceptNodes.length).toBeGreaterThan(3);
     });
+
+    it('should compute the evaluation truth value from the action and parameter truth values', () => {
+      atomSpace.createNode(AtomType.CONCEPT_NODE, 'kitchen', { strength: 0.5, confidence: 0.6 });
+
+      const primitive: AgenticPrimitive = {
+        action: 'navigate',
+        parameters: { target: 'kitchen' },
+        metadata: { truthValue: { strength: 0.8, confidence: 0.7 } },
+      };
+
+      const result = translator.agenticToHypergraph(primitive);
+      const action = result.result!.find((atom) => atom.type === AtomType.PREDICATE_NODE)!;
+      const evaluation = result.result!.find((atom) => atom.type === AtomType.EVALUATION_LINK)!;
+
+      expect(action.truthValue).toEqual({ strength: 0.8, confidence: 0.7 });
+      expect(evaluation.truthValue!.strength).toBeCloseTo(0.4);
+      expect(evaluation.truthValue!.confidence).toBeCloseTo(0.6);
+    });
+
+    it('should fall back to the configured truth value', () => {
+      translator = new AgenticTranslator(atomSpace, { defaultTruthValue: { strength: 0.9, confidence: 0.5 } });
+
+      const result = translator.agenticToHypergraph({ action: 'wait', parameters: {} });
+      const evaluation = result.result!.find((atom) => atom.type === AtomType.EVALUATION_LINK)!;
+
+      expect(evaluation.truthValue).toEqual({ strength: 0.9, confidence: 0.5 });
+    });
   });
 
   describe('Hypergraph to Agentic translation', () => {
@@ -528,5 +555,20 @@ describe('AgenticTranslator', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('No evaluation link found');
     });
+
+    it('should leave no partial atoms behind when translation fails', () => {
+      const circular: Record<string, any> = { name: 'loop' };
+      circular.self = circular;
+
+      const primitive: AgenticPrimitive = {
+        action: 'serialize',
+        parameters: { format: 'json', payload: circular },
+      };
+
+      const result = translator.agenticToHypergraph(primitive);
+
+      expect(result.success).toBe(false);
+      expect(atomSpace.getAllAtoms()).toEqual([]);
+    });
   });
 });
@@ -13,77 +13,102 @@ import type {
   TranslationResult,
   RoundTripTest,
   LossMetrics,
+  TruthValue,
+  AgenticTranslatorConfig,
 } from './types';
 import { AtomType } from './types';
 import { AtomSpace } from './atomspace';
 import { SchemeAdapter } from './scheme-adapter';
+import { conjunction } from './pln';
 
 export class AgenticTranslator {
   private atomSpace: AtomSpace;
   private schemeAdapter: SchemeAdapter;
+  private config: AgenticTranslatorConfig;
 
-  constructor(atomSpace: AtomSpace) {
+  constructor(atomSpace: AtomSpace, config: Partial<AgenticTranslatorConfig> = {}) {
     this.atomSpace = atomSpace;
     this.schemeAdapter = new SchemeAdapter(atomSpace);
+    this.config = {
+      defaultTruthValue: { strength: 1.0, confidence: 0.9 },
+      ...config,
+    };
   }
 
   /**
    * Convert an agentic primitive to hypergraph atoms
+   *
+   * The action is asserted with the truth value in the primitive's metadata, or the configured
+   * default. The evaluation of the action is the PLN conjunction of the action and every parameter
+   * and context atom that carries a truth value.
    */
   agenticToHypergraph(primitive: AgenticPrimitive): TranslationResult<Atom[]> {
     try {
-      const atoms: Atom[] = [];
-
-      // Create action node
-      const actionNode = this.atomSpace.createNode(AtomType.PREDICATE_NODE, primitive.action, {
-        strength: 1.0,
-        confidence: 0.9,
-      });
-      atoms.push(actionNode);
-
-      // Create parameter nodes and links
-      const parameterAtoms = this.createParameterStructure(primitive.parameters);
-      atoms.push(...parameterAtoms);
-
-      // Create context structure if present
-      let contextAtoms: Atom[] = [];
-
-      if (primitive.context) {
-        contextAtoms = this.createContextStructure(primitive.context);
-        atoms.push(...contextAtoms);
-      }
+      // roll back the partial hypergraph if any step throws
+      const translation = this.atomSpace.transaction(() => {
+        const atoms: Atom[] = [];
+
+        // Create action node
+        const actionNode = this.atomSpace.createNode(
+          AtomType.PREDICATE_NODE,
+          primitive.action,
+          this.getAssertedTruthValue(primitive),
+        );
+        atoms.push(actionNode);
+
+        // Create parameter nodes and links
+        const parameterAtoms = this.createParameterStructure(primitive.parameters);
+        atoms.push(...parameterAtoms);
+
+        // Create context structure if present
+        let contextAtoms: Atom[] = [];
+
+        if (primitive.context) {
+          contextAtoms = this.createContextStructure(primitive.context);
+          atoms.push(...contextAtoms);
+        }
 
-      // Create main evaluation link
-      const parameterListLink = this.atomSpace.createLink(AtomType.LIST_LINK, parameterAtoms);
-      atoms.push(parameterListLink);
+        // Create main evaluation link
+        const parameterListLink = this.atomSpace.createLink(AtomType.LIST_LINK, parameterAtoms);
+        atoms.push(parameterListLink);
+
+        const evaluationLink = this.atomSpace.createLink(
+          AtomType.EVALUATION_LINK,
+          [actionNode, parameterListLink],
+          conjunction(
+            [actionNode, ...parameterAtoms, ...contextAtoms]
+              .map((atom) => atom.truthValue)
+              .filter((truthValue): truthValue is TruthValue => truthValue !== undefined),
+          ),
+        );
+        atoms.push(evaluationLink);
+
+        // Link context if present
+        if (contextAtoms.length > 0) {
+          const contextListLink = this.atomSpace.createLink(AtomType.LIST_LINK, contextAtoms);
+          atoms.push(contextListLink);
+
+          const contextEvaluationLink = this.atomSpace.createLink(AtomType.EVALUATION_LINK, [
+            this.atomSpace.createNode(AtomType.PREDICATE_NODE, 'has-context'),
+            this.atomSpace.createLink(AtomType.LIST_LINK, [evaluationLink, contextListLink]),
+          ]);
+          atoms.push(contextEvaluationLink);
+        }
 
-      const evaluationLink = this.atomSpace.createLink(AtomType.EVALUATION_LINK, [actionNode, parameterListLink], {
-        strength: 1.0,
-        confidence: 0.9,
+        return {
+          success: true,
+          result: atoms,
+          metadata: {
+            atomCount: atoms.length,
+            hasContext: !!primitive.context,
+            parameterCount: Object.keys(primitive.parameters).length,
+          },
+        };
       });
-      atoms.push(evaluationLink);
-
-      // Link context if present
-      if (contextAtoms.length > 0) {
-        const contextListLink = this.atomSpace.createLink(AtomType.LIST_LINK, contextAtoms);
-        atoms.push(contextListLink);
-
-        const contextEvaluationLink = this.atomSpace.createLink(AtomType.EVALUATION_LINK, [
-          this.atomSpace.createNode(AtomType.PREDICATE_NODE, 'has-context'),
-          this.atomSpace.createLink(AtomType.LIST_LINK, [evaluationLink, contextListLink]),
-        ]);
-        atoms.push(contextEvaluationLink);
-      }
 
-      return {
-        success: true,
-        result: atoms,
-        metadata: {
-          atomCount: atoms.length,
-          hasContext: !!primitive.context,
-          parameterCount: Object.keys(primitive.parameters).length,
-        },
-      };
+      this.atomSpace.reportUsage(translation.result!, 'translation');
+
+      return translation;
     } catch (error) {
       return {
         success: false,
@@ -142,9 +167,12 @@ export class AgenticTranslator {
         metadata: {
           reconstructedFrom: 'hypergraph',
           sourceAtomCount: atoms.length,
+          truthValue: actionEvaluation.truthValue,
         },
       };
 
+      this.atomSpace.reportUsage(atoms, 'translation');
+
       return {
         success: true,
         result: primitive,
@@ -290,6 +318,24 @@ export class AgenticTranslator {
     }
   }
 
+  private getAssertedTruthValue(primitive: AgenticPrimitive): TruthValue {
+    const truthValue = primitive.metadata?.truthValue;
+
+    if (
+      truthValue &&
+      typeof truthValue.strength === 'number' &&
+      typeof truthValue.confidence === 'number' &&
+      truthValue.strength >= 0 &&
+      truthValue.strength <= 1 &&
+      truthValue.confidence >= 0 &&
+      truthValue.confidence <= 1
+    ) {
+      return { strength: truthValue.strength, confidence: truthValue.confidence };
+    }
+
+    return { ...this.config.defaultTruthValue };
+  }
+
   private createParameterStructure(parameters: Record<string, any>): Atom[] {
     const atoms: Atom[] = [];
 
@@ -423,7 +469,10 @@ export class AgenticTranslator {
       case 'symbol':
         return String(expr.value);
       case 'list':
+      case 'vector':
         return expr.children?.map((child) => this.schemeExpressionToValue(child)) || [];
+      case 'quote':
+        return this.schemeExpressionToValue(expr.children![0]);
       default:
         return expr.value;
     }
@@ -0,0 +1,31 @@
+/**
+ * Tests for truth value merge policies
+ */
+
+import { describe, expect, it } from 'vitest';
+import { mergeTruthValues } from './truth-value';
+import { reviseTruthValues } from './pln';
+
+describe('Truth value merging', () => {
+  describe('Merge policies', () => {
+    const existing = { strength: 0.8, confidence: 0.6 };
+    const incoming = { strength: 0.3, confidence: 0.2 };
+
+    it('should keep the more confident estimate', () => {
+      expect(mergeTruthValues(existing, incoming, 'max-confidence')).toEqual(existing);
+      expect(mergeTruthValues(incoming, existing, 'max-confidence')).toEqual(existing);
+    });
+
+    it('should overwrite with the incoming estimate', () => {
+      expect(mergeTruthValues(existing, incoming, 'overwrite')).toEqual(incoming);
+    });
+
+    it('should revise with the revision policy', () => {
+      expect(mergeTruthValues(existing, incoming, 'revision')).toEqual(reviseTruthValues(existing, incoming));
+    });
+
+    it('should not alias the merged truth value', () => {
+      expect(mergeTruthValues(existing, incoming, 'max-confidence')).not.toBe(existing);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Truth value merge policies
+ * Decides how an AtomSpace combines the truth value of a re-asserted atom with the stored one
+ */
+
+import type { TruthValue, TruthValueMergePolicy } from './types';
+import { reviseTruthValues } from './pln';
+
+/**
+ * Merge the truth value of a re-asserted atom into the stored one
+ */
+export function mergeTruthValues(
+  existing: TruthValue,
+  incoming: TruthValue,
+  policy: TruthValueMergePolicy = 'max-confidence',
+): TruthValue {
+  if (typeof policy === 'function') {
+    return policy(existing, incoming);
+  }
+
+  switch (policy) {
+    case 'revision':
+      return reviseTruthValues(existing, incoming);
+    case 'overwrite':
+      return { ...incoming };
+    case 'max-confidence':
+      return incoming.confidence > existing.confidence ? { ...incoming } : { ...existing };
+    default:
+      throw new Error(`Unknown truth value merge policy: ${policy}`);
+  }
+}
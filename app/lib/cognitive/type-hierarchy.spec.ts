@@ -0,0 +1,211 @@
+/**
+ * Tests for the atom type hierarchy
+ * Covers built-in types, runtime registration and subtype queries
+ */
+
+import { describe, expect, it, beforeEach } from 'vitest';
+import { AtomSpace } from './atomspace';
+import { AtomTypeRegistry, AtomValidationError } from './type-hierarchy';
+import { AtomType } from './types';
+import type { Atom } from './types';
+
+describe('AtomTypeRegistry', () => {
+  let registry: AtomTypeRegistry;
+
+  beforeEach(() => {
+    registry = new AtomTypeRegistry();
+  });
+
+  it('should place built-in types below Node and Link', () => {
+    expect(registry.isNodeType(AtomType.CONCEPT_NODE)).toBe(true);
+    expect(registry.isLinkType(AtomType.INHERITANCE_LINK)).toBe(true);
+    expect(registry.isLinkType(AtomType.CONCEPT_NODE)).toBe(false);
+    expect(registry.getParents(AtomType.LIST_LINK)).toEqual([AtomType.LINK]);
+  });
+
+  it('should register custom types at runtime', () => {
+    const ordered = registry.registerType('OrderedLink', AtomType.LINK);
+    const sequence = registry.registerType('SequenceLink', [ordered, AtomType.LIST_LINK]);
+
+    expect(registry.hasType('SequenceLink')).toBe(true);
+    expect(registry.isSubtypeOf(sequence, ordered)).toBe(true);
+    expect(registry.isSubtypeOf(sequence, AtomType.LIST_LINK)).toBe(true);
+    expect(registry.getSubtypes(AtomType.LINK)).toContain(sequence);
+  });
+
+  it('should inherit signatures from parent types', () => {
+    const strictInheritance = registry.registerType('StrictInheritanceLink', AtomType.INHERITANCE_LINK);
+
+    expect(registry.getArity(AtomType.NOT_LINK)).toEqual({ min: 1, max: 1 });
+    expect(registry.getArity(strictInheritance)).toEqual({ min: 2, max: 2 });
+    expect(registry.getSignature(AtomType.LIST_LINK)).toBeUndefined();
+  });
+
+  it('should report arity violations', () => {
+    const [issue] = registry.validateOutgoing(AtomType.AND_LINK, []);
+
+    expect(issue).toMatchObject({ code: 'arity', type: AtomType.AND_LINK, expected: { min: 1 }, actual: 0 });
+    expect(issue.message).toBe('AndLink expects at least 1 outgoing atoms, got 0');
+    expect(
+      registry.validateOutgoing(AtomType.EXECUTION_LINK, Array(4).fill(AtomType.SCHEMA_NODE))[0].message,
+    ).toContain('expects 2 to 3');
+    expect(registry.validateOutgoing(AtomType.LIST_LINK, [])).toEqual([]);
+  });
+
+  it('should report argument type violations, accepting subtypes', () => {
+    const issues = registry.validateOutgoing(AtomType.EVALUATION_LINK, [AtomType.CONCEPT_NODE, AtomType.LIST_LINK]);
+
+    expect(issues).toEqual([
+      {
+        code: 'argument-type',
+        type: AtomType.EVALUATION_LINK,
+        message: 'EvaluationLink expects PredicateNode at position 0, got ConceptNode',
+        position: 0,
+        expected: AtomType.PREDICATE_NODE,
+        actual: AtomType.CONCEPT_NODE,
+      },
+    ]);
+
+    const goalPredicate = registry.registerType('GoalPredicateNode', AtomType.PREDICATE_NODE);
+
+    expect(registry.validateOutgoing(AtomType.EVALUATION_LINK, [goalPredicate, AtomType.LIST_LINK])).toEqual([]);
+  });
+
+  it('should accept variables in typed positions', () => {
+    const typedVariable = registry.registerType('TypedVariableNode', AtomType.VARIABLE_NODE);
+
+    expect(registry.validateOutgoing(AtomType.EVALUATION_LINK, [AtomType.VARIABLE_NODE, AtomType.LIST_LINK])).toEqual(
+      [],
+    );
+    expect(registry.validateOutgoing(AtomType.EXECUTION_LINK, [typedVariable, AtomType.LIST_LINK])).toEqual([]);
+  });
+
+  it('should validate custom signatures with rest types', () => {
+    const setLink = registry.registerType('ConceptSetLink', AtomType.LINK, {
+      signature: { arity: { min: 1 }, restType: AtomType.CONCEPT_NODE },
+    });
+
+    const issues = registry.validateOutgoing(setLink, [AtomType.CONCEPT_NODE, AtomType.NUMBER_NODE]);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'argument-type', position: 1, actual: AtomType.NUMBER_NODE });
+  });
+
+  it('should reject atoms of unknown types or the wrong kind', () => {
+    expect(registry.validateAtom({ id: 'a', type: 'MysteryNode' as AtomType, name: 'x' })[0].code).toBe('unknown-type');
+    expect(registry.validateAtom({ id: 'b', type: AtomType.LIST_LINK, name: 'x' })[0].code).toBe('kind');
+    expect(registry.validateAtom({ id: 'c', type: AtomType.CONCEPT_NODE, outgoing: [] } as Atom)[0].code).toBe('kind');
+  });
+
+  it('should reject invalid registrations', () => {
+    expect(() => registry.registerType(AtomType.CONCEPT_NODE, AtomType.NODE)).toThrow('already registered');
+    expect(() => registry.registerType('OrphanLink', 'MissingLink' as AtomType)).toThrow('Unknown parent type');
+    expect(() => registry.registerType('RootlessNode')).toThrow('must inherit from Node or Link');
+    expect(() => registry.registerType('SizedNode', AtomType.NODE, { signature: { arity: { min: 1 } } })).toThrow(
+      'Only link types can declare a signature',
+    );
+    expect(() => registry.registerType('LooseAtom', AtomType.ATOM)).toThrow('must inherit from Node or Link');
+  });
+});
+
+describe('AtomSpace subtype queries', () => {
+  let registry: AtomTypeRegistry;
+  let atomSpace: AtomSpace;
+
+  beforeEach(() => {
+    registry = new AtomTypeRegistry();
+    atomSpace = new AtomSpace({ typeRegistry: registry });
+  });
+
+  it('should reject links that do not match the arity of their type', () => {
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+    expect(() => atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat])).toThrow('expects 2 outgoing atoms');
+    expect(atomSpace.getAtomsByType(AtomType.INHERITANCE_LINK)).toHaveLength(0);
+  });
+
+  it('should throw structured validation errors from addAtom', () => {
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const list = atomSpace.createLink(AtomType.LIST_LINK, [cat]);
+    let error: unknown;
+
+    try {
+      atomSpace.createLink(AtomType.EVALUATION_LINK, [cat, list, cat]);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(AtomValidationError);
+    expect((error as AtomValidationError).issues.map((issue) => issue.code)).toEqual(['arity', 'argument-type']);
+    expect(atomSpace.getAllAtoms()).toHaveLength(2);
+  });
+
+  it('should store EvaluationLink patterns with a variable predicate', () => {
+    const predicate = atomSpace.createNode(AtomType.VARIABLE_NODE, '$P');
+    const args = atomSpace.createLink(AtomType.LIST_LINK, [atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat')]);
+
+    expect(atomSpace.createLink(AtomType.EVALUATION_LINK, [predicate, args]).outgoing[0]).toBe(predicate);
+  });
+
+  it('should validate atoms without adding them', () => {
+    const issues = atomSpace.validateAtom({ id: 'x', type: AtomType.NOT_LINK, outgoing: [] } as Atom);
+
+    expect(issues[0].code).toBe('arity');
+    expect(atomSpace.getAllAtoms()).toHaveLength(0);
+  });
+
+  it('should match types exactly by default', () => {
+    atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+    expect(atomSpace.getAtomsByType(AtomType.NODE)).toHaveLength(0);
+  });
+
+  it('should include subtypes when requested', () => {
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const animal = atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    const legs = atomSpace.createNode(AtomType.PREDICATE_NODE, 'legs');
+
+    atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+    atomSpace.createLink(AtomType.LIST_LINK, [legs]);
+
+    expect(atomSpace.getAtomsByType(AtomType.NODE, { includeSubtypes: true })).toHaveLength(3);
+    expect(
+      atomSpace
+        .getAtomsByType(AtomType.LINK, { includeSubtypes: true })
+        .map((atom) => atom.type)
+        .sort(),
+    ).toEqual([AtomType.INHERITANCE_LINK, AtomType.LIST_LINK]);
+  });
+
+  it('should include atoms of custom types', () => {
+    const contextLink = registry.registerType('ContextLink', AtomType.LINK);
+    const cat = atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+
+    atomSpace.createLink(contextLink, [cat]);
+
+    expect(atomSpace.getAtomsByType(AtomType.LINK, { includeSubtypes: true }).map((atom) => atom.type)).toEqual([
+      'ContextLink',
+    ]);
+  });
+
+  it('should include subtypes inherited from a parent AtomSpace', () => {
+    const frame = new AtomSpace({ parent: atomSpace });
+
+    atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    frame.createNode(AtomType.PREDICATE_NODE, 'legs');
+
+    expect(frame.getTypeRegistry()).toBe(registry);
+    expect(frame.getAtomsByType(AtomType.NODE, { includeSubtypes: true })).toHaveLength(2);
+  });
+
+  it('should give every AtomSpace built without a registry one of its own', () => {
+    const first = new AtomSpace();
+    const second = new AtomSpace();
+
+    first.getTypeRegistry().registerType('ContextLink', AtomType.LINK);
+
+    expect(second.getTypeRegistry()).not.toBe(first.getTypeRegistry());
+    expect(second.getTypeRegistry().hasType('ContextLink')).toBe(false);
+    expect(() => second.getTypeRegistry().registerType('ContextLink', AtomType.LINK)).not.toThrow();
+  });
+});
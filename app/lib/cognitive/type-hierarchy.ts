@@ -0,0 +1,276 @@
+/**
+ * Atom type hierarchy
+ * Registers every atom type under its parent types so that queries can include subtypes, and
+ * keeps the signatures used to validate the outgoing sets of links
+ */
+
+import type { Atom, AtomValidationIssue, Link, LinkArity, LinkSignature } from './types';
+import { AtomType } from './types';
+
+const BINARY: LinkSignature = { arity: { min: 2, max: 2 } };
+
+const BUILTIN_HIERARCHY: Array<[AtomType, AtomType[], LinkSignature?]> = [
+  [AtomType.ATOM, []],
+  [AtomType.NODE, [AtomType.ATOM]],
+  [AtomType.LINK, [AtomType.ATOM]],
+  [AtomType.CONCEPT_NODE, [AtomType.NODE]],
+  [AtomType.PREDICATE_NODE, [AtomType.NODE]],
+  [AtomType.VARIABLE_NODE, [AtomType.NODE]],
+  [AtomType.NUMBER_NODE, [AtomType.NODE]],
+  [AtomType.SCHEMA_NODE, [AtomType.NODE]],
+  [AtomType.ANCHOR_NODE, [AtomType.NODE]],
+  [AtomType.SCHEME_EXPRESSION, [AtomType.NODE]],
+  [AtomType.STRING_NODE, [AtomType.CONCEPT_NODE]], // string literals, concepts that are written quoted
+  [AtomType.INHERITANCE_LINK, [AtomType.LINK], BINARY],
+  [AtomType.SIMILARITY_LINK, [AtomType.LINK], BINARY],
+  [AtomType.MEMBER_LINK, [AtomType.LINK], BINARY],
+  [AtomType.EVALUATION_LINK, [AtomType.LINK], { ...BINARY, argumentTypes: [AtomType.PREDICATE_NODE] }],
+  [
+    AtomType.EXECUTION_LINK,
+    [AtomType.LINK],
+    { arity: { min: 2, max: 3 }, argumentTypes: [AtomType.SCHEMA_NODE] }, // schema, arguments and optional output
+  ],
+  [AtomType.LIST_LINK, [AtomType.LINK]],
+  [AtomType.VECTOR_LINK, [AtomType.LIST_LINK]],
+  [AtomType.PAIR_LINK, [AtomType.LIST_LINK], { arity: { min: 2 } }], // dotted list, the last atom is the tail
+  [AtomType.LAMBDA_LINK, [AtomType.LINK], { arity: { min: 1 } }],
+  [AtomType.APPLICATION_LINK, [AtomType.LINK], { arity: { min: 1 } }],
+  [AtomType.AND_LINK, [AtomType.LINK], { arity: { min: 1 } }],
+  [AtomType.OR_LINK, [AtomType.LINK], { arity: { min: 1 } }],
+  [AtomType.NOT_LINK, [AtomType.LINK], { arity: { min: 1, max: 1 } }],
+  [AtomType.IMPLICATION_LINK, [AtomType.LINK], BINARY],
+  [AtomType.HEBBIAN_LINK, [AtomType.LINK], BINARY],
+];
+
+/**
+ * Thrown when an atom does not fit the signature of its type
+ */
+export class AtomValidationError extends Error {
+  readonly issues: AtomValidationIssue[];
+
+  constructor(issues: AtomValidationIssue[]) {
+    super(issues.map((issue) => issue.message).join('; '));
+    this.name = 'AtomValidationError';
+    this.issues = issues;
+  }
+}
+
+export class AtomTypeRegistry {
+  private parents: Map<AtomType, AtomType[]> = new Map();
+  private children: Map<AtomType, Set<AtomType>> = new Map();
+  private signatures: Map<AtomType, LinkSignature> = new Map();
+
+  constructor() {
+    BUILTIN_HIERARCHY.forEach(([type, parents, signature]) => this.registerType(type, parents, { signature }));
+  }
+
+  /**
+   * Register an atom type below one or more parent types
+   *
+   * Custom types are plain strings; the returned value can be used wherever an AtomType is
+   * expected. Every type must descend from Node or Link. Link types without a signature inherit
+   * the signature of their parents.
+   */
+  registerType(
+    type: string,
+    parents: AtomType | AtomType[] = [],
+    options: { signature?: LinkSignature } = {},
+  ): AtomType {
+    const atomType = type as AtomType;
+    const parentTypes = Array.isArray(parents) ? parents : [parents];
+
+    if (this.parents.has(atomType)) {
+      throw new Error(`Atom type already registered: ${type}`);
+    }
+
+    for (const parent of parentTypes) {
+      if (!this.parents.has(parent)) {
+        throw new Error(`Unknown parent type ${parent} for atom type ${type}`);
+      }
+    }
+
+    const isBase = atomType === AtomType.ATOM || atomType === AtomType.NODE || atomType === AtomType.LINK;
+
+    if (!isBase && !parentTypes.some((parent) => this.isNodeType(parent) || this.isLinkType(parent))) {
+      throw new Error(`Atom type ${type} must inherit from Node or Link`);
+    }
+
+    this.parents.set(atomType, parentTypes);
+    this.children.set(atomType, new Set());
+    parentTypes.forEach((parent) => this.children.get(parent)!.add(atomType));
+
+    if (options.signature) {
+      this.setSignature(atomType, options.signature);
+    }
+
+    return atomType;
+  }
+
+  /**
+   * Set the signature that links of a type are validated against
+   */
+  setSignature(type: AtomType, signature: LinkSignature): void {
+    if (!this.isLinkType(type)) {
+      throw new Error(`Only link types can declare a signature: ${type}`);
+    }
+
+    this.signatures.set(type, signature);
+  }
+
+  /**
+   * Get the signature of a link type, inherited from the closest parent that declares one
+   */
+  getSignature(type: AtomType): LinkSignature | undefined {
+    const signature = this.signatures.get(type);
+
+    if (signature) {
+      return signature;
+    }
+
+    for (const parent of this.parents.get(type) || []) {
+      const inherited = this.getSignature(parent);
+
+      if (inherited) {
+        return inherited;
+      }
+    }
+
+    return undefined;
+  }
+
+  getArity(type: AtomType): LinkArity | undefined {
+    return this.getSignature(type)?.arity;
+  }
+
+  /**
+   * Check whether a type is registered
+   */
+  hasType(type: string): boolean {
+    return this.parents.has(type as AtomType);
+  }
+
+  /**
+   * Get the direct parent types of a type
+   */
+  getParents(type: AtomType): AtomType[] {
+    return [...(this.parents.get(type) || [])];
+  }
+
+  /**
+   * Get a type and all of its descendants
+   */
+  getSubtypes(type: AtomType): AtomType[] {
+    const subtypes = new Set<AtomType>([type]);
+
+    const visit = (current: AtomType) => {
+      for (const child of this.children.get(current) || []) {
+        if (!subtypes.has(child)) {
+          subtypes.add(child);
+          visit(child);
+        }
+      }
+    };
+
+    visit(type);
+
+    return Array.from(subtypes);
+  }
+
+  /**
+   * Check whether a type equals or descends from another type
+   */
+  isSubtypeOf(type: AtomType, ancestor: AtomType): boolean {
+    if (type === ancestor) {
+      return true;
+    }
+
+    return (this.parents.get(type) || []).some((parent) => this.isSubtypeOf(parent, ancestor));
+  }
+
+  isNodeType(type: AtomType): boolean {
+    return this.isSubtypeOf(type, AtomType.NODE);
+  }
+
+  isLinkType(type: AtomType): boolean {
+    return this.isSubtypeOf(type, AtomType.LINK);
+  }
+
+  /**
+   * Check that an atom has a registered type and, for links, that the outgoing set fits the
+   * signature of that type
+   */
+  validateAtom(atom: Atom): AtomValidationIssue[] {
+    const isLink = 'outgoing' in atom;
+
+    if (!this.hasType(atom.type)) {
+      return [{ code: 'unknown-type', type: atom.type, message: `Unknown atom type: ${atom.type}` }];
+    }
+
+    if (isLink !== this.isLinkType(atom.type)) {
+      const message = isLink
+        ? `${atom.type} is not a link type and cannot have outgoing atoms`
+        : `${atom.type} is a link type and needs an outgoing set`;
+
+      return [{ code: 'kind', type: atom.type, message }];
+    }
+
+    return isLink
+      ? this.validateOutgoing(
+          atom.type,
+          (atom as Link).outgoing.map((outgoingAtom) => outgoingAtom.type),
+        )
+      : [];
+  }
+
+  /**
+   * Check the types of a link's outgoing atoms against its signature
+   *
+   * Variables, VariableNode and the types registered below it, fit any typed position so that
+   * links can be written as patterns and rules.
+   */
+  validateOutgoing(type: AtomType, outgoingTypes: AtomType[]): AtomValidationIssue[] {
+    const signature = this.getSignature(type);
+    const issues: AtomValidationIssue[] = [];
+
+    if (!signature) {
+      return issues;
+    }
+
+    const { arity } = signature;
+
+    if (arity && (outgoingTypes.length < arity.min || outgoingTypes.length > (arity.max ?? Infinity))) {
+      issues.push({
+        code: 'arity',
+        type,
+        message: `${type} expects ${this.describeArity(arity)} outgoing atoms, got ${outgoingTypes.length}`,
+        expected: arity,
+        actual: outgoingTypes.length,
+      });
+    }
+
+    outgoingTypes.forEach((actual, position) => {
+      const expected = signature.argumentTypes?.[position] ?? signature.restType;
+
+      if (expected && !this.isSubtypeOf(actual, expected) && !this.isSubtypeOf(actual, AtomType.VARIABLE_NODE)) {
+        issues.push({
+          code: 'argument-type',
+          type,
+          message: `${type} expects ${expected} at position ${position}, got ${actual}`,
+          position,
+          expected,
+          actual,
+        });
+      }
+    });
+
+    return issues;
+  }
+
+  private describeArity(arity: LinkArity): string {
+    if (arity.max === arity.min) {
+      return `${arity.min}`;
+    }
+
+    return arity.max === undefined ? `at least ${arity.min}` : `${arity.min} to ${arity.max}`;
+  }
+}
@@ -10,6 +10,22 @@ export interface Atom {
   name?: string;
   truthValue?: TruthValue;
   confidence?: number;
+  attentionValue?: AttentionValue;
+  notation?: SchemeNotation; // How keyword Scheme last wrote the atom, when not the default; see AtomSpace.setNotation
+}
+
+/**
+ * Spelling of a keyword Scheme form that the atom alone does not tell, e.g. (list a b) rather
+ * than (a b), (predicate likes) rather than (predicate "likes") or #xff rather than 255
+ *
+ * A link's notation covers its whole outgoing tree, so an atom reached twice can be written
+ * differently at each place, as in ((list a b) (a b)).
+ */
+export interface SchemeNotation {
+  keyword?: string; // Head keyword of a ListLink or ConceptNode written with one
+  nameType?: 'symbol' | 'string'; // How the name of a node form was written
+  text?: string; // Source text of a number not written in its default notation
+  outgoing?: Array<SchemeNotation | null>; // Notation of each outgoing atom, null where it is the default
 }
 
 export interface Link extends Atom {
@@ -21,20 +37,43 @@ export interface Node extends Atom {
 }
 
 export enum AtomType {
+  // Base types, every other type descends from Node or Link
+  ATOM = 'Atom',
+  NODE = 'Node',
+  LINK = 'Link',
+
   // Basic node types
   CONCEPT_NODE = 'ConceptNode',
   PREDICATE_NODE = 'PredicateNode',
   VARIABLE_NODE = 'VariableNode',
+  NUMBER_NODE = 'NumberNode',
+  SCHEMA_NODE = 'SchemaNode',
+  ANCHOR_NODE = 'AnchorNode',
 
   // Basic link types
   INHERITANCE_LINK = 'InheritanceLink',
   EVALUATION_LINK = 'EvaluationLink',
   LIST_LINK = 'ListLink',
+  SIMILARITY_LINK = 'SimilarityLink',
+  MEMBER_LINK = 'MemberLink',
+  EXECUTION_LINK = 'ExecutionLink',
+
+  // Logical link types
+  AND_LINK = 'AndLink',
+  OR_LINK = 'OrLink',
+  NOT_LINK = 'NotLink',
+  IMPLICATION_LINK = 'ImplicationLink',
+
+  // Attention link types
+  HEBBIAN_LINK = 'HebbianLink',
 
   // Scheme-specific types
   SCHEME_EXPRESSION = 'SchemeExpression',
   LAMBDA_LINK = 'LambdaLink',
   APPLICATION_LINK = 'ApplicationLink',
+  STRING_NODE = 'StringNode',
+  VECTOR_LINK = 'VectorLink',
+  PAIR_LINK = 'PairLink',
 }
 
 export interface TruthValue {
@@ -42,13 +81,315 @@ export interface TruthValue {
   confidence: number; // [0, 1]
 }
 
+/**
+ * ECAN attention value, atoms without one have no importance
+ */
+export interface AttentionValue {
+  sti: number; // Short-term importance, decides membership of the attentional focus
+  lti: number; // Long-term importance
+  vlti: boolean; // Very long-term importance, never evicted by garbage collection
+}
+
+/**
+ * Combines the stored truth value of an atom with the one it is re-asserted with
+ */
+export type TruthValueMerger = (existing: TruthValue, incoming: TruthValue) => TruthValue;
+
+/**
+ * How re-asserted truth values are merged: PLN revision, keep the more confident estimate,
+ * take the newest estimate, or a custom merger
+ */
+export type TruthValueMergePolicy = 'revision' | 'max-confidence' | 'overwrite' | TruthValueMerger;
+
+/**
+ * Number of outgoing atoms a link type accepts
+ */
+export interface LinkArity {
+  min: number;
+  max?: number; // Unbounded when omitted
+}
+
+/**
+ * Structural constraints on the outgoing set of a link type
+ */
+export interface LinkSignature {
+  arity?: LinkArity;
+  argumentTypes?: AtomType[]; // Required type of each position, subtypes are accepted
+  restType?: AtomType; // Required type of positions past argumentTypes
+}
+
+/**
+ * A single reason why an atom does not fit its type
+ */
+export interface AtomValidationIssue {
+  code: 'unknown-type' | 'kind' | 'arity' | 'argument-type' | 'malformed-form';
+  type: AtomType;
+  message: string;
+  position?: number; // Index of the offending outgoing atom
+  expected?: AtomType | LinkArity;
+  actual?: AtomType | number;
+  path?: number[]; // Child indices leading to the offending Scheme expression
+}
+
+/**
+ * Options for type-based atom lookups
+ */
+export interface AtomTypeQueryOptions {
+  includeSubtypes?: boolean; // Also return atoms whose type descends from the requested type
+}
+
+// AtomSpace event types
+
+/**
+ * Payloads of the events emitted by an AtomSpace, keyed by event name
+ */
+export interface AtomSpaceEventMap {
+  'atom-added': { atom: Atom };
+  'atom-removed': { atom: Atom };
+  'tv-changed': { atom: Atom; previous?: TruthValue; current: TruthValue };
+  'av-changed': { atom: Atom; previous?: AttentionValue; current: AttentionValue };
+  'notation-changed': { atom: Atom; previous?: SchemeNotation; current?: SchemeNotation };
+  'tensor-added': { fragment: TensorFragment };
+  'atoms-used': { atoms: Atom[]; source: AtomUsageSource }; // Atoms used together, e.g. the groundings of a query
+}
+
+/**
+ * What used a group of atoms together
+ */
+export type AtomUsageSource = 'query' | 'translation' | 'chat';
+
+export type AtomSpaceEventType = keyof AtomSpaceEventMap;
+
+export type AtomSpaceListener<K extends AtomSpaceEventType> = (payload: AtomSpaceEventMap[K]) => void;
+
+// AtomSpace snapshot types
+
+/**
+ * Atom in a snapshot, links reference their outgoing atoms by ID
+ */
+export interface SerializedAtom {
+  id: string;
+  type: AtomType;
+  name?: string;
+  truthValue?: TruthValue;
+  confidence?: number;
+  attentionValue?: AttentionValue;
+  notation?: SchemeNotation;
+  value?: any;
+  outgoing?: string[];
+}
+
+/**
+ * Serialized tensor fragment that keeps its ID
+ */
+export interface SnapshotTensorFragment extends SerializedTensorFragment {
+  id: string;
+}
+
+/**
+ * Versioned, self-contained image of an AtomSpace
+ */
+export interface AtomSpaceSnapshot {
+  version: string;
+  createdAt: number;
+  atoms: SerializedAtom[]; // Outgoing atoms always precede the links that reference them
+  tensorFragments: SnapshotTensorFragment[];
+}
+
+export interface SnapshotImportOptions {
+  replace?: boolean; // Clear the AtomSpace before importing
+}
+
+// Pattern matching types
+
+/**
+ * Variable name (the name of a VariableNode) mapped to the atom it was grounded to
+ */
+export type VariableBindings = Record<string, Atom>;
+
+/**
+ * A single solution of a pattern query
+ */
+export interface PatternMatch {
+  bindings: VariableBindings;
+  grounding: Atom; // The atom in the AtomSpace that the pattern root matched
+}
+
+/**
+ * Options controlling a pattern query
+ */
+export interface PatternMatchOptions {
+  variableTypes?: Record<string, AtomType>; // Restrict a variable to groundings of a given type
+  allowVariableGroundings?: boolean; // Allow variables to be grounded by VariableNodes
+  limit?: number; // Maximum number of matches to return
+}
+
+// Inference types
+
+/**
+ * Computes the truth value of a conclusion from the truth values of the rule and its premises
+ */
+export type InferenceFormula = (rule: TruthValue, premises: TruthValue[]) => TruthValue;
+
+export interface RuleEngineConfig {
+  maxSteps: number; // Maximum number of rule applications per chaining run
+  maxDepth: number; // Maximum depth of backward chaining subgoals
+  defaultTruthValue: TruthValue; // Used for rules and premises without a truth value
+  formula: InferenceFormula;
+}
+
+export interface ChainingOptions {
+  rules?: Link[]; // Rules to use instead of every ImplicationLink with variables in the AtomSpace
+  maxSteps?: number;
+  maxDepth?: number;
+}
+
+/**
+ * A single rule application, in the order it happened
+ */
+export interface InferenceStep {
+  step: number;
+  direction: 'forward' | 'backward';
+  rule: Link;
+  bindings: VariableBindings; // Keyed by the variable names used in the rule
+  premises: Atom[];
+  conclusion: Atom;
+  truthValue: TruthValue;
+  isNew: boolean; // The conclusion did not exist before this step
+}
+
+export interface InferenceResult {
+  derived: Atom[]; // Conclusions that were created or whose truth value changed
+  trace: InferenceStep[];
+  steps: number;
+  exhausted: boolean; // False when the run stopped at the step limit
+}
+
+export interface BackwardChainingResult extends InferenceResult {
+  solutions: VariableBindings[]; // Groundings of the goal's variables
+  groundings: Atom[]; // Stored atoms matching the goal
+}
+
 // Scheme expression types
 export interface SchemeExpression {
-  type: 'atom' | 'list' | 'number' | 'string' | 'symbol';
+  type: SchemeExpressionType;
   value: any;
   children?: SchemeExpression[];
+  tail?: SchemeExpression; // Final cdr of a dotted pair
+  span?: SourceSpan; // Source range the expression was read from, absent on expressions built in code
+  text?: string; // Source text of a number, character or boolean literal, e.g. #xff or #\x41, written back as is
+}
+
+/**
+ * Kinds of Scheme expressions
+ *
+ * Vectors and dotted pairs keep their elements in children, a pair's final cdr in tail. Quote
+ * forms such as 'x or ,@x store the form name (quote, quasiquote, unquote or unquote-splicing)
+ * as value and the quoted datum as their only child.
+ */
+export type SchemeExpressionType =
+  | 'atom'
+  | 'list'
+  | 'number'
+  | 'string'
+  | 'symbol'
+  | 'boolean'
+  | 'char'
+  | 'vector'
+  | 'pair'
+  | 'quote';
+
+/**
+ * Location in Scheme source; line and column start at 1
+ */
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * Range of Scheme source from start up to, but not including, end
+ */
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * A problem found in Scheme source, either a syntax error or an atom that fails validation
+ */
+export interface SchemeDiagnostic {
+  severity: 'error' | 'warning' | 'info';
+  range: SourceSpan;
+  message: string;
+  fix?: string; // Hint on how to fix the problem
+  source: 'syntax' | 'validation';
+}
+
+/**
+ * A diagnostic in the shape CodeMirror lint sources return, with offsets into the document
+ */
+export interface SchemeLintMarker {
+  from: number;
+  to: number;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  source: string;
+}
+
+export type SchemeTokenType =
+  | 'open'
+  | 'close'
+  | 'vector-open'
+  | 'dot'
+  | 'quote'
+  | 'datum-comment'
+  | 'symbol'
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'char';
+
+export interface SchemeToken {
+  type: SchemeTokenType;
+  text: string; // Source text of the token
+  value?: any; // Decoded value of literals, or the form name of quote tokens
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * A quoted symbol, kept apart from strings when evaluating Scheme
+ */
+export interface SchemeSymbol {
+  kind: 'symbol';
+  name: string;
+}
+
+/**
+ * A callable Scheme value, either a lambda closure or a built-in primitive
+ */
+export interface SchemeProcedure {
+  kind: 'procedure';
+  name: string;
 }
 
+/**
+ * Runtime value of an evaluated Scheme expression; lists are arrays and undefined is the
+ * unspecified value returned by define, set! and one-armed if
+ */
+export type SchemeValue =
+  | number
+  | string
+  | boolean
+  | undefined
+  | SchemeSymbol
+  | SchemeProcedure
+  | TruthValue
+  | Atom
+  | SchemeValue[];
+
 // Agentic primitive types
 export interface AgenticPrimitive {
   action: string;
@@ -92,12 +433,125 @@ export interface SchemeAdapterConfig {
   defaultConfidence: number;
   atomIdGenerator?: () => string;
   validationLevel: 'strict' | 'permissive' | 'none';
+  dialect: 'keyword' | 'opencog'; // Heads written as keywords, e.g. (inheritance a b), or as OpenCog type names
+  layout?: Partial<SchemePrinterConfig>; // Pretty printing of expressionToString and atomsToScheme
+}
+
+export interface SchemePrinterConfig {
+  maxWidth: number; // Column lines are kept within where the layout allows
+  indentWidth: number; // Spaces a body is indented by
+  specialForms: Record<string, number>; // Heads whose first n arguments stay on their line, the rest indented as a body
+}
+
+export interface SchemeStreamParserConfig {
+  maxFormLength: number; // Characters a single top-level form may span before the stream is rejected
+}
+
+/**
+ * Progress of a streaming Scheme import
+ */
+export interface SchemeImportProgress {
+  charsRead: number;
+  formCount: number; // Top-level forms read so far
+  failedCount: number; // Forms skipped for syntax errors or failed conversion
+  atomCount: number; // Atoms produced by the converted forms, counted once per form
+}
+
+export interface SchemeEvaluatorConfig {
+  maxSteps: number; // Evaluation steps allowed per evaluate() call before it is aborted
+  maxDepth: number; // Nesting of non-tail calls allowed before evaluation is aborted
+}
+
+export interface AgenticTranslatorConfig {
+  defaultTruthValue: TruthValue; // Asserted for actions whose metadata carries no truth value
 }
 
 export interface AtomSpaceConfig {
   maxAtoms: number;
   enableGarbageCollection: boolean;
   truthValueThreshold: number;
+  truthValueMergePolicy: TruthValueMergePolicy;
+  gcEvictionRatio: number; // Fraction of maxAtoms freed when the AtomSpace fills up
+  gcWeights: GarbageCollectionWeights;
+  attentionProvider?: (atom: Atom) => number; // Attention of an atom in [0, 1], defaults to its relative STI
+  attentionalFocusBoundary: number; // Minimum STI of atoms in the attentional focus
+  attentionalFocusSize: number; // Maximum number of atoms in the attentional focus
+  onEvict?: (atoms: Atom[]) => void; // Called with the atoms removed by each garbage collection
+}
+
+/**
+ * Relative weight of each factor in an atom's retention score
+ */
+export interface GarbageCollectionWeights {
+  confidence: number;
+  attention: number;
+  age: number;
+}
+
+export interface GarbageCollectionOptions {
+  dryRun?: boolean; // Report what would be evicted without removing anything
+  targetSize?: number; // Evict low-scoring atoms until at most this many remain
+}
+
+export interface GarbageCollectionResult {
+  evicted: Atom[];
+  protectedCount: number; // Atoms kept because live links reference them
+  dryRun: boolean;
+}
+
+// Attention allocation types
+
+export interface AttentionAllocatorConfig {
+  targetStiFunds: number; // STI the bank starts with, wages are paid from it and rent flows back
+  targetLtiFunds: number;
+  stiWage: number; // STI paid per unit of stimulus
+  ltiWage: number; // LTI paid per unit of stimulus
+  stiRent: number; // STI collected from every atom in the attentional focus per tick
+  ltiRent: number; // LTI collected from every atom with an attention value per tick
+  diffusionRate: number; // Fraction of its STI an atom in the focus spreads to its neighbours per tick
+  tickInterval: number; // Milliseconds between ticks of the tick loop
+}
+
+/**
+ * Summary of a single attention allocation tick
+ */
+export interface AttentionTickResult {
+  tick: number;
+  wages: number; // STI paid to stimulated atoms
+  rent: number; // STI collected from atoms in the focus
+  spread: number; // STI moved between atoms by importance spreading
+  stiFunds: number;
+  ltiFunds: number;
+  focus: Atom[];
+}
+
+export interface HebbianLearnerConfig {
+  learningRate: number; // How far a tick moves link strengths towards 1 (co-occurred) or 0 (active apart)
+  confidenceLookahead: number; // Evidence count k at which link confidence reaches 0.5
+  includeAttentionalFocus: boolean; // Treat the attentional focus as co-occurring on every tick
+  maxGroupSize: number; // Atoms per observed group that are linked, bounding the number of pairs
+  maxPendingGroups: number; // Groups kept between ticks, the oldest are dropped once the limit is reached
+  tickInterval: number; // Milliseconds between ticks of the tick loop
+  observeUsage: boolean; // Observe the atoms-used events of queries, translations and chat turns
+}
+
+/**
+ * Summary of a single Hebbian learning tick
+ */
+export interface HebbianTickResult {
+  tick: number;
+  created: Link[]; // HebbianLinks created for pairs co-occurring for the first time
+  reinforced: Link[];
+  weakened: Link[]; // Links whose atoms were active without each other
+}
+
+/**
+ * An atom associated with another through a HebbianLink
+ */
+export interface HebbianAssociation {
+  atom: Atom;
+  link: Link;
+  strength: number;
 }
 
 // Tensor Fragment Architecture Types (Phase 1.2)
@@ -66,6 +66,45 @@ describe('HypergraphVisualizer', () => {
       expect(predicateNode?.shape).toBe('diamond');
     });
 
+    it('should give the new node types their own shapes', () => {
+      const schema = atomSpace.createNode(AtomType.SCHEMA_NODE, 'sort');
+      const number = atomSpace.createNode(AtomType.NUMBER_NODE, '3');
+      const anchor = atomSpace.createNode(AtomType.ANCHOR_NODE, 'inbox');
+
+      const visualization = visualizer.visualizeAtoms([schema, number, anchor]);
+      const byLabel = (label: string) => visualization.nodes.find((n) => n.label === label);
+
+      expect(byLabel('sort')).toMatchObject({ type: 'schema', shape: 'parallelogram' });
+      expect(byLabel('3')).toMatchObject({ type: 'number', shape: 'stadium' });
+      expect(byLabel('inbox')).toMatchObject({ type: 'anchor', shape: 'double-circle' });
+      expect(visualizer.exportFlowchart(visualization, 'mermaid')).toContain('[/"sort"/]');
+    });
+
+    it('should visualize logical links with their own edge types', () => {
+      const rainy = atomSpace.createNode(AtomType.CONCEPT_NODE, 'rainy');
+      const wet = atomSpace.createNode(AtomType.CONCEPT_NODE, 'wet');
+      const implication = atomSpace.createLink(AtomType.IMPLICATION_LINK, [rainy, wet]);
+      const negation = atomSpace.createLink(AtomType.NOT_LINK, [wet]);
+
+      const visualization = visualizer.visualizeAtoms([rainy, wet, implication, negation]);
+
+      expect(visualization.edges.map((edge) => edge.type).sort()).toEqual(['implication', 'not']);
+      expect(visualization.edges.find((edge) => edge.type === 'not')?.source).toBe(`hub-${negation.id}`);
+    });
+
+    it('should draw Hebbian links as bold edges weighted by their strength', () => {
+      const coffee = atomSpace.createNode(AtomType.CONCEPT_NODE, 'coffee');
+      const morning = atomSpace.createNode(AtomType.CONCEPT_NODE, 'morning');
+      const hebbian = atomSpace.createLink(AtomType.HEBBIAN_LINK, [coffee, morning], { strength: 0.7, confidence: 0.5 });
+
+      const visualization = visualizer.visualizeAtoms([coffee, morning, hebbian]);
+
+      expect(visualization.edges).toHaveLength(1);
+      expect(visualization.edges[0]).toMatchObject({ type: 'hebbian', style: 'bold', weight: 0.7 });
+      expect(visualizer.exportFlowchart(visualization, 'mermaid')).toContain('==>');
+      expect(visualizer.exportFlowchart(visualization, 'dot')).toContain('style=bold');
+    });
+
     it('should handle truth values in visualization', () => {
       const visualizerWithTruth = new HypergraphVisualizer({ showTruthValues: true });
 
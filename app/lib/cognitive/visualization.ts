@@ -12,8 +12,8 @@ import { AtomType } from './types';
 export interface VisualNode {
   id: string;
   label: string;
-  type: 'concept' | 'predicate' | 'variable' | 'tensor';
-  shape: 'circle' | 'square' | 'diamond' | 'hexagon';
+  type: 'concept' | 'predicate' | 'variable' | 'number' | 'schema' | 'anchor' | 'tensor';
+  shape: 'circle' | 'square' | 'diamond' | 'hexagon' | 'stadium' | 'parallelogram' | 'double-circle';
   color: string;
   metadata?: Record<string, any>;
 }
@@ -26,8 +26,22 @@ export interface VisualEdge {
   source: string;
   target: string;
   label: string;
-  type: 'inheritance' | 'evaluation' | 'list' | 'lambda' | 'application' | 'tensor-link';
-  style: 'solid' | 'dashed' | 'dotted';
+  type:
+    | 'inheritance'
+    | 'evaluation'
+    | 'list'
+    | 'lambda'
+    | 'application'
+    | 'similarity'
+    | 'member'
+    | 'execution'
+    | 'and'
+    | 'or'
+    | 'not'
+    | 'implication'
+    | 'hebbian'
+    | 'tensor-link';
+  style: 'solid' | 'dashed' | 'dotted' | 'bold';
   color: string;
   weight?: number;
 }
@@ -367,14 +381,25 @@ export class HypergraphVisualizer {
   private getAtomPriority(atom: Atom): number {
     const priorities = {
       [AtomType.PREDICATE_NODE]: 10,
+      [AtomType.SCHEMA_NODE]: 10,
       [AtomType.EVALUATION_LINK]: 9,
+      [AtomType.EXECUTION_LINK]: 9,
+      [AtomType.IMPLICATION_LINK]: 9,
       [AtomType.INHERITANCE_LINK]: 8,
+      [AtomType.SIMILARITY_LINK]: 8,
+      [AtomType.MEMBER_LINK]: 8,
+      [AtomType.AND_LINK]: 7,
+      [AtomType.OR_LINK]: 7,
+      [AtomType.NOT_LINK]: 7,
       [AtomType.LAMBDA_LINK]: 7,
       [AtomType.APPLICATION_LINK]: 6,
+      [AtomType.HEBBIAN_LINK]: 6,
       [AtomType.LIST_LINK]: 5,
       [AtomType.CONCEPT_NODE]: 4,
+      [AtomType.ANCHOR_NODE]: 4,
       [AtomType.VARIABLE_NODE]: 3,
-    };
+      [AtomType.NUMBER_NODE]: 2,
+    } as Partial<Record<AtomType, number>>;
 
     return priorities[atom.type] || 1;
   }
@@ -399,6 +424,18 @@ export class HypergraphVisualizer {
         shape = 'square';
         type = 'variable';
         break;
+      case AtomType.NUMBER_NODE:
+        shape = 'stadium';
+        type = 'number';
+        break;
+      case AtomType.SCHEMA_NODE:
+        shape = 'parallelogram';
+        type = 'schema';
+        break;
+      case AtomType.ANCHOR_NODE:
+        shape = 'double-circle';
+        type = 'anchor';
+        break;
       case AtomType.CONCEPT_NODE:
       default:
         shape = 'circle';
@@ -447,8 +484,8 @@ export class HypergraphVisualizer {
               weight: link.truthValue?.strength,
             });
           }
-        } else if (link.outgoing.length > 2) {
-          // N-ary link - create hub node
+        } else if (link.outgoing.length > 0) {
+          // Unary or n-ary link (e.g. NotLink, AndLink) - create hub node
           const hubNode: VisualNode = {
             id: `hub-${link.id}`,
             label: linkLabel,
@@ -506,6 +543,22 @@ export class HypergraphVisualizer {
         return 'lambda';
       case AtomType.APPLICATION_LINK:
         return 'application';
+      case AtomType.SIMILARITY_LINK:
+        return 'similarity';
+      case AtomType.MEMBER_LINK:
+        return 'member';
+      case AtomType.EXECUTION_LINK:
+        return 'execution';
+      case AtomType.AND_LINK:
+        return 'and';
+      case AtomType.OR_LINK:
+        return 'or';
+      case AtomType.NOT_LINK:
+        return 'not';
+      case AtomType.IMPLICATION_LINK:
+        return 'implication';
+      case AtomType.HEBBIAN_LINK:
+        return 'hebbian';
       default:
         return 'evaluation';
     }
@@ -521,6 +574,16 @@ export class HypergraphVisualizer {
         return 'dashed';
       case AtomType.LAMBDA_LINK:
         return 'dotted';
+      case AtomType.SIMILARITY_LINK:
+        return 'dashed';
+      case AtomType.MEMBER_LINK:
+        return 'dashed';
+      case AtomType.EXECUTION_LINK:
+        return 'dotted';
+      case AtomType.NOT_LINK:
+        return 'dotted';
+      case AtomType.HEBBIAN_LINK:
+        return 'bold';
       default:
         return 'solid';
     }
@@ -539,6 +602,9 @@ export class HypergraphVisualizer {
         concept: '#4A90E2',
         predicate: '#F5A623',
         variable: '#7ED321',
+        number: '#50E3C2',
+        schema: '#BD10E0',
+        anchor: '#8B572A',
         tensor: '#D0021B',
         context: '#9013FE',
       },
@@ -546,6 +612,9 @@ export class HypergraphVisualizer {
         concept: '#87CEEB',
         predicate: '#FFB347',
         variable: '#98FB98',
+        number: '#AFEEEE',
+        schema: '#DA70D6',
+        anchor: '#D2B48C',
         tensor: '#FF6B6B',
         context: '#DDA0DD',
       },
@@ -560,11 +629,22 @@ export class HypergraphVisualizer {
     map.set(AtomType.CONCEPT_NODE, this.getColorForType('concept'));
     map.set(AtomType.PREDICATE_NODE, this.getColorForType('predicate'));
     map.set(AtomType.VARIABLE_NODE, this.getColorForType('variable'));
+    map.set(AtomType.NUMBER_NODE, this.getColorForType('number'));
+    map.set(AtomType.SCHEMA_NODE, this.getColorForType('schema'));
+    map.set(AtomType.ANCHOR_NODE, this.getColorForType('anchor'));
     map.set(AtomType.INHERITANCE_LINK, '#FF8C00');
     map.set(AtomType.EVALUATION_LINK, '#32CD32');
     map.set(AtomType.LIST_LINK, '#9370DB');
     map.set(AtomType.LAMBDA_LINK, '#FF1493');
     map.set(AtomType.APPLICATION_LINK, '#00CED1');
+    map.set(AtomType.SIMILARITY_LINK, '#FFD700');
+    map.set(AtomType.MEMBER_LINK, '#20B2AA');
+    map.set(AtomType.EXECUTION_LINK, '#8A2BE2');
+    map.set(AtomType.AND_LINK, '#4682B4');
+    map.set(AtomType.OR_LINK, '#5F9EA0');
+    map.set(AtomType.NOT_LINK, '#DC143C');
+    map.set(AtomType.IMPLICATION_LINK, '#B8860B');
+    map.set(AtomType.HEBBIAN_LINK, '#FF69B4');
     return map;
   }
 
@@ -598,6 +678,8 @@ export class HypergraphVisualizer {
     if (nodeTypes.has('predicate')) groups.push('actions');
     if (nodeTypes.has('concept')) groups.push('concepts');
     if (nodeTypes.has('variable')) groups.push('variables');
+    if (nodeTypes.has('schema')) groups.push('schemas');
+    if (nodeTypes.has('number') || nodeTypes.has('anchor')) groups.push('values');
     if (nodeTypes.has('tensor')) groups.push('tensors');
 
     return groups;
@@ -629,6 +711,12 @@ export class HypergraphVisualizer {
         return ['{', '}'];
       case 'hexagon':
         return ['{{', '}}'];
+      case 'stadium':
+        return ['([', '])'];
+      case 'parallelogram':
+        return ['[/', '/]'];
+      case 'double-circle':
+        return ['(((', ')))'];
       case 'circle':
       default:
         return ['(', ')'];
@@ -641,6 +729,8 @@ export class HypergraphVisualizer {
         return '-..->';
       case 'dotted':
         return '-.->';
+      case 'bold':
+        return '==>';
       case 'solid':
       default:
         return '-->';
@@ -676,6 +766,12 @@ export class HypergraphVisualizer {
         return 'diamond';
       case 'hexagon':
         return 'hexagon';
+      case 'stadium':
+        return 'Mrecord';
+      case 'parallelogram':
+        return 'parallelogram';
+      case 'double-circle':
+        return 'doublecircle';
       case 'circle':
       default:
         return 'ellipse';
@@ -0,0 +1,143 @@
+/**
+ * Tests for the IndexedDB AtomSpace storage, run against an in-memory IndexedDB
+ */
+
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AtomSpace, AtomType } from '~/lib/cognitive';
+import type { Link } from '~/lib/cognitive';
+import { AtomSpaceStorage } from './atomspace-storage';
+import { deleteById, openDatabase } from './db';
+
+describe('AtomSpaceStorage', () => {
+  let db: IDBDatabase;
+
+  const open = (chatId = '1') => new AtomSpaceStorage(db, chatId, new AtomSpace(), { flushDelay: 0 });
+
+  beforeEach(async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    db = (await openDatabase())!;
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('should restore the AtomSpace of a chat in a new session', async () => {
+    const storage = open();
+    const cat = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat', { strength: 0.9, confidence: 0.8 });
+    const animal = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+
+    storage.atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+    storage.atomSpace.createTensorFragment(
+      { modality: 2, depth: 2, context: 1, salience: 1, autonomy_index: 1 },
+      new Float32Array([1, 2, 3, 4]),
+    );
+    await storage.close();
+
+    const restored = open();
+    await restored.loadAll();
+
+    const [link] = restored.atomSpace.getAtomsByType(AtomType.INHERITANCE_LINK) as Link[];
+
+    expect(restored.atomSpace.getAtomsByType(AtomType.CONCEPT_NODE)).toHaveLength(2);
+    expect(link.outgoing.map((atom) => atom.name)).toEqual(['cat', 'animal']);
+    expect(link.outgoing[0].truthValue).toEqual({ strength: 0.9, confidence: 0.8 });
+    expect(restored.atomSpace.getAllTensorFragments()).toHaveLength(1);
+  });
+
+  it('should persist atoms that were in the AtomSpace before it was stored', async () => {
+    const atomSpace = new AtomSpace();
+    atomSpace.createNode(AtomType.CONCEPT_NODE, 'draft');
+
+    await new AtomSpaceStorage(db, '1', atomSpace).close();
+
+    const restored = open();
+
+    expect((await restored.loadAtomsByName('draft')).map((atom) => atom.name)).toEqual(['draft']);
+  });
+
+  it('should load links lazily together with the atoms they reference', async () => {
+    const storage = open();
+    const cat = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const animal = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+
+    storage.atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+    storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'unrelated');
+    await storage.close();
+
+    const restored = open();
+    const incoming = await restored.loadIncoming(animal.id);
+
+    expect(incoming).toHaveLength(1);
+    expect(incoming[0].outgoing.map((atom) => atom.name)).toEqual(['cat', 'animal']);
+    expect(restored.atomSpace.getAtomsByType(AtomType.CONCEPT_NODE)).toHaveLength(2);
+  });
+
+  it('should delete stored links to a removed atom that were not loaded', async () => {
+    const storage = open();
+    const cat = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    const animal = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    const inheritance = storage.atomSpace.createLink(AtomType.INHERITANCE_LINK, [cat, animal]);
+
+    storage.atomSpace.createLink(AtomType.LIST_LINK, [inheritance, animal]);
+    await storage.close();
+
+    const session = open();
+    await session.loadAtom(cat.id);
+    session.atomSpace.removeAtom(cat.id);
+    await session.close();
+
+    const restored = open();
+
+    expect(await restored.loadAtomsByType(AtomType.INHERITANCE_LINK)).toEqual([]);
+    expect(await restored.loadIncoming(animal.id)).toEqual([]);
+
+    await restored.loadAll();
+
+    expect(restored.atomSpace.getAllAtoms().map((atom) => atom.name)).toEqual(['animal']);
+  });
+
+  it('should skip stored links whose targets are missing', async () => {
+    const storage = open();
+    const animal = storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'animal');
+    await storage.close();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction('atoms', 'readwrite');
+
+      transaction.objectStore('atoms').put({
+        chatId: '1',
+        id: 'dangling',
+        type: AtomType.INHERITANCE_LINK,
+        outgoing: ['deleted', animal.id],
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const restored = open();
+
+    await expect(restored.loadAll()).resolves.toBeUndefined();
+    expect(restored.atomSpace.getAllAtoms().map((atom) => atom.name)).toEqual(['animal']);
+  });
+
+  it('should delete the stored AtomSpace together with its chat', async () => {
+    const storage = open('1');
+    const other = open('2');
+
+    storage.atomSpace.createNode(AtomType.CONCEPT_NODE, 'cat');
+    other.atomSpace.createNode(AtomType.CONCEPT_NODE, 'dog');
+    await Promise.all([storage.close(), other.close()]);
+
+    await deleteById(db, '1');
+
+    const [restored, restoredOther] = [open('1'), open('2')];
+    await Promise.all([restored.loadAll(), restoredOther.loadAll()]);
+
+    expect(restored.atomSpace.getAllAtoms()).toEqual([]);
+    expect(restoredOther.atomSpace.getAllAtoms().map((atom) => atom.name)).toEqual(['dog']);
+  });
+});
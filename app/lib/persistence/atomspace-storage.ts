@@ -0,0 +1,408 @@
+import { AtomSpace, SNAPSHOT_VERSION, TensorFragmentProcessor, serializeAtom } from '~/lib/cognitive';
+import type { Atom, AtomType, Link, SerializedAtom, SnapshotTensorFragment, TensorFragment } from '~/lib/cognitive';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('AtomSpaceStorage');
+
+export const ATOMSPACE_STORES = ['atoms', 'atomIndices', 'tensorFragments'];
+
+export interface AtomSpaceStorageOptions {
+  flushDelay?: number; // milliseconds to wait before writing queued changes
+  batchSize?: number; // number of queued changes that triggers an immediate write
+}
+
+type StoredAtom = SerializedAtom & { chatId: string };
+type StoredTensorFragment = SnapshotTensorFragment & { chatId: string };
+
+interface StoredIndexEntry {
+  chatId: string;
+  key: string;
+  atomId: string;
+}
+
+type PendingChange = { kind: 'put'; atom: Atom } | { kind: 'delete'; atom: Atom };
+
+/**
+ * Persists the AtomSpace of a chat in IndexedDB.
+ *
+ * Changes are picked up from the AtomSpace events and written behind in batches, starting with
+ * whatever the AtomSpace already holds. Nothing is read up front: atoms are loaded on demand by
+ * ID, type, name or incoming set, together with the atoms their links point at.
+ */
+export class AtomSpaceStorage {
+  readonly atomSpace: AtomSpace;
+
+  #db: IDBDatabase;
+  #chatId: string;
+  #flushDelay: number;
+  #batchSize: number;
+  #pendingAtoms = new Map<string, PendingChange>();
+  #pendingFragments = new Map<string, TensorFragment>();
+  #flushTimer: ReturnType<typeof setTimeout> | undefined;
+  #writing: Promise<void> = Promise.resolve();
+  #loading = false;
+  #tensorProcessor = new TensorFragmentProcessor();
+  #unsubscribe: Array<() => void>;
+
+  constructor(db: IDBDatabase, chatId: string, atomSpace = new AtomSpace(), options: AtomSpaceStorageOptions = {}) {
+    this.atomSpace = atomSpace;
+    this.#db = db;
+    this.#chatId = chatId;
+    this.#flushDelay = options.flushDelay ?? 500;
+    this.#batchSize = options.batchSize ?? 1000;
+
+    const track = (atom: Atom) => this.#queueAtom({ kind: 'put', atom });
+    const trackFragment = (fragment: TensorFragment) => {
+      if (!this.#loading) {
+        this.#pendingFragments.set(fragment.id, fragment);
+        this.#scheduleFlush();
+      }
+    };
+
+    this.#unsubscribe = [
+      atomSpace.on('atom-added', ({ atom }) => track(atom)),
+      atomSpace.on('tv-changed', ({ atom }) => track(atom)),
+      atomSpace.on('av-changed', ({ atom }) => track(atom)),
+      atomSpace.on('notation-changed', ({ atom }) => track(atom)),
+      atomSpace.on('atom-removed', ({ atom }) => this.#queueAtom({ kind: 'delete', atom })),
+      atomSpace.on('tensor-added', ({ fragment }) => trackFragment(fragment)),
+    ];
+
+    atomSpace.getAllAtoms().forEach(track);
+    atomSpace.getAllTensorFragments().forEach(trackFragment);
+  }
+
+  /**
+   * Load an atom and everything it references, if it is not in memory yet.
+   */
+  async loadAtom(id: string): Promise<Atom | undefined> {
+    const [atom] = await this.#loadAtoms([id]);
+    return atom;
+  }
+
+  async loadAtomsByType(type: AtomType): Promise<Atom[]> {
+    return this.#loadAtoms(await this.#getIndexedIds(`type:${type}`));
+  }
+
+  async loadAtomsByName(name: string): Promise<Atom[]> {
+    return this.#loadAtoms(await this.#getIndexedIds(`name:${name}`));
+  }
+
+  /**
+   * Load the links that point at an atom.
+   */
+  async loadIncoming(id: string): Promise<Link[]> {
+    return (await this.#loadAtoms(await this.#getIndexedIds(`incoming:${id}`))) as Link[];
+  }
+
+  async loadTensorFragment(id: string): Promise<TensorFragment | undefined> {
+    const existing = this.atomSpace.getTensorFragment(id);
+
+    if (existing) {
+      return existing;
+    }
+
+    const stored = await this.#request<StoredTensorFragment | undefined>('tensorFragments', (store) =>
+      store.get([this.#chatId, id]),
+    );
+
+    if (stored) {
+      this.#import([], [stored]);
+    }
+
+    return this.atomSpace.getTensorFragment(id);
+  }
+
+  /**
+   * Load every persisted atom and tensor fragment of the chat.
+   */
+  async loadAll(): Promise<void> {
+    const range = chatRange(this.#chatId);
+    const atoms = await this.#request<StoredAtom[]>('atoms', (store) => store.getAll(range));
+    const fragments = await this.#request<StoredTensorFragment[]>('tensorFragments', (store) => store.getAll(range));
+
+    this.#import(
+      orderForImport(new Map(atoms.map((atom) => [atom.id, atom])), this.atomSpace),
+      fragments.filter((fragment) => !this.atomSpace.getTensorFragment(fragment.id)),
+    );
+  }
+
+  /**
+   * Write all queued changes.
+   */
+  flush(): Promise<void> {
+    clearTimeout(this.#flushTimer);
+    this.#flushTimer = undefined;
+
+    const atoms = Array.from(this.#pendingAtoms.values());
+    const fragments = Array.from(this.#pendingFragments.values());
+
+    this.#pendingAtoms.clear();
+    this.#pendingFragments.clear();
+
+    if (atoms.length > 0 || fragments.length > 0) {
+      // chain writes so that batches land in the order they were queued
+      this.#writing = this.#writing.then(() => this.#write(atoms, fragments));
+    }
+
+    return this.#writing;
+  }
+
+  /**
+   * Delete the persisted state of the chat. The in-memory AtomSpace is left untouched.
+   */
+  async clear(): Promise<void> {
+    this.#pendingAtoms.clear();
+    this.#pendingFragments.clear();
+
+    await this.#writing;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.#db.transaction(ATOMSPACE_STORES, 'readwrite');
+
+      deleteAtomSpaceRecords(transaction, this.#chatId);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Write the remaining changes and stop tracking the AtomSpace.
+   */
+  async close(): Promise<void> {
+    this.#unsubscribe.forEach((unsubscribe) => unsubscribe());
+    await this.flush();
+  }
+
+  #queueAtom(change: PendingChange) {
+    if (this.#loading) {
+      return;
+    }
+
+    this.#pendingAtoms.set(change.atom.id, change);
+    this.#scheduleFlush();
+  }
+
+  #scheduleFlush() {
+    if (this.#pendingAtoms.size + this.#pendingFragments.size >= this.#batchSize) {
+      this.flush().catch((error) => logger.error(error));
+    } else if (!this.#flushTimer) {
+      this.#flushTimer = setTimeout(() => this.flush().catch((error) => logger.error(error)), this.#flushDelay);
+    }
+  }
+
+  #write(atoms: PendingChange[], fragments: TensorFragment[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.#db.transaction(ATOMSPACE_STORES, 'readwrite');
+      const atomStore = transaction.objectStore('atoms');
+      const indexStore = transaction.objectStore('atomIndices');
+      const fragmentStore = transaction.objectStore('tensorFragments');
+
+      const deleted = new Set<string>();
+
+      // delete the record, then the persisted links pointing at it, which may not be in memory
+      const deleteAtom = (id: string) => {
+        if (deleted.has(id)) {
+          return;
+        }
+
+        deleted.add(id);
+
+        const record = atomStore.get([this.#chatId, id]);
+
+        record.onsuccess = () => {
+          if (record.result) {
+            atomStore.delete([this.#chatId, id]);
+            getIndexKeys(record.result).forEach((key) => indexStore.delete([this.#chatId, key, id]));
+          }
+        };
+
+        const incoming = indexStore.getAll(indexRange(this.#chatId, `incoming:${id}`));
+
+        incoming.onsuccess = () => {
+          (incoming.result as StoredIndexEntry[]).forEach((entry) => deleteAtom(entry.atomId));
+        };
+      };
+
+      for (const { kind, atom } of atoms) {
+        if (kind === 'put') {
+          const record = serializeAtom(atom);
+
+          atomStore.put({ ...record, chatId: this.#chatId });
+          getIndexKeys(record).forEach((key) => indexStore.put({ chatId: this.#chatId, key, atomId: atom.id }));
+        } else {
+          deleteAtom(atom.id);
+        }
+      }
+
+      for (const fragment of fragments) {
+        const result = this.#tensorProcessor.serializeTensorFragment(fragment);
+
+        if (result.success) {
+          fragmentStore.put({ ...JSON.parse(result.result!), id: fragment.id, chatId: this.#chatId });
+        } else {
+          logger.error(`Failed to persist tensor fragment ${fragment.id}: ${result.error}`);
+        }
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async #getIndexedIds(key: string): Promise<string[]> {
+    const range = indexRange(this.#chatId, key);
+    const entries = await this.#request<StoredIndexEntry[]>('atomIndices', (store) => store.getAll(range));
+
+    return entries.map((entry) => entry.atomId);
+  }
+
+  /**
+   * Load the given atoms and, level by level, the atoms their links reference that are neither
+   * in memory nor loaded yet.
+   */
+  async #loadAtoms(ids: string[]): Promise<Atom[]> {
+    const records = new Map<string, StoredAtom>();
+    let missing = ids.filter((id) => !this.atomSpace.getAtom(id));
+
+    while (missing.length > 0) {
+      const transaction = this.#db.transaction('atoms', 'readonly');
+      const store = transaction.objectStore('atoms');
+      const fetched = await Promise.all(
+        missing.map((id) => toPromise<StoredAtom | undefined>(store.get([this.#chatId, id]))),
+      );
+
+      missing = [];
+
+      for (const record of fetched) {
+        if (!record || records.has(record.id)) {
+          continue;
+        }
+
+        records.set(record.id, record);
+        record.outgoing?.forEach((id) => {
+          if (!records.has(id) && !this.atomSpace.getAtom(id)) {
+            missing.push(id);
+          }
+        });
+      }
+    }
+
+    const imported = this.#import(orderForImport(records, this.atomSpace), []);
+
+    return ids
+      .map((id) => this.atomSpace.getAtom(imported.get(id) ?? id))
+      .filter((atom): atom is Atom => atom !== undefined);
+  }
+
+  /**
+   * Import stored records without queueing them for writing again, returning the stored ID
+   * of every imported atom keyed by its persisted ID.
+   */
+  #import(atoms: StoredAtom[], fragments: StoredTensorFragment[]): Map<string, string> {
+    if (atoms.length === 0 && fragments.length === 0) {
+      return new Map();
+    }
+
+    this.#loading = true;
+
+    try {
+      const ids = this.atomSpace.importSnapshot({
+        version: SNAPSHOT_VERSION,
+        createdAt: Date.now(),
+        atoms: atoms.map(({ chatId: _chatId, ...atom }) => atom),
+        tensorFragments: fragments.map(({ chatId: _chatId, ...fragment }) => fragment),
+      });
+
+      return new Map(atoms.map((atom, index) => [atom.id, ids[index]]));
+    } finally {
+      this.#loading = false;
+    }
+  }
+
+  #request<T>(storeName: string, createRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const transaction = this.#db.transaction(storeName, 'readonly');
+    return toPromise<T>(createRequest(transaction.objectStore(storeName)));
+  }
+}
+
+/**
+ * Delete every AtomSpace record of a chat as part of a transaction spanning ATOMSPACE_STORES.
+ */
+export function deleteAtomSpaceRecords(transaction: IDBTransaction, chatId: string) {
+  for (const storeName of ATOMSPACE_STORES) {
+    transaction.objectStore(storeName).delete(chatRange(chatId));
+  }
+}
+
+function chatRange(chatId: string) {
+  // arrays sort after every string, so [chatId, []] is an upper bound for all keys of the chat
+  return IDBKeyRange.bound([chatId], [chatId, []]);
+}
+
+function indexRange(chatId: string, key: string) {
+  return IDBKeyRange.bound([chatId, key], [chatId, key, []]);
+}
+
+function getIndexKeys(record: SerializedAtom): string[] {
+  const keys = [`type:${record.type}`];
+
+  if (record.name !== undefined) {
+    keys.push(`name:${record.name}`);
+  }
+
+  record.outgoing?.forEach((id) => keys.push(`incoming:${id}`));
+
+  return keys;
+}
+
+/**
+ * Order records so that every link follows the atoms it references. Records already in memory
+ * are left out, and so are links to atoms that are neither in memory nor among the records.
+ */
+function orderForImport(records: Map<string, StoredAtom>, atomSpace: AtomSpace): StoredAtom[] {
+  const ordered: StoredAtom[] = [];
+  const resolved = new Map<string, boolean>();
+
+  const visit = (record: StoredAtom): boolean => {
+    const known = resolved.get(record.id);
+
+    if (known !== undefined) {
+      return known;
+    }
+
+    // unresolved while visiting, so a corrupted record that references itself is skipped
+    resolved.set(record.id, false);
+
+    const complete = (record.outgoing ?? []).every((id) => {
+      const outgoing = records.get(id);
+      return outgoing ? visit(outgoing) : atomSpace.getAtom(id) !== undefined;
+    });
+
+    if (complete) {
+      ordered.push(record);
+    } else {
+      logger.warn(`Skipping link ${record.id}, it references an atom that is not stored`);
+    }
+
+    resolved.set(record.id, complete);
+
+    return complete;
+  };
+
+  records.forEach((record) => {
+    if (!atomSpace.getAtom(record.id)) {
+      visit(record);
+    }
+  });
+
+  return ordered;
+}
+
+function toPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
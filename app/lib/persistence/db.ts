@@ -1,13 +1,14 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
+import { ATOMSPACE_STORES, deleteAtomSpaceRecords } from './atomspace-storage';
 
 const logger = createScopedLogger('ChatHistory');
 
 // this is used at the top level and never rejects
 export async function openDatabase(): Promise<IDBDatabase | undefined> {
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    const request = indexedDB.open('boltHistory', 2);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -17,6 +18,19 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      // cognitive state of each chat, keyed by [chatId, ...] so a chat's records form one key range
+      if (!db.objectStoreNames.contains('atoms')) {
+        db.createObjectStore('atoms', { keyPath: ['chatId', 'id'] });
+      }
+
+      if (!db.objectStoreNames.contains('atomIndices')) {
+        db.createObjectStore('atomIndices', { keyPath: ['chatId', 'key', 'atomId'] });
+      }
+
+      if (!db.objectStoreNames.contains('tensorFragments')) {
+        db.createObjectStore('tensorFragments', { keyPath: ['chatId', 'id'] });
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -94,12 +108,13 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
-    const store = transaction.objectStore('chats');
-    const request = store.delete(id);
+    const transaction = db.transaction(['chats', ...ATOMSPACE_STORES], 'readwrite');
 
-    request.onsuccess = () => resolve(undefined);
-    request.onerror = () => reject(request.error);
+    transaction.objectStore('chats').delete(id);
+    deleteAtomSpaceRecords(transaction, id);
+
+    transaction.oncomplete = () => resolve(undefined);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
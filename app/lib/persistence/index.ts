@@ -1,2 +1,3 @@
 export * from './db';
 export * from './useChatHistory';
+export * from './atomspace-storage';
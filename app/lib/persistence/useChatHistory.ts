@@ -3,7 +3,10 @@ import { useState, useEffect } from 'react';
 import { atom } from 'nanostores';
 import type { Message } from 'ai';
 import { toast } from 'react-toastify';
+import { AtomSpace } from '~/lib/cognitive';
 import { workbenchStore } from '~/lib/stores/workbench';
+import { createScopedLogger } from '~/utils/logger';
+import { AtomSpaceStorage } from './atomspace-storage';
 import { getMessages, getNextId, getUrlId, openDatabase, setMessages } from './db';
 
 export interface ChatHistoryItem {
@@ -14,6 +17,8 @@ export interface ChatHistoryItem {
   timestamp: string;
 }
 
+const logger = createScopedLogger('ChatHistory');
+
 const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
 
 export const db = persistenceEnabled ? await openDatabase() : undefined;
@@ -21,6 +26,11 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 
+// cognitive state of the current chat, persisted alongside its messages once the chat has an ID
+export const chatAtomSpace = new AtomSpace();
+
+let atomSpaceStorage: AtomSpaceStorage | undefined;
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -42,12 +52,14 @@ export function useChatHistory() {
 
     if (mixedId) {
       getMessages(db, mixedId)
-        .then((storedMessages) => {
+        .then(async (storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
             setInitialMessages(storedMessages.messages);
             setUrlId(storedMessages.urlId);
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
+
+            await persistChatAtomSpace(db, storedMessages.id);
           } else {
             navigate(`/`, { replace: true });
           }
@@ -89,13 +101,30 @@ export function useChatHistory() {
         if (!urlId) {
           navigateChat(nextId);
         }
+
+        await persistChatAtomSpace(db, nextId);
       }
 
       await setMessages(db, chatId.get() as string, messages, urlId, description.get());
+      await atomSpaceStorage?.flush();
     },
   };
 }
 
+/**
+ * Start persisting the chat AtomSpace and load whatever an earlier session stored for the chat.
+ */
+async function persistChatAtomSpace(db: IDBDatabase, id: string) {
+  atomSpaceStorage = new AtomSpaceStorage(db, id, chatAtomSpace);
+
+  try {
+    await atomSpaceStorage.loadAll();
+  } catch (error) {
+    toast.error('Failed to restore the cognitive state of this chat');
+    logger.error(error);
+  }
+}
+
 function navigateChat(nextId: string) {
   /**
    * FIXME: Using the intended navigate function causes a rerender for <Chat /> that breaks the app.